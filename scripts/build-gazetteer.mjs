@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+/**
+ * Build `public/data/cities.json` (the offline gazetteer) from a GeoNames dump.
+ *
+ *   1. Download and unzip a cities file and the admin1 names from
+ *      https://download.geonames.org/export/dump/ — e.g. `cities15000.zip`
+ *      (~26k places) or `cities5000.zip` (~50k places), plus `admin1CodesASCII.txt`.
+ *   2. node scripts/build-gazetteer.mjs cities15000.txt admin1CodesASCII.txt
+ *
+ * The app re-imports the file into SQLite automatically when it changes.
+ * GeoNames data is licensed CC BY 4.0 (https://www.geonames.org/).
+ */
+import fs from "fs";
+import path from "path";
+
+const [citiesFile, admin1File] = process.argv.slice(2);
+if (!citiesFile) {
+  console.error("Usage: node scripts/build-gazetteer.mjs <citiesNNNN.txt> [admin1CodesASCII.txt]");
+  process.exit(1);
+}
+
+// "US.IL" → "Illinois"
+const admin1Names = new Map();
+if (admin1File) {
+  for (const line of fs.readFileSync(admin1File, "utf8").split("\n")) {
+    const [code, name] = line.split("\t");
+    if (code && name) admin1Names.set(code, name);
+  }
+}
+
+// Alternate names: keep short, Latin-or-native names, capped so big cities
+// (which list hundreds of transliterations) don't bloat the file
+const MAX_ALT_NAMES = 12;
+
+const cities = [];
+for (const line of fs.readFileSync(citiesFile, "utf8").split("\n")) {
+  const f = line.split("\t");
+  if (f.length < 15) continue;
+  const [, name, asciiName, alternates, lat, lng, , , country, , admin1Code] = f;
+  const population = parseInt(f[14], 10) || 0;
+
+  const alt = [...new Set([asciiName, ...alternates.split(",")])]
+    .filter((a) => a && a !== name && a.length <= 40 && !/^[a-z]{2,3}$/.test(a) && !/^https?:/.test(a))
+    .sort((a, b) => a.length - b.length)
+    .slice(0, MAX_ALT_NAMES);
+
+  cities.push({
+    name,
+    ...(alt.length ? { alt } : {}),
+    lat: +parseFloat(lat).toFixed(4),
+    lng: +parseFloat(lng).toFixed(4),
+    country,
+    admin1: admin1Names.get(`${country}.${admin1Code}`) ?? "",
+    admin1Code,
+    population,
+  });
+}
+
+cities.sort((a, b) => b.population - a.population);
+
+const out = path.join(process.cwd(), "public", "data", "cities.json");
+fs.writeFileSync(out, "[\n" + cities.map((c) => "  " + JSON.stringify(c)).join(",\n") + "\n]\n");
+console.log(`Wrote ${cities.length} places to ${path.relative(process.cwd(), out)}`);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findSavedPointByCoords, getDirectionsById, savedPointFromRow } from "@/lib/db";
+import {
+  ROUTE_EXPORT_FORMATS,
+  exportRoute,
+  routeFromMapboxResponse,
+  withPointDetails,
+  type RouteExportFormat,
+} from "@/lib/exporters";
+import { decodeWaypoints } from "@/lib/routing";
+
+/**
+ * GET /api/directions/export?id=42&format=gpx&route=0
+ *
+ * Replays a route stored in the `directions` table as a file download —
+ * `format` is `gpx` (default), `kml` or `geojson`; `route` picks an alternative
+ * (0 = the primary route). Stops keep the labels saved with the route (else the
+ * roads Mapbox snapped them to); stops that are saved points carry their notes,
+ * tags and custom fields.
+ */
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+
+  const id = parseInt(sp.get("id") ?? "", 10);
+  const format = (sp.get("format") || "gpx") as RouteExportFormat;
+  const routeIndex = parseInt(sp.get("route") ?? "0", 10);
+
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ error: "Missing or invalid id" }, { status: 400 });
+  }
+  if (!ROUTE_EXPORT_FORMATS.some((f) => f.id === format)) {
+    return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+  }
+  if (!Number.isInteger(routeIndex) || routeIndex < 0) {
+    return NextResponse.json({ error: "Invalid route index" }, { status: 400 });
+  }
+
+  let row;
+  try {
+    row = getDirectionsById(id);
+  } catch (e) {
+    console.error("[db] directions export lookup error:", e);
+    return NextResponse.json({ error: "Failed to read directions" }, { status: 500 });
+  }
+  if (!row) {
+    return NextResponse.json({ error: `No stored route with id ${id}` }, { status: 404 });
+  }
+
+  const route = routeFromMapboxResponse(JSON.parse(row.response), {
+    routeIndex,
+    profile: row.profile,
+    labels: storedLabels(row.labels),
+  });
+  if (!route) {
+    return NextResponse.json({ error: `Stored response has no route ${routeIndex}` }, { status: 404 });
+  }
+
+  // Match on the requested coordinates — Mapbox's snapped ones can be tens of metres off
+  const requested = [
+    { lat: row.origin_lat, lng: row.origin_lng },
+    ...(row.via ? decodeWaypoints(row.via) ?? [] : []),
+    { lat: row.dest_lat, lng: row.dest_lng },
+  ];
+  try {
+    route.waypoints = route.waypoints.map((w, i) => {
+      const saved = requested[i] && findSavedPointByCoords(requested[i].lat, requested[i].lng);
+      return withPointDetails(w, saved ? savedPointFromRow(saved) : null);
+    });
+  } catch (e) {
+    console.error("[db] saved point lookup error:", e);
+  }
+
+  const { content, mimeType, filename } = exportRoute(route, format);
+  return new NextResponse(content, {
+    headers: {
+      "Content-Type": `${mimeType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
+
+/* ---- helpers ---- */
+
+/** The row's `labels` column, if it holds a JSON array of strings */
+function storedLabels(value: string | null): string[] | undefined {
+  try {
+    const labels: unknown = value ? JSON.parse(value) : null;
+    return Array.isArray(labels) && labels.every((l) => typeof l === "string") ? labels : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getDirectionsHistory, sqliteUtc, type DirectionsHistoryRow } from "@/lib/db";
+import { decodeWaypoints } from "@/lib/routing";
+import type { RouteHistoryEntry } from "@/lib/types";
+
+/**
+ * GET /api/directions/history?page=1&limit=20&profile=driving&from=2026-01-01&to=2026-01-31
+ *
+ * Pages through every route stored in the `directions` table, newest first.
+ * `profile`, `from` and `to` (UTC dates, inclusive) are optional filters.
+ * Returns `{ routes: RouteHistoryEntry[], page, limit, total }`; open one
+ * without calling Mapbox via `/api/directions?id=…`.
+ */
+
+const PROFILES = new Set(["driving", "driving-traffic", "walking", "cycling"]);
+const MAX_LIMIT = 100;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+
+  const page = parseInt(sp.get("page") ?? "1", 10);
+  const limit = parseInt(sp.get("limit") ?? "20", 10);
+  const profile = sp.get("profile") || undefined;
+  const from = sp.get("from") || undefined;
+  const to = sp.get("to") || undefined;
+
+  if (!Number.isInteger(page) || page < 1) {
+    return NextResponse.json({ error: "page must be a positive integer" }, { status: 400 });
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be between 1 and ${MAX_LIMIT}` }, { status: 400 });
+  }
+  if (profile && !PROFILES.has(profile)) {
+    return NextResponse.json({ error: `Unsupported profile: ${profile}` }, { status: 400 });
+  }
+  if ((from && !DATE_RE.test(from)) || (to && !DATE_RE.test(to))) {
+    return NextResponse.json({ error: "from / to must be YYYY-MM-DD dates" }, { status: 400 });
+  }
+
+  try {
+    const { rows, total } = getDirectionsHistory({ profile, from, to, limit, offset: (page - 1) * limit });
+    return NextResponse.json({ routes: rows.map(toEntry), page, limit, total });
+  } catch (e) {
+    console.error("[db] directions history error:", e);
+    return NextResponse.json({ error: "Failed to read route history" }, { status: 500 });
+  }
+}
+
+/* ---- helpers ---- */
+
+function toEntry(row: DirectionsHistoryRow): RouteHistoryEntry {
+  const points = [
+    { lat: row.origin_lat, lng: row.origin_lng },
+    ...(row.via ? decodeWaypoints(row.via) ?? [] : []),
+    { lat: row.dest_lat, lng: row.dest_lng },
+  ];
+
+  // Labels saved with the route, else the road names Mapbox snapped each stop to
+  const labels = parseJson<string[]>(row.labels);
+  const snapped = parseJson<{ name?: string }[]>(row.waypoints);
+  const stops = points.map((p, i) => ({
+    ...p,
+    label:
+      (labels?.length === points.length && labels[i]) ||
+      snapped?.[i]?.name ||
+      `${p.lat.toFixed(4)}, ${p.lng.toFixed(4)}`,
+  }));
+
+  return {
+    id: row.id,
+    profile: row.profile,
+    createdAt: sqliteUtc(row.created_at),
+    departAt: row.depart_at,
+    arriveBy: row.arrive_by,
+    stops,
+    distance: row.distance,
+    duration: row.duration,
+  };
+}
+
+function parseJson<T>(value: string | null): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cacheInfo, directionsViaKey, findMatrixResult, saveMatrixResult } from "@/lib/db";
+import {
+  MAX_MATRIX_POINTS,
+  distanceMatrix,
+  encodeWaypoints,
+  estimateDurationSeconds,
+  maxMatrixMapboxFor,
+  routeCacheMaxAge,
+} from "@/lib/routing";
+import type { Coordinate, TravelMatrix } from "@/lib/types";
+
+/**
+ * POST /api/directions/matrix   { points: Coordinate[], profile?: "driving", refresh?: true }
+ *
+ * N×N travel times and distances between the points, as a `TravelMatrix`
+ * (`durations[from][to]`, seconds; `distances`, metres) plus a `cache` object.
+ * Up to 25 points (10 for `driving-traffic`) go to the Mapbox Matrix API;
+ * larger sets, a missing token or any Mapbox failure fall back to great-circle
+ * distances with durations estimated from a nominal speed (`metric: "straight-line"`).
+ *
+ * Mapbox results are cached in `matrices` with the same lifetimes as routes
+ * (`DIRECTIONS_TRAFFIC_TTL_MINUTES` / `DIRECTIONS_CACHE_TTL_DAYS`).
+ */
+
+const PROFILES = new Set(["driving", "driving-traffic", "walking", "cycling"]);
+
+type MatrixTable = Pick<TravelMatrix, "durations" | "distances">;
+
+export async function POST(req: NextRequest) {
+  let body: { points?: Coordinate[]; profile?: string; refresh?: boolean };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  const points = Array.isArray(body.points) ? body.points : [];
+  const profile = body.profile && PROFILES.has(body.profile) ? body.profile : "driving";
+
+  if (points.length < 2) {
+    return NextResponse.json({ error: "points must contain at least 2 coordinates" }, { status: 400 });
+  }
+  // Rows and columns follow the points sent, so a bad one is rejected rather than dropped
+  if (!points.every((p) => p && validLatLng(p.lat, p.lng))) {
+    return NextResponse.json({ error: "every point needs a valid lat (±90) and lng (±180)" }, { status: 400 });
+  }
+  if (points.length > MAX_MATRIX_POINTS) {
+    return NextResponse.json(
+      { error: `Too many points (${points.length}, max ${MAX_MATRIX_POINTS})` },
+      { status: 400 },
+    );
+  }
+
+  const key = directionsViaKey(points);
+  const token = process.env.MAPBOX_ACCESS_TOKEN;
+  const useMapbox = !!token && points.length <= maxMatrixMapboxFor(profile);
+
+  // --- 1. Check the local cache ---
+  const maxAge = routeCacheMaxAge(profile);
+  if (useMapbox && !body.refresh && maxAge !== 0) {
+    try {
+      const cached = findMatrixResult(profile, key, maxAge);
+      if (cached) {
+        const table = JSON.parse(cached.response) as MatrixTable;
+        return NextResponse.json(
+          {
+            profile,
+            source: "mapbox",
+            metric: "road",
+            ...table,
+            cache: cacheInfo(cached.created_at),
+          },
+          { headers: { "X-Cache": "HIT" } },
+        );
+      }
+    } catch (e) {
+      console.error("[db] matrix lookup error:", e);
+    }
+  }
+
+  // --- 2. Mapbox Matrix API ---
+  if (useMapbox) {
+    try {
+      const table = await matrixFromMapbox(points, profile, token!);
+      if (table) {
+        try {
+          saveMatrixResult(profile, key, table);
+        } catch (e) {
+          console.error("[db] matrix save error:", e);
+        }
+        const matrix: TravelMatrix = { profile, source: "mapbox", metric: "road", ...table };
+        return NextResponse.json(
+          { ...matrix, cache: cacheInfo() },
+          { headers: { "X-Cache": "MISS" } },
+        );
+      }
+    } catch (err) {
+      console.error("[directions/matrix] Mapbox matrix failed, using straight-line estimate:", err);
+    }
+  }
+
+  // --- 3. Straight-line fallback ---
+  const distances = distanceMatrix(points).map((row) => row.map((m) => Math.round(m)));
+  const matrix: TravelMatrix = {
+    profile,
+    source: "local",
+    metric: "straight-line",
+    distances,
+    durations: distances.map((row) => row.map((m) => estimateDurationSeconds(m, profile))),
+  };
+  return NextResponse.json(matrix);
+}
+
+/* ---- helpers ---- */
+
+function validLatLng(lat: unknown, lng: unknown): boolean {
+  return (
+    typeof lat === "number" &&
+    typeof lng === "number" &&
+    Number.isFinite(lat) &&
+    Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 &&
+    Math.abs(lng) <= 180
+  );
+}
+
+/** `null` if Mapbox answers without a usable table */
+async function matrixFromMapbox(points: Coordinate[], profile: string, token: string): Promise<MatrixTable | null> {
+  const res = await fetch(
+    `https://api.mapbox.com/directions-matrix/v1/mapbox/${profile}/${encodeWaypoints(points)}?annotations=duration,distance&access_token=${token}`,
+  );
+  const data = await res.json();
+  if (!res.ok || data.code !== "Ok" || !Array.isArray(data.durations) || !Array.isArray(data.distances)) {
+    console.warn(`[directions/matrix] Mapbox returned ${data.code ?? res.status}: ${data.message ?? ""}`);
+    return null;
+  }
+  return { durations: data.durations, distances: data.distances };
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MAX_OPTIMIZE_MAPBOX,
+  MAX_OPTIMIZE_POINTS,
+  distanceMatrix,
+  encodeWaypoints,
+  solveTour,
+  tourLength,
+} from "@/lib/routing";
+import type { Coordinate } from "@/lib/types";
+
+/**
+ * POST /api/directions/optimize   { points: Coordinate[], profile?: "driving", roundtrip?: true }
+ *
+ * Finds the shortest visiting order for the points. The first point always
+ * stays first; `roundtrip: false` plans an open path that also keeps the last
+ * point last. Up to 12 points go to the Mapbox Optimization API (road
+ * distances); larger sets, or any Mapbox failure, fall back to a local
+ * nearest-neighbour + 2-opt solver over straight-line distances.
+ *
+ * Returns `{ ids, order, source, metric, distance, originalDistance, savings }` —
+ * `ids` the point ids in visiting order, `order` their original indices, and both
+ * distances (metres) measured the same way (`metric`) so `savings` compares like with like.
+ */
+
+const PROFILES = new Set(["driving", "driving-traffic", "walking", "cycling"]);
+
+interface OptimizeResult {
+  order: number[];
+  metric: "road" | "straight-line";
+  distance: number;
+  originalDistance: number;
+}
+
+export async function POST(req: NextRequest) {
+  let body: { points?: Coordinate[]; profile?: string; roundtrip?: boolean };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  const points = Array.isArray(body.points) ? body.points : [];
+  const profile = body.profile && PROFILES.has(body.profile) ? body.profile : "driving";
+  const roundtrip = body.roundtrip !== false;
+
+  if (points.length < 2) {
+    return NextResponse.json({ error: "points must contain at least 2 coordinates" }, { status: 400 });
+  }
+  // Every point is reordered by id, so a bad one is rejected rather than dropped
+  if (!points.every((p) => p && typeof p.id === "string" && Number.isFinite(p.lat) && Number.isFinite(p.lng))) {
+    return NextResponse.json({ error: "every point needs an id, lat and lng" }, { status: 400 });
+  }
+  if (points.length > MAX_OPTIMIZE_POINTS) {
+    return NextResponse.json(
+      { error: `Too many points (${points.length}, max ${MAX_OPTIMIZE_POINTS})` },
+      { status: 400 },
+    );
+  }
+
+  let result: OptimizeResult | null = null;
+  let source: "mapbox" | "local" = "local";
+
+  const token = process.env.MAPBOX_ACCESS_TOKEN;
+  if (token && points.length <= MAX_OPTIMIZE_MAPBOX) {
+    try {
+      result = await optimizeWithMapbox(points, profile, roundtrip, token);
+      if (result) source = "mapbox";
+    } catch (err) {
+      console.error("[directions/optimize] Mapbox optimization failed, using local solver:", err);
+    }
+  }
+  result ??= optimizeLocally(points, roundtrip);
+
+  // Both solvers are heuristics — never hand back an order that's worse than the input
+  if (result.distance >= result.originalDistance) {
+    result = { ...result, order: points.map((_, i) => i), distance: result.originalDistance };
+  }
+
+  const savings = result.originalDistance - result.distance;
+  return NextResponse.json({
+    ids: result.order.map((i) => points[i].id),
+    order: result.order,
+    source,
+    metric: result.metric,
+    distance: result.distance,
+    originalDistance: result.originalDistance,
+    savings,
+  });
+}
+
+/* ---- helpers ---- */
+
+function optimizeLocally(points: Coordinate[], roundtrip: boolean): OptimizeResult {
+  const matrix = distanceMatrix(points);
+  const order = solveTour(matrix, roundtrip);
+  return {
+    order,
+    metric: "straight-line",
+    distance: tourLength(matrix, order, roundtrip),
+    originalDistance: tourLength(matrix, points.map((_, i) => i), roundtrip),
+  };
+}
+
+/**
+ * Mapbox Optimization v1 for the trip, then Directions for the original order
+ * so the savings are in road metres too. `null` if either call returns no route.
+ */
+async function optimizeWithMapbox(
+  points: Coordinate[],
+  profile: string,
+  roundtrip: boolean,
+  token: string,
+): Promise<OptimizeResult | null> {
+  const coords = encodeWaypoints(points);
+  const ends = roundtrip ? "roundtrip=true&source=first" : "roundtrip=false&source=first&destination=last";
+  const optRes = await fetch(
+    `https://api.mapbox.com/optimized-trips/v1/mapbox/${profile}/${coords}?${ends}&overview=false&access_token=${token}`,
+  );
+  const opt = await optRes.json();
+  if (!optRes.ok || opt.code !== "Ok" || !opt.trips?.length) {
+    console.warn(`[directions/optimize] Mapbox returned ${opt.code ?? optRes.status}: ${opt.message ?? ""}`);
+    return null;
+  }
+
+  // waypoints[i].waypoint_index = position of input point i in the optimised trip
+  const order = (opt.waypoints as { waypoint_index: number }[])
+    .map((w, i) => ({ i, pos: w.waypoint_index }))
+    .sort((a, b) => a.pos - b.pos)
+    .map((w) => w.i);
+
+  const original = roundtrip ? [...points, points[0]] : points;
+  const dirRes = await fetch(
+    `https://api.mapbox.com/directions/v5/mapbox/${profile}/${encodeWaypoints(original)}?overview=false&access_token=${token}`,
+  );
+  const dir = await dirRes.json();
+  if (!dirRes.ok || !dir.routes?.length) return null;
+
+  return { order, metric: "road", distance: opt.trips[0].distance, originalDistance: dir.routes[0].distance };
+}
@@ -1,12 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import { saveDirectionsResult } from "@/lib/db";
+import { saveDirectionsResult, findDirectionsResult, directionsViaKey, getDirectionsById, cacheInfo } from "@/lib/db";
+import {
+  decodeWaypoints,
+  encodeWaypoints,
+  isScheduleTime,
+  maxWaypointsFor,
+  routeCacheMaxAge,
+  supportsArriveBy,
+  supportsDepartAt,
+  type RouteSchedule,
+} from "@/lib/routing";
 
 /**
  * GET /api/directions?originLng=...&originLat=...&destLng=...&destLat=...&profile=driving-traffic
+ * GET /api/directions?coordinates=lng,lat;lng,lat;...&profile=driving
+ * GET /api/directions?id=42
+ *
+ * `coordinates` routes through every stop in order (2–25 stops, 3 for
+ * `driving-traffic`); the response then has one entry in `routes[0].legs`
+ * per consecutive pair of stops. Two-stop requests also ask Mapbox for
+ * alternatives, so `routes` may hold up to three candidates (fastest first).
+ *
+ * `depart_at` (driving, driving-traffic) or `arrive_by` (driving only) plan the
+ * trip for a given time instead of now — `YYYY-MM-DDThh:mm` in the origin's
+ * local time, or with a `Z` / `±hh:mm` offset. They're forwarded to Mapbox,
+ * stored with the result and echoed back as `schedule: { departAt, arriveBy }`.
  *
  * Proxies the Mapbox Directions API so the token stays server-side.
- * Returns the full Mapbox response (routes with geometry, duration, distance, etc.).
+ * Returns the full Mapbox response (routes with geometry, duration, distance, etc.)
+ * plus a `cache` object: `{ status: "HIT" | "MISS", cachedAt, ageSeconds }`.
+ *
+ * Identical routes are served from the `directions` table while they're fresh —
+ * see `routeCacheMaxAge` (`@/lib/routing`) for the per-profile lifetimes. `refresh=1` skips the cache.
+ * `id` replays one stored row regardless of age (the route history), and
+ * `labels` (JSON array of stop names) is saved with new rows for that list.
  */
+
 export async function GET(req: NextRequest) {
   const sp = req.nextUrl.searchParams;
 
@@ -14,15 +43,118 @@ export async function GET(req: NextRequest) {
   const originLat = sp.get("originLat");
   const destLng = sp.get("destLng");
   const destLat = sp.get("destLat");
+  const coordinatesParam = sp.get("coordinates");
   const profile = sp.get("profile") || "driving-traffic";
+  const refresh = sp.get("refresh") === "1";
+  const idParam = sp.get("id");
+  const schedule: RouteSchedule = {
+    departAt: sp.get("depart_at") || undefined,
+    arriveBy: sp.get("arrive_by") || undefined,
+  };
+
+  // --- Replay a stored route by id (never calls Mapbox) ---
+  if (idParam) {
+    const id = parseInt(idParam, 10);
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: "Invalid id" }, { status: 400 });
+    }
+    try {
+      const row = getDirectionsById(id);
+      if (!row) {
+        return NextResponse.json({ error: `No stored route with id ${id}` }, { status: 404 });
+      }
+      return NextResponse.json(
+        {
+          ...JSON.parse(row.response),
+          schedule: { departAt: row.depart_at ?? undefined, arriveBy: row.arrive_by ?? undefined },
+          cache: cacheInfo(row.created_at),
+        },
+        { headers: { "X-Cache": "HIT" } },
+      );
+    } catch (e) {
+      console.error("[db] directions replay error:", e);
+      return NextResponse.json({ error: "Failed to read stored route" }, { status: 500 });
+    }
+  }
 
-  if (!originLng || !originLat || !destLng || !destLat) {
+  let waypoints: { lat: number; lng: number }[] | null;
+  if (coordinatesParam) {
+    waypoints = decodeWaypoints(coordinatesParam);
+    if (!waypoints) {
+      return NextResponse.json({ error: "Invalid coordinates — expected lng,lat;lng,lat;…" }, { status: 400 });
+    }
+  } else if (originLng && originLat && destLng && destLat) {
+    waypoints = [
+      { lat: parseFloat(originLat), lng: parseFloat(originLng) },
+      { lat: parseFloat(destLat), lng: parseFloat(destLng) },
+    ];
+  } else {
     return NextResponse.json(
-      { error: "Missing required query parameters: originLng, originLat, destLng, destLat" },
+      { error: "Missing required query parameters: coordinates, or originLng, originLat, destLng, destLat" },
       { status: 400 },
     );
   }
 
+  const maxStops = maxWaypointsFor(profile);
+  if (waypoints.length < 2 || waypoints.length > maxStops) {
+    return NextResponse.json(
+      { error: `The ${profile} profile needs between 2 and ${maxStops} stops (got ${waypoints.length})` },
+      { status: 400 },
+    );
+  }
+
+  if (schedule.departAt && schedule.arriveBy) {
+    return NextResponse.json({ error: "Use either depart_at or arrive_by, not both" }, { status: 400 });
+  }
+  for (const [param, value] of [["depart_at", schedule.departAt], ["arrive_by", schedule.arriveBy]] as const) {
+    if (value && !isScheduleTime(value)) {
+      return NextResponse.json(
+        { error: `Invalid ${param} — expected YYYY-MM-DDThh:mm (optionally with :ss and Z / ±hh:mm)` },
+        { status: 400 },
+      );
+    }
+  }
+  if (schedule.departAt && !supportsDepartAt(profile)) {
+    return NextResponse.json({ error: `depart_at is not supported by the ${profile} profile` }, { status: 400 });
+  }
+  if (schedule.arriveBy && !supportsArriveBy(profile)) {
+    return NextResponse.json({ error: `arrive_by is only supported by the driving profile` }, { status: 400 });
+  }
+
+  const origin = waypoints[0];
+  const dest = waypoints[waypoints.length - 1];
+  const via = directionsViaKey(waypoints.slice(1, -1));
+
+  // --- 1. Check the local cache ---
+  const maxAge = routeCacheMaxAge(profile);
+  if (!refresh && maxAge !== 0) {
+    try {
+      const cached = findDirectionsResult(
+        origin.lat,
+        origin.lng,
+        dest.lat,
+        dest.lng,
+        profile,
+        maxAge,
+        via,
+        schedule,
+      );
+      if (cached) {
+        return NextResponse.json(
+          {
+            ...JSON.parse(cached.response),
+            schedule,
+            cache: cacheInfo(cached.created_at),
+          },
+          { headers: { "X-Cache": "HIT" } },
+        );
+      }
+    } catch (e) {
+      console.error("[db] directions lookup error:", e);
+    }
+  }
+
+  // --- 2. Mapbox Directions API ---
   const token = process.env.MAPBOX_ACCESS_TOKEN;
   if (!token) {
     return NextResponse.json(
@@ -31,8 +163,10 @@ export async function GET(req: NextRequest) {
     );
   }
 
-  const coordinates = `${originLng},${originLat};${destLng},${destLat}`;
-  const url = `https://api.mapbox.com/directions/v5/mapbox/${profile}/${coordinates}?geometries=geojson&overview=full&steps=true&annotations=congestion,duration&access_token=${token}`;
+  const coordinates = encodeWaypoints(waypoints);
+  // Mapbox only computes alternatives for routes without intermediate stops
+  const alternatives = waypoints.length === 2;
+  const url = `https://api.mapbox.com/directions/v5/mapbox/${profile}/${coordinates}?geometries=geojson&overview=full&steps=true&alternatives=${alternatives}&annotations=congestion,duration${scheduleQuery(schedule)}&access_token=${token}`;
 
   try {
     const res = await fetch(url);
@@ -48,20 +182,47 @@ export async function GET(req: NextRequest) {
     // Persist to local DB
     try {
       saveDirectionsResult(
-        parseFloat(originLat),
-        parseFloat(originLng),
-        parseFloat(destLat),
-        parseFloat(destLng),
+        origin.lat,
+        origin.lng,
+        dest.lat,
+        dest.lng,
         profile,
         data,
+        via,
+        schedule,
+        parseLabels(sp.get("labels"), waypoints.length),
       );
     } catch (e) {
       console.error("[db] directions save error:", e);
     }
 
-    return NextResponse.json(data);
+    return NextResponse.json(
+      { ...data, schedule, cache: cacheInfo() },
+      { headers: { "X-Cache": "MISS" } },
+    );
   } catch (err) {
     console.error("Directions API fetch failed:", err);
     return NextResponse.json({ error: "Failed to fetch directions" }, { status: 500 });
   }
 }
+
+/* ---- helpers ---- */
+
+function scheduleQuery(schedule: RouteSchedule): string {
+  if (schedule.departAt) return `&depart_at=${encodeURIComponent(schedule.departAt)}`;
+  if (schedule.arriveBy) return `&arrive_by=${encodeURIComponent(schedule.arriveBy)}`;
+  return "";
+}
+
+/** `labels` query param → one string per stop, or `undefined` if it doesn't line up */
+function parseLabels(value: string | null, count: number): string[] | undefined {
+  if (!value) return undefined;
+  try {
+    const labels = JSON.parse(value);
+    return Array.isArray(labels) && labels.length === count && labels.every((l) => typeof l === "string")
+      ? labels
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
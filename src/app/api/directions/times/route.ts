@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { directionsViaKey, findScheduledDirections, sqliteUtc } from "@/lib/db";
+import { decodeWaypoints } from "@/lib/routing";
+
+/**
+ * GET /api/directions/times?coordinates=lng,lat;lng,lat;...&profile=driving-traffic
+ *
+ * Lists every departure / arrival time already stored for this route in the
+ * `directions` table, so the same trip can be compared across times of day.
+ * Returns `{ times: [{ departAt, arriveBy, duration, distance, fetchedAt }] }`
+ * — one entry per requested time (its latest result), in time order.
+ */
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const waypoints = decodeWaypoints(sp.get("coordinates") ?? "");
+  const profile = sp.get("profile") || "driving-traffic";
+
+  if (!waypoints || waypoints.length < 2) {
+    return NextResponse.json({ error: "Invalid coordinates — expected lng,lat;lng,lat;…" }, { status: 400 });
+  }
+
+  const origin = waypoints[0];
+  const dest = waypoints[waypoints.length - 1];
+  const via = directionsViaKey(waypoints.slice(1, -1));
+
+  try {
+    const rows = findScheduledDirections(origin.lat, origin.lng, dest.lat, dest.lng, profile, via);
+
+    // Rows are newest first — keep the latest result for each requested time
+    const seen = new Set<string>();
+    const times = rows
+      .filter((row) => {
+        const key = `${row.depart_at ?? ""}|${row.arrive_by ?? ""}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((row) => {
+        const route = JSON.parse(row.response).routes?.[0];
+        return {
+          departAt: row.depart_at,
+          arriveBy: row.arrive_by,
+          duration: route?.duration ?? null,
+          distance: route?.distance ?? null,
+          fetchedAt: sqliteUtc(row.created_at),
+        };
+      })
+      .filter((t) => t.duration !== null)
+      .sort((a, b) => (a.departAt ?? a.arriveBy ?? "").localeCompare(b.departAt ?? b.arriveBy ?? ""));
+
+    return NextResponse.json({ times });
+  } catch (e) {
+    console.error("[db] scheduled directions lookup error:", e);
+    return NextResponse.json({ error: "Failed to read stored routes" }, { status: 500 });
+  }
+}
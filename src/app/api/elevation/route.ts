@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from "next/server";
+import { inflateSync } from "zlib";
+import { findTerrainTile, saveTerrainTile } from "@/lib/db";
+import { elevationProfile, sampleLine, terrainRgbToMeters, terrainTileFor, terrainZoomFor } from "@/lib/elevation";
+
+/**
+ * POST /api/elevation   { coordinates: [lng, lat][] }
+ *
+ * Samples a route line against Mapbox terrain-RGB tiles and returns an
+ * `ElevationProfile` — evenly spaced samples plus ascent, descent and max
+ * grade — with `zoom` and a `cache: { hits, misses }` tile count.
+ *
+ * Terrain doesn't change, so tiles are kept in `terrain_tiles` indefinitely
+ * and `X-Cache` is `HIT` only when no tile had to be downloaded.
+ */
+
+const MAX_INPUT_COORDINATES = 25_000;
+
+export async function POST(req: NextRequest) {
+  let body: { coordinates?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Expected a JSON body" }, { status: 400 });
+  }
+
+  const coordinates: unknown[] = Array.isArray(body.coordinates) ? body.coordinates : [];
+
+  // Dropping a bad pair would profile a different line than the one sent
+  if (!coordinates.every(isLngLat)) {
+    return NextResponse.json(
+      { error: "every coordinate must be a [lng, lat] pair within ±180 / ±90" },
+      { status: 400 },
+    );
+  }
+  if (coordinates.length < 2) {
+    return NextResponse.json({ error: "coordinates must contain at least 2 [lng, lat] pairs" }, { status: 400 });
+  }
+  if (coordinates.length > MAX_INPUT_COORDINATES) {
+    return NextResponse.json(
+      { error: `Too many coordinates (${coordinates.length}, max ${MAX_INPUT_COORDINATES})` },
+      { status: 400 },
+    );
+  }
+
+  const token = process.env.MAPBOX_ACCESS_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: "MAPBOX_ACCESS_TOKEN is not configured on the server" },
+      { status: 500 },
+    );
+  }
+
+  const samples = sampleLine(coordinates);
+  const zoom = terrainZoomFor(samples);
+
+  // Group samples by tile so each tile is loaded once
+  const byTile = new Map<string, { x: number; y: number; pixels: { index: number; px: number; py: number }[] }>();
+  samples.forEach((s, index) => {
+    const { x, y, px, py } = terrainTileFor(s.lng, s.lat, zoom);
+    const key = `${x}/${y}`;
+    if (!byTile.has(key)) byTile.set(key, { x, y, pixels: [] });
+    byTile.get(key)!.pixels.push({ index, px, py });
+  });
+
+  let hits = 0;
+  let misses = 0;
+  try {
+    for (const { x, y, pixels } of byTile.values()) {
+      let png: Buffer | null = null;
+      try {
+        png = findTerrainTile(zoom, x, y)?.data ?? null;
+      } catch (e) {
+        console.error("[db] terrain tile lookup error:", e);
+      }
+
+      if (png) {
+        hits++;
+      } else {
+        misses++;
+        const res = await fetch(
+          `https://api.mapbox.com/v4/mapbox.terrain-rgb/${zoom}/${x}/${y}.pngraw?access_token=${token}`,
+        );
+        if (!res.ok) {
+          return NextResponse.json(
+            { error: `Mapbox terrain tile ${zoom}/${x}/${y} returned ${res.status}` },
+            { status: 502 },
+          );
+        }
+        png = Buffer.from(await res.arrayBuffer());
+        try {
+          saveTerrainTile(zoom, x, y, png);
+        } catch (e) {
+          console.error("[db] terrain tile save error:", e);
+        }
+      }
+
+      const image = decodePng(png);
+      for (const { index, px, py } of pixels) {
+        const o = (py * image.width + px) * image.channels;
+        samples[index].elevation =
+          Math.round(terrainRgbToMeters(image.data[o], image.data[o + 1], image.data[o + 2]) * 10) / 10;
+      }
+    }
+  } catch (err) {
+    console.error("Elevation lookup failed:", err);
+    return NextResponse.json({ error: "Failed to read terrain elevation" }, { status: 500 });
+  }
+
+  return NextResponse.json(
+    { ...elevationProfile(samples), zoom, cache: { hits, misses } },
+    { headers: { "X-Cache": misses === 0 ? "HIT" : "MISS" } },
+  );
+}
+
+/* ---- helpers ---- */
+
+function isLngLat(c: unknown): c is [number, number] {
+  return (
+    Array.isArray(c) &&
+    Number.isFinite(c[0]) &&
+    Number.isFinite(c[1]) &&
+    Math.abs(c[0]) <= 180 &&
+    Math.abs(c[1]) <= 90
+  );
+}
+
+/**
+ * Minimal decoder for the 8-bit RGB / RGBA, non-interlaced PNGs Mapbox serves
+ * for terrain-RGB (`pngraw` = lossless, so pixel values are exact).
+ */
+function decodePng(png: Buffer): { width: number; height: number; channels: number; data: Buffer } {
+  if (png.readUInt32BE(0) !== 0x89504e47) throw new Error("Not a PNG");
+
+  let width = 0;
+  let height = 0;
+  let channels = 0;
+  const idat: Buffer[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString("ascii", offset + 4, offset + 8);
+    const chunk = png.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      const bitDepth = chunk[8];
+      const colorType = chunk[9];
+      const interlace = chunk[12];
+      if (bitDepth !== 8 || (colorType !== 2 && colorType !== 6) || interlace !== 0) {
+        throw new Error(`Unsupported PNG (bit depth ${bitDepth}, colour type ${colorType}, interlace ${interlace})`);
+      }
+      channels = colorType === 6 ? 4 : 3;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  // Undo the per-scanline filters (PNG spec §9)
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * channels;
+  const data = Buffer.alloc(stride * height);
+  for (let row = 0; row < height; row++) {
+    const filter = raw[row * (stride + 1)];
+    const src = row * (stride + 1) + 1;
+    const dst = row * stride;
+    for (let i = 0; i < stride; i++) {
+      const a = i >= channels ? data[dst + i - channels] : 0;
+      const b = row > 0 ? data[dst + i - stride] : 0;
+      const c = i >= channels && row > 0 ? data[dst + i - stride - channels] : 0;
+      let value = raw[src + i];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        value += pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      data[dst + i] = value & 0xff;
+    }
+  }
+  return { width, height, channels, data };
+}
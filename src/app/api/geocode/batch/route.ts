@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { normalizeGeocodeQuery } from "@/lib/db";
+import { parseCoordinateInput } from "@/lib/coordinates";
+import { geocodeCached, type CachedGeocode } from "@/lib/geocoding";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import type { BatchGeocodeRow } from "@/lib/types";
+
+/**
+ * POST /api/geocode/batch   (multipart/form-data)
+ *
+ *   file         – CSV (comma / semicolon / tab) or XLSX; first row is the header
+ *   columns      – optional comma-separated header names joined into each row's
+ *                  query; auto-detected (address, street, city, zip, country…) when omitted
+ *   labelColumn  – optional header used for point labels (defaults to name / label / title)
+ *
+ * Rows are geocoded through the same cache → provider chain as `/api/geocode`,
+ * at most `GEOCODE_BATCH_CONCURRENCY` at a time, and each row reports its own
+ * status — "not_found" when no provider matched, "error" when every upstream
+ * provider failed and the offline gazetteer had no match either. Rows only the
+ * gazetteer answered after upstream failures are "ok" with a `warning` (city-level
+ * accuracy). Raw coordinates in the address columns are parsed without a lookup.
+ */
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_ROWS = 1000;
+
+const CONCURRENCY = Math.max(1, parseInt(process.env.GEOCODE_BATCH_CONCURRENCY ?? "4", 10) || 4);
+
+const ADDRESS_HEADER = /address|addr|street|city|town|state|province|region|county|zip|postcode|postal|country|location|place/;
+const LABEL_HEADER = /^(name|label|title|place ?name)$/;
+
+export async function POST(req: NextRequest) {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data with a 'file' field" }, { status: 400 });
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing 'file' upload" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "File too large (max 5 MB)" }, { status: 413 });
+  }
+
+  let grid: string[][];
+  try {
+    grid = readSpreadsheet(Buffer.from(await file.arrayBuffer()));
+  } catch (err) {
+    return NextResponse.json({ error: `Could not read spreadsheet: ${(err as Error).message}` }, { status: 400 });
+  }
+
+  const [headerRow, ...dataRows] = grid;
+  if (!headerRow || dataRows.length === 0) {
+    return NextResponse.json({ error: "Spreadsheet needs a header row and at least one data row" }, { status: 400 });
+  }
+  if (dataRows.length > MAX_ROWS) {
+    return NextResponse.json({ error: `Too many rows (${dataRows.length}, max ${MAX_ROWS})` }, { status: 400 });
+  }
+
+  const headers = headerRow.map((h) => h.trim());
+  const { addressColumns, labelColumn } = resolveColumns(
+    headers,
+    form.get("columns")?.toString(),
+    form.get("labelColumn")?.toString(),
+  );
+  if (addressColumns.length === 0) {
+    return NextResponse.json({ error: "None of the requested columns exist in the header row" }, { status: 400 });
+  }
+
+  const addressIdx = addressColumns.map((c) => headers.indexOf(c));
+  const labelIdx = labelColumn ? headers.indexOf(labelColumn) : -1;
+
+  // Identical addresses share one lookup, even when they're in flight concurrently
+  const lookups = new Map<string, Promise<CachedGeocode>>();
+
+  const rows = await mapWithConcurrency(dataRows, CONCURRENCY, async (cells, i): Promise<BatchGeocodeRow> => {
+    const query = addressIdx
+      .map((idx) => cells[idx]?.trim())
+      .filter(Boolean)
+      .join(", ");
+    const label = (labelIdx >= 0 ? cells[labelIdx]?.trim() : "") || query;
+    const base = { row: i + 1, query, label, matches: 0 };
+
+    if (!query) return { ...base, status: "skipped", error: "Empty address" };
+
+    const parsed = parseCoordinateInput(query);
+    if (parsed) {
+      const name = `${parsed.lat.toFixed(5)}, ${parsed.lng.toFixed(5)}`;
+      return { ...base, status: "ok", matches: 1, result: { lat: parsed.lat, lng: parsed.lng, name, fullAddress: query } };
+    }
+
+    const key = normalizeGeocodeQuery(query);
+    let lookup = lookups.get(key);
+    if (!lookup) {
+      lookup = geocodeCached(query);
+      lookups.set(key, lookup);
+    }
+
+    try {
+      const { results, cache, fallbackAfter } = await lookup;
+      if (results.length === 0) return { ...base, status: "not_found", cache };
+      const warning = fallbackAfter && `Offline city match — ${fallbackAfter.join(", ")} failed`;
+      return { ...base, status: "ok", result: results[0], matches: results.length, cache, ...(warning && { warning }) };
+    } catch (err) {
+      console.error(`[geocode/batch] row ${i + 1} failed:`, err);
+      return { ...base, status: "error", error: (err as Error).message };
+    }
+  });
+
+  const summary = {
+    total: rows.length,
+    ok: rows.filter((r) => r.status === "ok").length,
+    notFound: rows.filter((r) => r.status === "not_found").length,
+    errors: rows.filter((r) => r.status === "error").length,
+    skipped: rows.filter((r) => r.status === "skipped").length,
+    fallbacks: rows.filter((r) => r.warning).length,
+    cached: rows.filter((r) => r.cache === "HIT").length,
+  };
+
+  return NextResponse.json({ headers, addressColumns, labelColumn, rows, summary });
+}
+
+/* ---- helpers ---- */
+
+/** Pick the columns to geocode and label by — explicit names win over header sniffing */
+function resolveColumns(headers: string[], columns?: string, labelColumn?: string) {
+  const lower = headers.map((h) => h.toLowerCase());
+
+  let label: string | null = null;
+  if (labelColumn && headers.includes(labelColumn)) label = labelColumn;
+  else if (!labelColumn) {
+    const idx = lower.findIndex((h) => LABEL_HEADER.test(h));
+    if (idx >= 0) label = headers[idx];
+  }
+
+  let address: string[];
+  if (columns) {
+    address = columns
+      .split(",")
+      .map((c) => c.trim())
+      .filter((c) => headers.includes(c));
+  } else {
+    address = headers.filter((h, i) => h !== label && ADDRESS_HEADER.test(lower[i]));
+    // Single-column sheets (or unrecognised headers): geocode the first column
+    if (address.length === 0) address = headers.slice(0, 1);
+  }
+
+  return { addressColumns: address, labelColumn: label };
+}
+
+/** `Promise.all` over `items`, with at most `limit` calls of `fn` in flight */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const out = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      out[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { saveReverseGeocodeResult, findReverseGeocodeResult } from "@/lib/db";
+import { reverseGeocodeWithProviders, isCacheableProvider } from "@/lib/geocoding";
+
+/**
+ * GET /api/geocode/reverse?lat=...&lng=...
+ *
+ * Resolves a coordinate to the nearest address through the same provider
+ * chain as `/api/geocode`. Results share its `{ lat, lng, name, fullAddress }`
+ * shape and are persisted in `reverse_geocode_results`.
+ */
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+  const lat = parseFloat(sp.get("lat") ?? "");
+  const lng = parseFloat(sp.get("lng") ?? "");
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return NextResponse.json({ error: "Valid 'lat' and 'lng' query parameters are required" }, { status: 400 });
+  }
+
+  // --- 1. Check the local cache (~11 m) ---
+  try {
+    const cached = findReverseGeocodeResult(lat, lng);
+    if (cached) {
+      return NextResponse.json(
+        { results: JSON.parse(cached.results) },
+        { headers: { "X-Cache": "HIT" } },
+      );
+    }
+  } catch (e) {
+    console.error("[db] reverse geocode lookup error:", e);
+  }
+
+  // --- 2. Configured providers, in GEOCODING_PROVIDERS order ---
+  let hit;
+  try {
+    hit = await reverseGeocodeWithProviders(lat, lng);
+  } catch (err) {
+    console.error("[/api/geocode/reverse] GET error:", err);
+    return NextResponse.json({ error: "Reverse geocoding is unavailable right now" }, { status: 502 });
+  }
+  if (hit) {
+    // Persist to local DB
+    if (isCacheableProvider(hit.provider)) {
+      try { saveReverseGeocodeResult(lat, lng, hit.provider, hit.results, hit.raw); } catch (e) { console.error("[db] reverse geocode save error:", e); }
+    }
+    return NextResponse.json({ results: hit.results }, { headers: { "X-Cache": "MISS" } });
+  }
+
+  return NextResponse.json({ results: [] }, { headers: { "X-Cache": "MISS" } });
+}
@@ -1,64 +1,70 @@
 import { NextRequest, NextResponse } from "next/server";
-import { saveGeocodeResult } from "@/lib/db";
+import { parseCoordinateInput, COORDINATE_FORMAT_LABELS } from "@/lib/coordinates";
+import { geocodeCached, suggestGeocodes } from "@/lib/geocoding";
+import type { GeocodeResult } from "@/lib/types";
+
+/**
+ * GET /api/geocode?q=...
+ *
+ * Forward geocoding: cache → provider chain (see `geocodeCached` in `src/lib/geocoding.ts`).
+ *
+ * Raw coordinates (decimal, DMS, DDM, UTM, MGRS, Plus Codes) are recognised
+ * up front and returned directly with a `format` field — no upstream call.
+ *
+ * Supported modes (via `mode` query param):
+ *
+ *   mode=search  (default)
+ *     Returns every candidate for the query.
+ *
+ *   mode=autocomplete
+ *     Search-as-you-type suggestions from local data only — previously cached
+ *     queries that start with `q`, then bundled gazetteer places — de-duplicated
+ *     and capped at `limit` (default 8). No provider is called, so typing costs
+ *     nothing; a full search (Enter) still goes through the chain.
+ *     Queries shorter than 3 characters return nothing.
+ */
+
+const AUTOCOMPLETE_MIN_CHARS = 3;
 
 export async function GET(req: NextRequest) {
-  const query = req.nextUrl.searchParams.get("q")?.trim();
+  const sp = req.nextUrl.searchParams;
+  const query = sp.get("q")?.trim();
   if (!query) {
     return NextResponse.json({ error: "Missing query parameter 'q'" }, { status: 400 });
   }
 
-  // --- 1. Try Google Maps Geocoding ---
-  const googleKey = process.env.GOOGLE_MAPS_API_KEY;
-  if (googleKey) {
-    try {
-      const url = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(query)}&key=${googleKey}`;
-      const res = await fetch(url);
-      const data = await res.json();
-
-      if (data.results?.length) {
-        const results = data.results.map((r: any) => ({
-          lat: r.geometry.location.lat,
-          lng: r.geometry.location.lng,
-          name: r.formatted_address?.split(",")[0] ?? query,
-          fullAddress: r.formatted_address ?? "",
-        }));
-
-        // Persist to local DB
-        try { saveGeocodeResult(query, "google", results, data); } catch (e) { console.error("[db] geocode save error:", e); }
+  const mode = sp.get("mode") ?? "search";
 
-        return NextResponse.json({ results });
-      }
-    } catch (err) {
-      console.error("Google geocoding failed, falling back to MapQuest:", err);
-    }
+  // Pasted coordinates never need a geocoder
+  const parsed = parseCoordinateInput(query);
+  if (parsed) {
+    const name = `${parsed.lat.toFixed(5)}, ${parsed.lng.toFixed(5)}`;
+    const results: GeocodeResult[] = [
+      { lat: parsed.lat, lng: parsed.lng, name, fullAddress: `${COORDINATE_FORMAT_LABELS[parsed.format]}: ${query}` },
+    ];
+    return NextResponse.json({ results, format: parsed.format });
   }
 
-  // --- 2. Fallback: MapQuest ---
-  const mqKey = process.env.MAPQUEST_API_KEY;
-  if (mqKey) {
+  if (mode === "search") {
     try {
-      const url = `https://www.mapquestapi.com/geocoding/v1/address?key=${mqKey}&location=${encodeURIComponent(query)}`;
-      const res = await fetch(url);
-      const data = await res.json();
-      const locations = data.results?.[0]?.locations;
-
-      if (locations?.length) {
-        const results = locations.map((loc: any) => ({
-          lat: loc.latLng.lat,
-          lng: loc.latLng.lng,
-          name: loc.adminArea5 || loc.adminArea3 || query,
-          fullAddress: [loc.adminArea5, loc.adminArea3, loc.adminArea1].filter(Boolean).join(", "),
-        }));
-
-        // Persist to local DB
-        try { saveGeocodeResult(query, "mapquest", results, data); } catch (e) { console.error("[db] geocode save error:", e); }
-
-        return NextResponse.json({ results });
-      }
+      const { results, cache } = await geocodeCached(query);
+      return NextResponse.json({ results }, { headers: { "X-Cache": cache } });
     } catch (err) {
-      console.error("MapQuest geocoding also failed:", err);
+      console.error("[/api/geocode] GET error:", err);
+      return NextResponse.json({ error: "Geocoding is unavailable right now" }, { status: 502 });
     }
+  } else if (mode === "autocomplete") {
+    return handleAutocomplete(query, parseInt(sp.get("limit") ?? "8", 10));
+  } else {
+    return NextResponse.json({ error: `Unknown mode: ${mode}` }, { status: 400 });
   }
+}
 
-  return NextResponse.json({ results: [] });
+// ── mode=autocomplete ─────────────────────────────────────────
+function handleAutocomplete(query: string, limit: number) {
+  if (query.length < AUTOCOMPLETE_MIN_CHARS) {
+    return NextResponse.json({ results: [] });
+  }
+  const max = Number.isFinite(limit) && limit > 0 ? Math.min(limit, 20) : 8;
+  return NextResponse.json({ results: suggestGeocodes(query, max) });
 }
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { saveIsochroneResult, findIsochroneResult, cacheInfo } from "@/lib/db";
+import { MAX_CONTOURS, MAX_CONTOUR_MINUTES, DEFAULT_CONTOUR_MINUTES } from "@/lib/isochrone";
+
+/**
+ * GET /api/isochrone?lat=...&lng=...&profile=driving&minutes=10,20,30
+ *
+ * Proxies the Mapbox Isochrone API so the token stays server-side. Returns a
+ * GeoJSON FeatureCollection with one polygon per contour (`properties.contour`
+ * = minutes) plus the same `cache` object as `/api/directions`.
+ *
+ * Results are cached in the `isochrones` table for `ISOCHRONE_CACHE_TTL_DAYS`
+ * (default 30, `0` = forever). `refresh=1` skips the cache.
+ */
+
+const PROFILES = new Set(["driving", "driving-traffic", "walking", "cycling"]);
+
+const CACHE_TTL_DAYS = parseFloat(process.env.ISOCHRONE_CACHE_TTL_DAYS ?? "30");
+
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
+
+  const lat = parseFloat(sp.get("lat") ?? "");
+  const lng = parseFloat(sp.get("lng") ?? "");
+  const profile = sp.get("profile") || "driving";
+  const refresh = sp.get("refresh") === "1";
+  const minutes = sp.has("minutes")
+    ? [...new Set(sp.get("minutes")!.split(",").map((m) => parseInt(m, 10)))].sort((a, b) => a - b)
+    : DEFAULT_CONTOUR_MINUTES;
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return NextResponse.json({ error: "Missing or invalid lat / lng" }, { status: 400 });
+  }
+  if (!PROFILES.has(profile)) {
+    return NextResponse.json({ error: `Unsupported profile: ${profile}` }, { status: 400 });
+  }
+  if (
+    minutes.length === 0 ||
+    minutes.length > MAX_CONTOURS ||
+    minutes.some((m) => !Number.isInteger(m) || m < 1 || m > MAX_CONTOUR_MINUTES)
+  ) {
+    return NextResponse.json(
+      { error: `minutes must be 1–${MAX_CONTOURS} values between 1 and ${MAX_CONTOUR_MINUTES}` },
+      { status: 400 },
+    );
+  }
+  const minutesKey = minutes.join(",");
+
+  // --- 1. Check the local cache ---
+  if (!refresh) {
+    try {
+      const maxAge = Number.isFinite(CACHE_TTL_DAYS) && CACHE_TTL_DAYS > 0 ? CACHE_TTL_DAYS * 86_400 : undefined;
+      const cached = findIsochroneResult(lat, lng, profile, minutesKey, maxAge);
+      if (cached) {
+        return NextResponse.json(
+          { ...JSON.parse(cached.response), cache: cacheInfo(cached.created_at) },
+          { headers: { "X-Cache": "HIT" } },
+        );
+      }
+    } catch (e) {
+      console.error("[db] isochrone lookup error:", e);
+    }
+  }
+
+  // --- 2. Mapbox Isochrone API ---
+  const token = process.env.MAPBOX_ACCESS_TOKEN;
+  if (!token) {
+    return NextResponse.json(
+      { error: "MAPBOX_ACCESS_TOKEN is not configured on the server" },
+      { status: 500 },
+    );
+  }
+
+  const url = `https://api.mapbox.com/isochrone/v1/mapbox/${profile}/${lng},${lat}?contours_minutes=${minutesKey}&polygons=true&denoise=1&access_token=${token}`;
+
+  try {
+    const res = await fetch(url);
+    const data = await res.json();
+
+    if (!res.ok || !Array.isArray(data.features)) {
+      return NextResponse.json(
+        { error: data.message || "Mapbox Isochrone API error" },
+        { status: res.ok ? 502 : res.status },
+      );
+    }
+
+    // Persist to local DB
+    try {
+      saveIsochroneResult(lat, lng, profile, minutesKey, data);
+    } catch (e) {
+      console.error("[db] isochrone save error:", e);
+    }
+
+    return NextResponse.json(
+      { ...data, cache: cacheInfo() },
+      { headers: { "X-Cache": "MISS" } },
+    );
+  } catch (err) {
+    console.error("Isochrone API fetch failed:", err);
+    return NextResponse.json({ error: "Failed to fetch isochrone" }, { status: 500 });
+  }
+}
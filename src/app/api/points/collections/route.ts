@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAllCollections,
+  findCollectionByName,
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  addPointsToCollection,
+  removePointsFromCollection,
+  type CollectionRow,
+} from "@/lib/db";
+import type { PointCollection } from "@/lib/types";
+
+/* ------------------------------------------------------------------ */
+/*  /api/points/collections – named folders of saved points            */
+/*  A point can belong to any number of collections.                   */
+/* ------------------------------------------------------------------ */
+
+/** GET  – list all collections with their member point ids */
+export async function GET() {
+  try {
+    const collections = getAllCollections().map(toCollection);
+    return NextResponse.json({ collections });
+  } catch (err) {
+    console.error("[/api/points/collections] GET error:", err);
+    return NextResponse.json({ error: "Failed to fetch collections" }, { status: 500 });
+  }
+}
+
+/** POST – create a collection `{ name, color?, pointIds? }` */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (findCollectionByName(name)) {
+      return NextResponse.json({ error: `A collection named "${name}" already exists` }, { status: 409 });
+    }
+
+    const id = createCollection(name, body.color, parseIds(body.pointIds));
+    return NextResponse.json({ id, success: true });
+  } catch (err) {
+    console.error("[/api/points/collections] POST error:", err);
+    return NextResponse.json({ error: "Failed to create collection" }, { status: 500 });
+  }
+}
+
+/** PATCH – rename / recolour, and add or remove members: `{ id, name?, color?, addPointIds?, removePointIds? }` */
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const id = Number(body.id);
+    const name = typeof body.name === "string" ? body.name.trim() : undefined;
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+    if (name === "") {
+      return NextResponse.json({ error: "name cannot be empty" }, { status: 400 });
+    }
+    const clash = name ? findCollectionByName(name) : undefined;
+    if (clash && clash.id !== id) {
+      return NextResponse.json({ error: `A collection named "${name}" already exists` }, { status: 409 });
+    }
+
+    if (!updateCollection(id, { name, color: body.color })) {
+      return NextResponse.json({ error: "Collection not found" }, { status: 404 });
+    }
+    addPointsToCollection(id, parseIds(body.addPointIds));
+    removePointsFromCollection(id, parseIds(body.removePointIds));
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[/api/points/collections] PATCH error:", err);
+    return NextResponse.json({ error: "Failed to update collection" }, { status: 500 });
+  }
+}
+
+/** DELETE – remove a collection by id (its points stay saved) */
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "id query param is required" }, { status: 400 });
+  }
+
+  try {
+    deleteCollection(parseInt(id, 10));
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[/api/points/collections] DELETE error:", err);
+    return NextResponse.json({ error: "Failed to delete collection" }, { status: 500 });
+  }
+}
+
+/* ---- helpers ---- */
+
+function toCollection(row: CollectionRow): PointCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    pointIds: row.point_ids ? row.point_ids.split(",").map(Number) : [],
+  };
+}
+
+function parseIds(value: unknown): number[] {
+  return Array.isArray(value) ? value.map(Number).filter(Number.isInteger) : [];
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAllSavedPoints, savedPointFromRow } from "@/lib/db";
+import { POINT_EXPORT_FORMATS, exportPoints, type PointExportFormat } from "@/lib/exporters";
+
+/**
+ * GET /api/points/export?format=geojson
+ *
+ * Downloads every saved point — label, colour, notes, tags, custom fields and
+ * timestamps — as `geojson` (default), `kml`, `gpx` or `csv`. Any of these files
+ * can be loaded back with `/api/points/import`.
+ */
+
+export async function GET(req: NextRequest) {
+  const format = (req.nextUrl.searchParams.get("format") || "geojson") as PointExportFormat;
+  if (!POINT_EXPORT_FORMATS.some((f) => f.id === format)) {
+    return NextResponse.json({ error: `Unsupported format: ${format}` }, { status: 400 });
+  }
+
+  let points;
+  try {
+    points = getAllSavedPoints().map(savedPointFromRow);
+  } catch (e) {
+    console.error("[db] saved points export error:", e);
+    return NextResponse.json({ error: "Failed to read saved points" }, { status: 500 });
+  }
+
+  const { content, mimeType, filename } = exportPoints(points, format);
+  return new NextResponse(content, {
+    headers: {
+      "Content-Type": `${mimeType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  });
+}
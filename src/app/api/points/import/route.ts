@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findSavedPointByCoords, importSavedPoints } from "@/lib/db";
+import { detectPointFormat, readPointsFile, type ImportedPoint, type PointImportFormat } from "@/lib/importers";
+import type { PointImportRow } from "@/lib/types";
+
+/**
+ * POST /api/points/import   (multipart/form-data)
+ *
+ *   file        – GeoJSON, KML, GPX, or CSV / XLSX with lat + lng columns
+ *                 (e.g. a `/api/points/export` download)
+ *   format      – optional; detected from the file name / content when omitted
+ *   commit      – "1" to write the points; otherwise only the preview is returned
+ *   duplicates  – "skip" (default) or "update" saved points at the same spot
+ *
+ * Every record is checked against `saved_points` (and earlier records of the
+ * same file) with the usual ~0.0001° coordinate match, so the preview can show
+ * what would be added, what duplicates an existing point and what can't be read.
+ */
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+const MAX_POINTS = 5000;
+const FORMATS = new Set<PointImportFormat>(["geojson", "kml", "gpx", "csv"]);
+
+export async function POST(req: NextRequest) {
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Expected multipart/form-data with a 'file' field" }, { status: 400 });
+  }
+
+  const file = form.get("file");
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: "Missing 'file' upload" }, { status: 400 });
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return NextResponse.json({ error: "File too large (max 5 MB)" }, { status: 413 });
+  }
+  const requested = form.get("format")?.toString() as PointImportFormat | undefined;
+  if (requested && !FORMATS.has(requested)) {
+    return NextResponse.json({ error: `Unsupported format: ${requested}` }, { status: 400 });
+  }
+  const duplicates = form.get("duplicates")?.toString() === "update" ? "update" : "skip";
+
+  const data = Buffer.from(await file.arrayBuffer());
+  const format = requested ?? detectPointFormat(data, file.name);
+  let records;
+  try {
+    records = readPointsFile(data, format);
+  } catch (err) {
+    return NextResponse.json({ error: `Could not read ${format} file: ${(err as Error).message}` }, { status: 400 });
+  }
+  if (records.length === 0) {
+    return NextResponse.json({ error: "No points found in the file" }, { status: 400 });
+  }
+  if (records.length > MAX_POINTS) {
+    return NextResponse.json({ error: `Too many points (${records.length}, max ${MAX_POINTS})` }, { status: 400 });
+  }
+
+  // --- Preview: classify every record ---
+  const points: ImportedPoint[] = [];
+  let rows: PointImportRow[];
+  try {
+    rows = records.map((r, i): PointImportRow => {
+      if (!("point" in r)) return { row: i + 1, label: r.label, status: "invalid", error: r.error };
+      const p = r.point;
+      const earlier = points.find((q) => Math.abs(q.lat - p.lat) < 0.0001 && Math.abs(q.lng - p.lng) < 0.0001);
+      const saved = findSavedPointByCoords(p.lat, p.lng);
+      points.push(p);
+      const row = { row: i + 1, label: p.label, lat: p.lat, lng: p.lng };
+      if (saved) return { ...row, status: "duplicate", duplicateOf: saved.label };
+      if (earlier) return { ...row, status: "duplicate", duplicateOf: `${earlier.label} (in this file)` };
+      return { ...row, status: "new" };
+    });
+  } catch (e) {
+    console.error("[db] points import lookup error:", e);
+    return NextResponse.json({ error: "Failed to read saved points" }, { status: 500 });
+  }
+
+  const summary = {
+    total: rows.length,
+    new: rows.filter((r) => r.status === "new").length,
+    duplicates: rows.filter((r) => r.status === "duplicate").length,
+    invalid: rows.filter((r) => r.status === "invalid").length,
+  };
+
+  if (form.get("commit")?.toString() !== "1") {
+    return NextResponse.json({ format, rows, summary });
+  }
+
+  // --- Commit ---
+  try {
+    const outcomes = importSavedPoints(points, duplicates);
+    const count = (o: string) => outcomes.filter((x) => x === o).length;
+    return NextResponse.json({
+      format,
+      rows,
+      summary,
+      imported: { added: count("added"), updated: count("updated"), skipped: count("skipped") },
+    });
+  } catch (e) {
+    console.error("[db] points import error:", e);
+    return NextResponse.json({ error: "Failed to save imported points" }, { status: 500 });
+  }
+}
@@ -1,19 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
 import {
   saveSavedPoint,
+  saveSavedPoints,
   getAllSavedPoints,
   updatePointLabelByCoords,
+  updateSavedPointDetails,
+  moveSavedPoint,
   deleteSavedPoint,
+  findSavedPointByCoords,
+  savedPointFromRow,
 } from "@/lib/db";
 
 /* ------------------------------------------------------------------ */
 /*  /api/points – CRUD for saved / preset points                       */
 /* ------------------------------------------------------------------ */
 
-/** GET  – list all saved points */
-export async function GET() {
+/**
+ * GET  – list saved points, optionally filtered:
+ *        `?tag=depot&tag=north` (has every tag), `?attr=owner:Dana` / `?attr=site_id`
+ *        (attribute equals / is set), `?q=text` (label, notes, tags or attribute values).
+ *        `?lat=…&lng=…` instead returns `{ point }` — the saved point at that spot, or null.
+ */
+export async function GET(req: NextRequest) {
+  const sp = req.nextUrl.searchParams;
   try {
-    const points = getAllSavedPoints();
+    if (sp.has("lat") && sp.has("lng")) {
+      const row = findSavedPointByCoords(parseFloat(sp.get("lat")!), parseFloat(sp.get("lng")!));
+      return NextResponse.json({ point: row ? savedPointFromRow(row) : null });
+    }
+
+    const points = getAllSavedPoints({
+      tags: sp.getAll("tag").filter(Boolean),
+      attributes: sp
+        .getAll("attr")
+        .filter(Boolean)
+        .map((a) => {
+          const i = a.indexOf(":");
+          return i === -1 ? { key: a } : { key: a.slice(0, i), value: a.slice(i + 1) };
+        }),
+      q: sp.get("q")?.trim() || undefined,
+    }).map(savedPointFromRow);
     return NextResponse.json({ points });
   } catch (err) {
     console.error("[/api/points] GET error:", err);
@@ -21,10 +47,22 @@ export async function GET() {
   }
 }
 
-/** POST – save a point to presets (upsert by coords) */
+/** POST – save a point to presets (upsert by coords), or many via `{ points: [...] }` */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
+
+    if (Array.isArray(body.points)) {
+      const points = body.points.filter(
+        (p: { label?: string; lat?: number; lng?: number }) => p.label && p.lat != null && p.lng != null,
+      );
+      if (points.length === 0) {
+        return NextResponse.json({ error: "points must contain label, lat, lng" }, { status: 400 });
+      }
+      const ids = saveSavedPoints(points);
+      return NextResponse.json({ ids, success: true });
+    }
+
     const { label, lat, lng, color } = body;
 
     if (!label || lat == null || lng == null) {
@@ -39,19 +77,52 @@ export async function POST(req: NextRequest) {
   }
 }
 
-/** PATCH – rename a saved point by coordinates */
+/**
+ * PATCH – rename a saved point by coordinates, and/or replace its details:
+ *         `{ lat, lng, label?, notes?, tags?: string[], attributes?: { [key]: value } }`
+ *         With `{ lat, lng, moveTo: { lat, lng } }` the point is moved instead
+ *         (404 if nothing is saved at `lat, lng`).
+ */
 export async function PATCH(req: NextRequest) {
   try {
     const body = await req.json();
     const { lat, lng, label } = body;
 
-    if (lat == null || lng == null || !label) {
-      return NextResponse.json({ error: "lat, lng, label are required" }, { status: 400 });
+    if (body.moveTo !== undefined) {
+      const to = body.moveTo;
+      if (lat == null || lng == null || !validLatLng(to)) {
+        return NextResponse.json({ error: "lat, lng and moveTo: { lat, lng } are required" }, { status: 400 });
+      }
+      const row = findSavedPointByCoords(lat, lng);
+      if (!row) {
+        return NextResponse.json({ error: "No saved point at these coordinates" }, { status: 404 });
+      }
+      moveSavedPoint(row.id, to.lat, to.lng);
+      return NextResponse.json({ id: row.id, success: true });
+    }
+
+    const tags = body.tags === undefined ? undefined : parseTags(body.tags);
+    const attributes = body.attributes === undefined ? undefined : parseAttributes(body.attributes);
+    const notes = body.notes === undefined ? undefined : typeof body.notes === "string" ? body.notes.trim() : null;
+    const hasDetails = notes !== undefined || tags !== undefined || attributes !== undefined;
+
+    if (lat == null || lng == null || (!label && !hasDetails)) {
+      return NextResponse.json({ error: "lat, lng and a label or details are required" }, { status: 400 });
+    }
+    if (tags === null || attributes === null) {
+      return NextResponse.json(
+        { error: "tags must be an array of strings, attributes an object of string values" },
+        { status: 400 },
+      );
     }
 
     // Upsert: if point doesn't exist yet, save it; otherwise update
-    saveSavedPoint(label, lat, lng);
-    return NextResponse.json({ success: true });
+    const id = label ? saveSavedPoint(label, lat, lng) : findSavedPointByCoords(lat, lng)?.id;
+    if (id === undefined) {
+      return NextResponse.json({ error: "No saved point at these coordinates" }, { status: 404 });
+    }
+    if (hasDetails) updateSavedPointDetails(id, { notes, tags, attributes });
+    return NextResponse.json({ id, success: true });
   } catch (err) {
     console.error("[/api/points] PATCH error:", err);
     return NextResponse.json({ error: "Failed to update point" }, { status: 500 });
@@ -75,3 +146,32 @@ export async function DELETE(req: NextRequest) {
     return NextResponse.json({ error: "Failed to delete point" }, { status: 500 });
   }
 }
+
+/* ---- helpers ---- */
+
+function validLatLng(p: unknown): p is { lat: number; lng: number } {
+  const { lat, lng } = (p ?? {}) as { lat?: unknown; lng?: unknown };
+  return (
+    typeof lat === "number" && typeof lng === "number" && Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+}
+
+/** Trimmed, de-duplicated (case-insensitive) tags; `null` if not an array of strings */
+function parseTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.some((t) => typeof t !== "string")) return null;
+  const seen = new Set<string>();
+  return (value as string[])
+    .map((t) => t.trim())
+    .filter((t) => t && !seen.has(t.toLowerCase()) && seen.add(t.toLowerCase()));
+}
+
+/** Trimmed keys and values, empty keys dropped; `null` if not a flat object */
+function parseAttributes(value: unknown): Record<string, string> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const out: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (v !== null && typeof v === "object") return null;
+    if (key.trim()) out[key.trim()] = String(v ?? "").trim();
+  }
+  return out;
+}
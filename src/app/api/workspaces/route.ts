@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getAllWorkspaces,
+  getWorkspace,
+  findWorkspaceByName,
+  createWorkspace,
+  updateWorkspace,
+  duplicateWorkspace,
+  deleteWorkspace,
+  sqliteUtc,
+  type WorkspaceRow,
+  type WorkspaceSummaryRow,
+} from "@/lib/db";
+import { sanitizeWorkspace } from "@/lib/urlstate";
+import type { Workspace, WorkspaceState, WorkspaceSummary } from "@/lib/types";
+
+/* ------------------------------------------------------------------ */
+/*  /api/workspaces – named, saved snapshots of the page               */
+/*  (pins, route, trackers and their filters, view mode and camera)    */
+/* ------------------------------------------------------------------ */
+
+/** GET  – list workspaces (newest first), or `?id=` for one with its state */
+export async function GET(req: NextRequest) {
+  const id = req.nextUrl.searchParams.get("id");
+
+  try {
+    if (id) {
+      const row = getWorkspace(parseInt(id, 10));
+      if (!row) return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+      return NextResponse.json({ workspace: toWorkspace(row) });
+    }
+    return NextResponse.json({ workspaces: getAllWorkspaces().map(toSummary) });
+  } catch (err) {
+    console.error("[/api/workspaces] GET error:", err);
+    return NextResponse.json({ error: "Failed to fetch workspaces" }, { status: 500 });
+  }
+}
+
+/** POST – save `{ name, state }` as a new workspace, or copy one: `{ name, duplicateOf }` */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+
+    if (!name) {
+      return NextResponse.json({ error: "name is required" }, { status: 400 });
+    }
+    if (findWorkspaceByName(name)) {
+      return NextResponse.json({ error: `A workspace named "${name}" already exists` }, { status: 409 });
+    }
+
+    if (body.duplicateOf !== undefined) {
+      const id = duplicateWorkspace(Number(body.duplicateOf), name);
+      if (id === null) return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+      return NextResponse.json({ id, success: true });
+    }
+
+    const state = sanitizeWorkspace(body.state);
+    if (!state) {
+      return NextResponse.json({ error: "state must be a workspace state" }, { status: 400 });
+    }
+    const id = createWorkspace(name, state);
+    return NextResponse.json({ id, success: true });
+  } catch (err) {
+    console.error("[/api/workspaces] POST error:", err);
+    return NextResponse.json({ error: "Failed to save workspace" }, { status: 500 });
+  }
+}
+
+/** PATCH – rename and / or save the current state (autosave): `{ id, name?, state? }` */
+export async function PATCH(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const id = Number(body.id);
+    const name = typeof body.name === "string" ? body.name.trim() : undefined;
+    const state = body.state === undefined ? undefined : sanitizeWorkspace(body.state);
+
+    if (!Number.isInteger(id)) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 });
+    }
+    if (name === "") {
+      return NextResponse.json({ error: "name cannot be empty" }, { status: 400 });
+    }
+    if (state === null) {
+      return NextResponse.json({ error: "state must be a workspace state" }, { status: 400 });
+    }
+    const clash = name ? findWorkspaceByName(name) : undefined;
+    if (clash && clash.id !== id) {
+      return NextResponse.json({ error: `A workspace named "${name}" already exists` }, { status: 409 });
+    }
+
+    if (!updateWorkspace(id, { name, state })) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[/api/workspaces] PATCH error:", err);
+    return NextResponse.json({ error: "Failed to update workspace" }, { status: 500 });
+  }
+}
+
+/** DELETE – remove a workspace by id */
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const id = searchParams.get("id");
+
+  if (!id) {
+    return NextResponse.json({ error: "id query param is required" }, { status: 400 });
+  }
+
+  try {
+    deleteWorkspace(parseInt(id, 10));
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    console.error("[/api/workspaces] DELETE error:", err);
+    return NextResponse.json({ error: "Failed to delete workspace" }, { status: 500 });
+  }
+}
+
+/* ---- helpers ---- */
+
+function toSummary(row: WorkspaceSummaryRow): WorkspaceSummary {
+  return {
+    id: row.id,
+    name: row.name,
+    pinCount: row.pin_count ?? 0,
+    createdAt: sqliteUtc(row.created_at),
+    updatedAt: sqliteUtc(row.updated_at),
+  };
+}
+
+function toWorkspace(row: WorkspaceRow): Workspace {
+  // Stored states were sanitised on the way in
+  return { ...toSummary(row), state: JSON.parse(row.state) as WorkspaceState };
+}
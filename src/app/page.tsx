@@ -1,11 +1,29 @@
 "use client";
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
 import dynamic from "next/dynamic";
-import { Box, Flex, Heading, Text, Separator } from "@radix-ui/themes";
+import { Box, Flex, Heading, Text, Separator, IconButton, Tooltip } from "@radix-ui/themes";
+import { CheckIcon, Link2Icon } from "@radix-ui/react-icons";
 import CoordinatePanel from "@/components/CoordinatePanel";
 import PointDetailPane from "@/components/PointDetailPane";
-import type { Coordinate, Flight, FlightRoute, Satellite, SatelliteCategory, Webcam } from "@/lib/types";
+import WorkspaceBar from "@/components/WorkspaceBar";
+import type {
+  CameraView,
+  Coordinate,
+  Flight,
+  FlightFilter,
+  FlightRoute,
+  Isochrone,
+  RouteHistoryEntry,
+  Satellite,
+  SavedPoint,
+  SatelliteCategory,
+  Webcam,
+  WorkspaceState,
+} from "@/lib/types";
+import { maxWaypointsFor, type RouteProfile } from "@/lib/routing";
+import { decodeWorkspace, encodeWorkspace, DEFAULT_WORKSPACE } from "@/lib/urlstate";
+import { useUndoableState } from "@/lib/history";
 
 // three-globe / R3F can't SSR – dynamic import with ssr: false
 const Globe = dynamic(() => import("@/components/Globe"), { ssr: false });
@@ -17,23 +35,124 @@ const WebcamViewer = dynamic(() => import("@/components/WebcamViewer"), { ssr: f
 
 type ViewMode = "globe" | "map";
 
+/** What undo / redo restores — the pins and the route through them */
+interface PinState {
+  coordinates: Coordinate[];
+  routeStopIds: string[];
+}
+
 const MAPBOX_TOKEN = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN ?? "";
 const GOOGLE_MAPS_API_KEY = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY ?? "";
 
+let nextPickId = 1;
+let nextDropId = 1;
+
+/** The URL hash as an external store — `null` while server rendering */
+function subscribeHash(onChange: () => void) {
+  window.addEventListener("hashchange", onChange);
+  return () => window.removeEventListener("hashchange", onChange);
+}
+
+/** Label for a clicked location — nearest address, or the coordinates if reverse geocoding fails */
+async function reverseGeocodeLabel(lat: number, lng: number): Promise<string> {
+  try {
+    const res = await fetch(`/api/geocode/reverse?lat=${lat}&lng=${lng}`);
+    const data = await res.json();
+    if (res.ok && data.results?.length) {
+      return data.results[0].name || data.results[0].fullAddress || `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+    }
+  } catch {
+    // keep the coordinate label
+  }
+  return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+}
+
+/** Fetch that throws on a failed request, so undo / redo can report it */
+async function sendJson(url: string, method: string, body?: unknown): Promise<{ id?: number }> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(data?.error ?? `${method} ${url} failed (${res.status})`);
+  return data ?? {};
+}
+
+/** Relabel the saved point at a pin's spot (the same upsert the detail pane does) */
+async function saveSavedPointLabel(pin: Coordinate, label: string) {
+  await sendJson("/api/points", "PATCH", { lat: pin.lat, lng: pin.lng, label });
+}
+
+/** Move the saved point at `from`, if there is one, to `to`; resolves to whether one was moved */
+async function moveSavedPointAt(from: { lat: number; lng: number }, to: { lat: number; lng: number }) {
+  const res = await fetch("/api/points", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ lat: from.lat, lng: from.lng, moveTo: { lat: to.lat, lng: to.lng } }),
+  });
+  // 404: nothing saved there — true of most pins
+  if (res.status === 404) return false;
+  if (!res.ok) throw new Error(`PATCH /api/points failed (${res.status})`);
+  return true;
+}
+
+async function deleteSavedPointById(id: number) {
+  await sendJson(`/api/points?id=${id}`, "DELETE");
+}
+
+/** Re-create a deleted saved point with its details and collections; resolves to its new id */
+async function restoreSavedPoint(point: SavedPoint, collectionIds: number[]): Promise<number> {
+  const { id } = await sendJson("/api/points", "POST", {
+    label: point.label,
+    lat: point.lat,
+    lng: point.lng,
+    color: point.color,
+  });
+  if (point.notes || point.tags.length || Object.keys(point.attributes).length) {
+    await sendJson("/api/points", "PATCH", {
+      lat: point.lat,
+      lng: point.lng,
+      notes: point.notes ?? "",
+      tags: point.tags,
+      attributes: point.attributes,
+    });
+  }
+  for (const collectionId of collectionIds) {
+    await sendJson("/api/points/collections", "PATCH", { id: collectionId, addPointIds: [id] });
+  }
+  return id!;
+}
+
 export default function Home() {
   const [viewMode, setViewMode] = useState<ViewMode>("globe");
-  const [coordinates, setCoordinates] = useState<Coordinate[]>([]);
+  // Pins and the route's stops change together and are undoable as one state
+  const pinHistory = useUndoableState<PinState>({ coordinates: [], routeStopIds: [] });
+  const { edit: editPins, record: recordCommand, reset: resetPins, travel: travelHistory } = pinHistory;
+  const { coordinates, routeStopIds } = pinHistory.state;
   const [autoRotate, setAutoRotate] = useState(true);
   const [rotationSpeed, setRotationSpeed] = useState(1);
   const [focusTarget, setFocusTarget] = useState<Coordinate | null>(null);
   const [showGrid, setShowGrid] = useState(false);
   const [selectedPoint, setSelectedPoint] = useState<Coordinate | null>(null);
   const [presetRefreshKey, setPresetRefreshKey] = useState(0);
+  const [droppedPointsFile, setDroppedPointsFile] = useState<{ id: number; file: File } | null>(null);
+  const [fileDragOver, setFileDragOver] = useState(false);
+  const [camera, setCamera] = useState<CameraView | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
 
-  // Routing state
-  const [routeOrigin, setRouteOrigin] = useState<Coordinate | null>(null);
-  const [routeDestination, setRouteDestination] = useState<Coordinate | null>(null);
-  const showRouteMap = !!(routeOrigin && routeDestination && MAPBOX_TOKEN);
+  // Routing state — `routeStopIds` (above) are stop ids in visiting order (A, B, C…); ids may repeat for round trips
+  const [routeOpen, setRouteOpen] = useState(false);
+  const [routeProfile, setRouteProfile] = useState<RouteProfile>(DEFAULT_WORKSPACE.route.profile);
+  const routeStops = routeStopIds
+    .map((id) => coordinates.find((c) => c.id === id))
+    .filter((c): c is Coordinate => !!c);
+  const showRouteMap = routeOpen && routeStops.length >= 2 && !!MAPBOX_TOKEN;
+  // Stored route the overlay opens with (route history) instead of asking Mapbox
+  const [replay, setReplay] = useState<RouteHistoryEntry | null>(null);
+
+  // Reachability polygons, launched from the point detail pane
+  const [isochrone, setIsochrone] = useState<Isochrone | null>(null);
 
   // Flight tracking state
   const [flights, setFlights] = useState<Flight[]>([]);
@@ -69,6 +188,106 @@ export default function Home() {
   const [viewingWebcam, setViewingWebcam] = useState<Webcam | null>(null);
   const webcamTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
+  // ── Workspace: shareable through the URL hash, and saved by name in SQLite ──
+  const [workspaceId, setWorkspaceId] = useState<number | null>(null);
+  const [flightFilter, setFlightFilter] = useState<FlightFilter>(DEFAULT_WORKSPACE.flightFilter);
+  // Bumped when a link or saved workspace is loaded, to remount the globe / map at its camera
+  const [viewKey, setViewKey] = useState(0);
+
+  // Memoised so the workspace bar's save callback only changes when the workspace does
+  const workspace = useMemo((): WorkspaceState => ({
+    viewMode,
+    pins: coordinates.map(({ lat, lng, label, color }) => ({ lat, lng, label, color })),
+    route: {
+      stops: routeStopIds.map((id) => coordinates.findIndex((c) => c.id === id)).filter((i) => i >= 0),
+      open: routeOpen,
+      profile: routeProfile,
+    },
+    flights: flightsEnabled,
+    flightFilter,
+    satellites: satellitesEnabled,
+    webcams: webcamsEnabled,
+    satelliteCategory,
+    camera,
+  }), [
+    viewMode,
+    coordinates,
+    routeStopIds,
+    routeOpen,
+    routeProfile,
+    flightsEnabled,
+    flightFilter,
+    satellitesEnabled,
+    webcamsEnabled,
+    satelliteCategory,
+    camera,
+  ]);
+  const workspaceHash = encodeWorkspace(workspace, workspaceId);
+  const workspaceUrlHash = workspaceHash === encodeWorkspace(DEFAULT_WORKSPACE) ? "" : `#${workspaceHash}`;
+
+  /** Replace the page with a linked or saved workspace */
+  const applyWorkspace = useCallback((state: WorkspaceState) => {
+    const pins = state.pins.map((pin): Coordinate => ({ ...pin, id: `link-${nextPickId++}` }));
+    setViewMode(state.viewMode);
+    resetPins({ coordinates: pins, routeStopIds: state.route.stops.map((i) => pins[i].id) });
+    setRouteOpen(state.route.open);
+    setRouteProfile(state.route.profile);
+    setReplay(null);
+    setSelectedPoint(null);
+    setIsochrone(null);
+    setFlightsEnabled(state.flights);
+    setFlightFilter(state.flightFilter);
+    setSatellitesEnabled(state.satellites);
+    setWebcamsEnabled(state.webcams);
+    setSatelliteCategory(state.satelliteCategory);
+    setCamera(state.camera);
+    setFocusTarget(null);
+    if (state.camera) setAutoRotate(false);
+    setViewKey((k) => k + 1);
+  }, [resetPins]);
+
+  // Load a link on first render and whenever the hash is edited by hand; hashes we wrote ourselves are skipped
+  const urlHash = useSyncExternalStore(subscribeHash, () => window.location.hash, () => null);
+  const [appliedHash, setAppliedHash] = useState<string | null>(null);
+  if (urlHash !== null && urlHash !== appliedHash) {
+    setAppliedHash(urlHash);
+    const linked = decodeWorkspace(urlHash);
+    if (linked) {
+      applyWorkspace(linked);
+      setWorkspaceId(linked.workspaceId);
+    }
+  }
+
+  // Mirror state changes into the URL (debounced; replaceState so they don't pile up in history)
+  const linkReady = appliedHash !== null;
+  useEffect(() => {
+    if (!linkReady) return;
+    const timer = setTimeout(() => {
+      if (window.location.hash === workspaceUrlHash) return;
+      window.history.replaceState(window.history.state, "", `${window.location.pathname}${window.location.search}${workspaceUrlHash}`);
+      setAppliedHash(window.location.hash);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [workspaceUrlHash, linkReady]);
+
+  const handleOpenWorkspace = useCallback((id: number, state: WorkspaceState) => {
+    applyWorkspace(state);
+    setWorkspaceId(id);
+  }, [applyWorkspace]);
+
+  // Shared links carry the view only — not the saved workspace, which whoever opens them would autosave over
+  const shareHash = encodeWorkspace(workspace);
+  const handleCopyLink = useCallback(async () => {
+    const url = `${window.location.origin}${window.location.pathname}${window.location.search}#${shareHash}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      window.prompt("Copy this link:", url);
+    }
+  }, [shareHash]);
+
   const fetchFlights = useCallback(async () => {
     setFlightsLoading(true);
     setFlightsError(null);
@@ -394,7 +613,7 @@ export default function Home() {
   }, [fetchFlightRoute]);
 
   const handleAdd = useCallback((c: Coordinate) => {
-    setCoordinates((prev) => [...prev, c]);
+    editPins(`Add “${c.label}”`, (s) => ({ ...s, coordinates: [...s.coordinates, c] }));
     setAutoRotate(false);
     // If an arc exists, focus on the midpoint between the last point and the new one
     if (coordinates.length >= 1) {
@@ -405,30 +624,90 @@ export default function Home() {
     } else {
       setFocusTarget(c);
     }
-  }, [coordinates]);
+  }, [coordinates, editPins]);
+
+  // "What's here?" — click on the globe / map drops a pin labelled with the nearest address
+  const handlePickLocation = useCallback(async (lat: number, lng: number) => {
+    const label = await reverseGeocodeLabel(lat, lng);
+    handleAdd({ id: `pick-${nextPickId++}`, lat, lng, label, color: "#f59f0a" });
+  }, [handleAdd]);
+
+  // Click on the route map in "add stop" mode — drops a pin and appends it to the route
+  const handleAddWaypoint = useCallback(async (lat: number, lng: number) => {
+    const label = await reverseGeocodeLabel(lat, lng);
+    const id = `pick-${nextPickId++}`;
+    editPins(`Add stop “${label}”`, (s) => ({
+      coordinates: [...s.coordinates, { id, lat, lng, label, color: "#f59f0a" }],
+      routeStopIds: s.routeStopIds.length < maxWaypointsFor(routeProfile) ? [...s.routeStopIds, id] : s.routeStopIds,
+    }));
+  }, [editPins, routeProfile]);
 
   const handleRemove = useCallback((id: string) => {
-    setCoordinates((prev) => prev.filter((c) => c.id !== id));
-    // Clear route if a routed point is removed
-    setRouteOrigin((prev) => (prev?.id === id ? null : prev));
-    setRouteDestination((prev) => (prev?.id === id ? null : prev));
-    // Close detail pane if this point was selected
-    setSelectedPoint((prev) => (prev?.id === id ? null : prev));
-  }, []);
+    const label = coordinates.find((c) => c.id === id)?.label ?? "pin";
+    editPins(`Remove “${label}”`, (s) =>
+      s.coordinates.some((c) => c.id === id)
+        ? {
+            coordinates: s.coordinates.filter((c) => c.id !== id),
+            // Drop the point from the route too; the map closes itself below 2 stops
+            routeStopIds: s.routeStopIds.filter((stopId) => stopId !== id),
+          }
+        : s,
+    );
+    setIsochrone((prev) => (prev?.pointId === id ? null : prev));
+  }, [coordinates, editPins]);
+
+  // Sorts the pins as they are when the order arrives — pins it doesn't list keep their order at the end
+  const handleReorder = useCallback((ids: string[]) => {
+    const rank = new Map(ids.map((id, i) => [id, i]));
+    editPins("Reorder pins", (s) => {
+      const coordinates = [...s.coordinates].sort(
+        (a, b) => (rank.get(a.id) ?? ids.length) - (rank.get(b.id) ?? ids.length),
+      );
+      return coordinates.every((c, i) => c === s.coordinates[i]) ? s : { ...s, coordinates };
+    });
+  }, [editPins]);
+
+  const handleRouteStopsChange = useCallback((ids: string[]) => {
+    editPins(ids.length ? "Change route stops" : "Clear route", (s) => ({ ...s, routeStopIds: ids }));
+  }, [editPins]);
 
   const handleFocus = useCallback((c: Coordinate) => {
     setAutoRotate(false);
     setFocusTarget({ ...c }); // new ref to re-trigger effect
   }, []);
 
-  const handleRoute = useCallback((origin: Coordinate, destination: Coordinate) => {
-    setRouteOrigin(origin);
-    setRouteDestination(destination);
+  const handleRoute = useCallback(() => {
+    setReplay(null);
+    setRouteOpen(true);
   }, []);
 
   const handleCloseRoute = useCallback(() => {
-    setRouteOrigin(null);
-    setRouteDestination(null);
+    setRouteOpen(false);
+    setReplay(null);
+  }, []);
+
+  // Open a stored route: reuse pins already at each stop, pin the rest, then show the saved response
+  const handleReplayRoute = useCallback((entry: RouteHistoryEntry) => {
+    const added: Coordinate[] = [];
+    const ids = entry.stops.map((stop) => {
+      const existing = [...coordinates, ...added].find(
+        (c) => Math.abs(c.lat - stop.lat) < 0.0001 && Math.abs(c.lng - stop.lng) < 0.0001,
+      );
+      if (existing) return existing.id;
+      const c: Coordinate = { id: `history-${nextPickId++}`, lat: stop.lat, lng: stop.lng, label: stop.label, color: "#f59f0a" };
+      added.push(c);
+      return c.id;
+    });
+    editPins("Open route from history", (s) => ({ coordinates: [...s.coordinates, ...added], routeStopIds: ids }));
+    setRouteProfile(entry.profile as RouteProfile);
+    setReplay(entry);
+    setRouteOpen(true);
+  }, [coordinates, editPins]);
+
+  // Polygons only render on the Mapbox maps — switch away from the globe to show them
+  const handleIsochrone = useCallback((iso: Isochrone | null) => {
+    setIsochrone(iso);
+    if (iso) setViewMode("map");
   }, []);
 
   const handleSelectPoint = useCallback((c: Coordinate) => {
@@ -437,23 +716,133 @@ export default function Home() {
     setFocusTarget({ ...c });
   }, []);
 
+  // The detail pane has already saved the new label; undo / redo write it back the same way
   const handleRename = useCallback((id: string, newLabel: string) => {
-    setCoordinates((prev) =>
-      prev.map((c) => (c.id === id ? { ...c, label: newLabel } : c))
+    const pin = coordinates.find((c) => c.id === id);
+    if (!pin) return;
+    editPins(
+      `Rename “${pin.label}” to “${newLabel}”`,
+      (s) => ({ ...s, coordinates: s.coordinates.map((c) => (c.id === id ? { ...c, label: newLabel } : c)) }),
+      {
+        undo: () => saveSavedPointLabel(pin, pin.label),
+        redo: () => saveSavedPointLabel(pin, newLabel),
+      },
     );
-    setSelectedPoint((prev) =>
-      prev?.id === id ? { ...prev, label: newLabel } : prev
+  }, [coordinates, editPins]);
+
+  // A pin dragged on the globe / map: relabel it from its new spot and move its saved point along
+  // The pin moves straight away. A saved point at the old spot follows it and both keep
+  // the saved name; any other pin is then relabelled after its new spot (its own undo step).
+  const handlePinDrag = useCallback(async (id: string, lat: number, lng: number) => {
+    const pin = coordinates.find((c) => c.id === id);
+    if (!pin) return;
+    const to = { lat, lng };
+    // Moving a saved point that isn't there is a 404 no-op, so undo / redo needn't know whether there was one
+    const moveSaved = async (from: { lat: number; lng: number }, dest: { lat: number; lng: number }) => {
+      if (await moveSavedPointAt(from, dest)) setPresetRefreshKey((k) => k + 1);
+    };
+    editPins(
+      `Move “${pin.label}”`,
+      (s) =>
+        s.coordinates.some((c) => c.id === id)
+          ? { ...s, coordinates: s.coordinates.map((c) => (c.id === id ? { ...c, lat, lng } : c)) }
+          : s,
+      { undo: () => moveSaved(to, pin), redo: () => moveSaved(pin, to) },
     );
-  }, []);
+    // Reachability polygons were for the old spot
+    setIsochrone((prev) => (prev?.pointId === id ? null : prev));
+
+    const savedMoved = await moveSavedPointAt(pin, to).catch((err) => {
+      console.error("Failed to move saved point", err);
+      return false;
+    });
+    if (savedMoved) {
+      setPresetRefreshKey((k) => k + 1);
+      return;
+    }
+    const label = await reverseGeocodeLabel(lat, lng);
+    // Unless the pin was moved, renamed or removed in the meantime
+    const isDropped = (c: Coordinate) => c.id === id && c.lat === lat && c.lng === lng && c.label === pin.label;
+    editPins(`Relabel “${pin.label}” as “${label}”`, (s) =>
+      label !== pin.label && s.coordinates.some(isDropped)
+        ? { ...s, coordinates: s.coordinates.map((c) => (isDropped(c) ? { ...c, label } : c)) }
+        : s,
+    );
+  }, [coordinates, editPins]);
+
+  // Saving a pin as a preset (detail pane) or deleting a saved point (sidebar) — undo deletes / restores the row
+  const handlePresetSaved = useCallback((point: SavedPoint) => {
+    let id = point.id;
+    recordCommand(`Save preset “${point.label}”`, {
+      undo: () => deleteSavedPointById(id),
+      redo: async () => {
+        id = await restoreSavedPoint(point, []);
+      },
+    });
+  }, [recordCommand]);
+
+  const handleDeleteSavedPoint = useCallback(async (point: SavedPoint, collectionIds: number[]) => {
+    let id = point.id;
+    try {
+      await deleteSavedPointById(id);
+    } catch (err) {
+      console.error("Failed to delete saved point", err);
+      return;
+    }
+    recordCommand(`Delete preset “${point.label}”`, {
+      undo: async () => {
+        id = await restoreSavedPoint(point, collectionIds);
+      },
+      redo: () => deleteSavedPointById(id),
+    });
+    setPresetRefreshKey((k) => k + 1);
+  }, [recordCommand]);
+
+  // Presets changed by undo / redo must be re-read by the sidebar and detail pane
+  const handleTravel = useCallback(async (steps: number) => {
+    await travelHistory(steps);
+    setPresetRefreshKey((k) => k + 1);
+  }, [travelHistory]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) — left to the browser while typing in a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      if (key !== "z" && key !== "y") return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable='true']")) return;
+      e.preventDefault();
+      handleTravel(key === "y" || e.shiftKey ? 1 : -1);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleTravel]);
+
+  // The pane follows its pin through renames and undo; it closes once the pin is gone
+  const selectedPin = selectedPoint ? (coordinates.find((c) => c.id === selectedPoint.id) ?? null) : null;
 
   return (
     <main className="flex h-screen w-screen overflow-hidden bg-[#020a14]">
       {/* sidebar */}
       <aside className="w-80 shrink-0 flex flex-col bg-[#020202]">
-        <Box px="4" py="3">
+        <Flex px="4" py="3" align="center" justify="between">
           <Heading size="3" weight="bold" style={{ color: "white", textTransform: "uppercase" }}>
             Qterra
           </Heading>
+          <Tooltip content={linkCopied ? "Link copied" : "Copy a link to this view"}>
+            <IconButton variant="ghost" color={linkCopied ? "green" : "gray"} size="1" onClick={handleCopyLink} aria-label="Copy link">
+              {linkCopied ? <CheckIcon /> : <Link2Icon />}
+            </IconButton>
+          </Tooltip>
+        </Flex>
+        <Box px="4" pb="3">
+          <WorkspaceBar
+            state={workspace}
+            workspaceId={workspaceId}
+            onWorkspaceIdChange={setWorkspaceId}
+            onOpen={handleOpenWorkspace}
+          />
         </Box>
         <Separator size="4" />
         <div className="flex-1 overflow-hidden">
@@ -463,11 +852,21 @@ export default function Home() {
           onRemove={handleRemove}
           onFocus={handleFocus}
           onSelect={handleSelectPoint}
+          onReorder={handleReorder}
           rotationSpeed={rotationSpeed}
           onSpeedChange={setRotationSpeed}
+          routeStopIds={routeStopIds}
+          onRouteStopsChange={handleRouteStopsChange}
           onRoute={handleRoute}
+          onCloseRoute={handleCloseRoute}
           routeActive={showRouteMap}
+          onReplayRoute={MAPBOX_TOKEN ? handleReplayRoute : undefined}
           presetRefreshKey={presetRefreshKey}
+          onPointsSaved={() => setPresetRefreshKey((k) => k + 1)}
+          onDeleteSavedPoint={handleDeleteSavedPoint}
+          history={{ past: pinHistory.past, future: pinHistory.future }}
+          onHistoryTravel={handleTravel}
+          droppedPointsFile={droppedPointsFile}
           flights={flights}
           flightsLoading={flightsLoading}
           flightsError={flightsError}
@@ -477,6 +876,8 @@ export default function Home() {
           onSelectFlight={handleSelectFlight}
           selectedFlightIcao={selectedFlightIcao}
           onVisibleFlightsChange={handleVisibleFlightsChange}
+          flightFilter={flightFilter}
+          onFlightFilterChange={setFlightFilter}
           flightRoute={flightRoute}
           flightRouteLoading={flightRouteLoading}
           flightRouteError={flightRouteError}
@@ -502,10 +903,34 @@ export default function Home() {
         </div>
       </aside>
 
-      {/* viewport */}
-      <div className="flex-1 relative overflow-hidden">
+      {/* viewport — also a drop target for saved-point files */}
+      <div
+        className="flex-1 relative overflow-hidden"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          e.dataTransfer.dropEffect = "copy";
+          setFileDragOver(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFileDragOver(false);
+        }}
+        onDrop={(e) => {
+          const file = e.dataTransfer.files[0];
+          if (!file) return;
+          e.preventDefault();
+          setFileDragOver(false);
+          setDroppedPointsFile({ id: nextDropId++, file });
+        }}
+      >
+        {fileDragOver && (
+          <div className="absolute inset-3 z-[10002] pointer-events-none flex items-center justify-center rounded-xl border-2 border-dashed border-amber-500/80 bg-black/50 text-sm text-white/90">
+            Drop a GeoJSON, KML, GPX or CSV file to import saved points
+          </div>
+        )}
         {viewMode === "globe" ? (
           <Globe
+            key={viewKey}
             coordinates={coordinates}
             autoRotate={autoRotate}
             onToggleRotate={() => setAutoRotate((p) => !p)}
@@ -521,9 +946,14 @@ export default function Home() {
             satelliteOrbit={satelliteOrbit}
             webcams={webcams}
             selectedWebcamId={selectedWebcamId}
+            onGlobeClick={handlePickLocation}
+            onPinDrag={handlePinDrag}
+            initialCamera={camera}
+            onCameraChange={setCamera}
           />
         ) : (
           <MapboxFlightMap
+            key={viewKey}
             mapboxToken={MAPBOX_TOKEN}
             coordinates={coordinates}
             flights={globeFlights}
@@ -533,17 +963,27 @@ export default function Home() {
             webcams={webcams}
             selectedWebcamId={selectedWebcamId}
             onSelectWebcam={handleSelectWebcam}
+            onMapClick={handlePickLocation}
+            onPinDrag={handlePinDrag}
+            isochrone={isochrone}
+            initialCamera={camera}
+            onCameraChange={setCamera}
           />
         )}
 
         {/* Mapbox street-level route overlay */}
         {showRouteMap && (
           <MapboxRouteMap
-            key={`${routeOrigin.id}-${routeDestination.id}`}
-            origin={routeOrigin}
-            destination={routeDestination}
+            key={replay?.id ?? "live"}
+            replay={replay}
+            waypoints={routeStops}
             mapboxToken={MAPBOX_TOKEN}
             onClose={handleCloseRoute}
+            onWaypointsChange={(stops) => handleRouteStopsChange(stops.map((c) => c.id))}
+            onAddWaypoint={handleAddWaypoint}
+            isochrone={isochrone}
+            initialProfile={routeProfile}
+            onProfileChange={setRouteProfile}
           />
         )}
 
@@ -572,16 +1012,20 @@ export default function Home() {
         </div>
 
         {/* point detail pane — overlaid so it doesn't shift the globe container */}
-        {selectedPoint && (
+        {selectedPin && (
           <div className="absolute left-0 top-0 bottom-0 z-[10000]">
             <PointDetailPane
-              key={selectedPoint.id}
-              coordinate={selectedPoint}
+              key={selectedPin.id}
+              coordinate={selectedPin}
               onClose={() => setSelectedPoint(null)}
               onFocus={handleFocus}
               onRename={handleRename}
               googleMapsApiKey={GOOGLE_MAPS_API_KEY || undefined}
               onSaved={() => setPresetRefreshKey((k) => k + 1)}
+              onPresetSaved={handlePresetSaved}
+              refreshKey={presetRefreshKey}
+              isochrone={isochrone}
+              onIsochrone={MAPBOX_TOKEN ? handleIsochrone : undefined}
             />
           </div>
         )}
@@ -0,0 +1,281 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Box, Text, Button, Flex, ScrollArea, Badge, Switch, Tooltip } from "@radix-ui/themes";
+import { UploadIcon, ReloadIcon, Cross2Icon } from "@radix-ui/react-icons";
+import type { BatchGeocodeRow, BatchGeocodeStatus, Coordinate } from "@/lib/types";
+
+/* ── helpers ── */
+
+interface BatchResponse {
+  headers: string[];
+  addressColumns: string[];
+  labelColumn: string | null;
+  rows: BatchGeocodeRow[];
+  summary: {
+    total: number;
+    ok: number;
+    notFound: number;
+    errors: number;
+    skipped: number;
+    fallbacks: number;
+    cached: number;
+  };
+}
+
+const STATUS_COLOR: Record<BatchGeocodeStatus, "green" | "amber" | "red" | "gray"> = {
+  ok: "green",
+  not_found: "amber",
+  error: "red",
+  skipped: "gray",
+};
+
+const STATUS_LABEL: Record<BatchGeocodeStatus, string> = {
+  ok: "Found",
+  not_found: "Not found",
+  error: "Error",
+  skipped: "Skipped",
+};
+
+let nextBatchId = 1;
+
+/* ── component ── */
+
+/**
+ * Upload a CSV / XLSX of addresses, preview the per-row geocoding outcome and
+ * add the successful rows as points (optionally saving them as presets).
+ */
+export default function BatchGeocodePanel({
+  onAdd,
+  onPointsSaved,
+}: {
+  onAdd: (c: Coordinate) => void;
+  onPointsSaved?: () => void;
+}) {
+  const [file, setFile] = useState<File | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [batch, setBatch] = useState<BatchResponse | null>(null);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [saveToPresets, setSaveToPresets] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const runBatch = async (upload: File, cols?: string[]) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const form = new FormData();
+      form.append("file", upload);
+      if (cols?.length) form.append("columns", cols.join(","));
+      const res = await fetch("/api/geocode/batch", { method: "POST", body: form });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Batch geocoding failed.");
+        setBatch(null);
+        return;
+      }
+      setBatch(data);
+      setColumns(data.addressColumns);
+    } catch {
+      setError("Batch geocoding request failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setFile(null);
+    setBatch(null);
+    setColumns([]);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const toggleColumn = (header: string) => {
+    setColumns((prev) => (prev.includes(header) ? prev.filter((c) => c !== header) : [...prev, header]));
+  };
+
+  const found = batch?.rows.filter((r) => r.status === "ok" && r.result) ?? [];
+  const columnsChanged =
+    !!batch &&
+    (columns.length !== batch.addressColumns.length || columns.some((c) => !batch.addressColumns.includes(c)));
+
+  const handleAddPoints = async () => {
+    const points = found.map((r) => ({
+      label: r.label || r.result!.name,
+      lat: r.result!.lat,
+      lng: r.result!.lng,
+      color: "#f59f0a",
+    }));
+    for (const p of points) onAdd({ id: `batch-${nextBatchId++}`, ...p });
+
+    if (saveToPresets && points.length) {
+      setAdding(true);
+      try {
+        const res = await fetch("/api/points", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ points }),
+        });
+        if (res.ok) onPointsSaved?.();
+      } catch {
+        // Points are already on the globe — presets are best-effort
+      } finally {
+        setAdding(false);
+      }
+    }
+    reset();
+  };
+
+  return (
+    <Flex direction="column" gap="2" mt="2">
+      <Flex gap="2" align="center">
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (!f) return;
+            setFile(f);
+            runBatch(f);
+          }}
+        />
+        <Button variant="soft" color="amber" size="1" disabled={loading} onClick={() => inputRef.current?.click()}>
+          <UploadIcon /> {loading ? "Geocoding…" : "Upload CSV / XLSX"}
+        </Button>
+        {file && (
+          <Text size="1" color="gray" className="truncate" style={{ flex: 1 }}>
+            {file.name}
+          </Text>
+        )}
+        {batch && (
+          <Tooltip content="Discard batch">
+            <Button variant="ghost" color="gray" size="1" onClick={reset}>
+              <Cross2Icon />
+            </Button>
+          </Tooltip>
+        )}
+      </Flex>
+
+      {!batch && !error && (
+        <Text size="1" color="gray" as="p">
+          First row must be a header. Address columns (address, city, zip, country…) are detected automatically.
+        </Text>
+      )}
+
+      {error && (
+        <Text size="1" color="red" as="p">
+          {error}
+        </Text>
+      )}
+
+      {batch && file && (
+        <>
+          {/* Address column picker */}
+          <Flex direction="column" gap="1">
+            <Text size="1" color="gray">Address columns</Text>
+            <Flex wrap="wrap" gap="1">
+              {batch.headers.map((h) => (
+                <Badge
+                  key={h}
+                  size="1"
+                  variant={columns.includes(h) ? "solid" : "outline"}
+                  color={columns.includes(h) ? "amber" : "gray"}
+                  style={{ cursor: "pointer" }}
+                  onClick={() => toggleColumn(h)}
+                >
+                  {h || "(blank)"}
+                </Badge>
+              ))}
+            </Flex>
+            {columnsChanged && (
+              <Button
+                variant="outline"
+                color="amber"
+                size="1"
+                disabled={loading || columns.length === 0}
+                onClick={() => runBatch(file, columns)}
+              >
+                <ReloadIcon /> Re-run with selected columns
+              </Button>
+            )}
+          </Flex>
+
+          {/* Summary */}
+          <Flex wrap="wrap" gap="1">
+            <Badge variant="soft" color="green" size="1">{batch.summary.ok} found</Badge>
+            {batch.summary.notFound > 0 && (
+              <Badge variant="soft" color="amber" size="1">{batch.summary.notFound} not found</Badge>
+            )}
+            {batch.summary.errors > 0 && (
+              <Badge variant="soft" color="red" size="1">{batch.summary.errors} errors</Badge>
+            )}
+            {batch.summary.fallbacks > 0 && (
+              <Tooltip content="Geocoding providers failed — these rows only matched a city in the offline gazetteer">
+                <Badge variant="soft" color="orange" size="1">{batch.summary.fallbacks} offline matches</Badge>
+              </Tooltip>
+            )}
+            {batch.summary.skipped > 0 && (
+              <Badge variant="soft" color="gray" size="1">{batch.summary.skipped} skipped</Badge>
+            )}
+            <Badge variant="soft" color="cyan" size="1">{batch.summary.cached} cached</Badge>
+          </Flex>
+
+          {/* Per-row preview */}
+          <ScrollArea scrollbars="vertical" style={{ maxHeight: 200 }}>
+            <Flex direction="column" gap="1" pr="2">
+              {batch.rows.map((r) => (
+                <Box key={r.row} px="2" py="1" className="rounded-md bg-[--gray-a3]">
+                  <Flex align="center" justify="between" gap="2">
+                    <Text size="1" className="truncate" style={{ flex: 1 }}>
+                      <Text color="gray">{r.row}.</Text> {r.label || "—"}
+                    </Text>
+                    {r.warning && (
+                      <Tooltip content={r.warning}>
+                        <Badge variant="soft" color="orange" size="1">Offline</Badge>
+                      </Tooltip>
+                    )}
+                    {r.matches > 1 && (
+                      <Tooltip content="Ambiguous address — the best match was used">
+                        <Badge variant="soft" color="amber" size="1">{r.matches} matches</Badge>
+                      </Tooltip>
+                    )}
+                    <Badge variant="soft" color={STATUS_COLOR[r.status]} size="1">
+                      {STATUS_LABEL[r.status]}
+                    </Badge>
+                  </Flex>
+                  <Text size="1" color={r.error ? "red" : "gray"} as="p" className="truncate">
+                    {r.result
+                      ? `${r.result.fullAddress || r.result.name} (${r.result.lat.toFixed(3)}, ${r.result.lng.toFixed(3)})`
+                      : r.error ?? r.query}
+                  </Text>
+                </Box>
+              ))}
+            </Flex>
+          </ScrollArea>
+
+          <Flex align="center" justify="between" gap="2">
+            <Text as="label" size="1" color="gray">
+              <Flex align="center" gap="2">
+                <Switch size="1" color="amber" checked={saveToPresets} onCheckedChange={setSaveToPresets} />
+                Save to presets
+              </Flex>
+            </Text>
+            <Button
+              variant="soft"
+              color="amber"
+              size="1"
+              disabled={found.length === 0 || adding || loading}
+              onClick={handleAddPoints}
+            >
+              Add {found.length} point{found.length === 1 ? "" : "s"}
+            </Button>
+          </Flex>
+        </>
+      )}
+    </Flex>
+  );
+}
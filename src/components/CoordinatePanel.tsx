@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   Box,
   Text,
@@ -13,6 +13,7 @@ import {
   Separator,
   Badge,
   Tooltip,
+  Switch,
 } from "@radix-ui/themes";
 import {
   MagnifyingGlassIcon,
@@ -25,12 +26,38 @@ import {
   MixIcon,
   GearIcon,
   CameraIcon,
+  DrawingPinIcon,
+  UploadIcon,
+  DragHandleDots2Icon,
+  Share2Icon,
+  TableIcon,
+  CounterClockwiseClockIcon,
+  ResetIcon,
 } from "@radix-ui/react-icons";
 import * as SliderPrimitive from "@radix-ui/react-slider";
-import type { Coordinate, Flight, FlightRoute, Satellite, SatelliteCategory, Webcam } from "@/lib/types";
+import type {
+  Coordinate,
+  Flight,
+  FlightFilter,
+  FlightRoute,
+  GeocodeResult,
+  RouteHistoryEntry,
+  SavedPoint,
+  Satellite,
+  SatelliteCategory,
+  Webcam,
+} from "@/lib/types";
+import { parseCoordinateInput, COORDINATE_FORMAT_LABELS } from "@/lib/coordinates";
+import { MAX_WAYPOINTS, waypointLabel } from "@/lib/routing";
 import FlightsPanel from "@/components/FlightsPanel";
 import SatellitesPanel from "@/components/SatellitesPanel";
 import WebcamsPanel from "@/components/WebcamsPanel";
+import BatchGeocodePanel from "@/components/BatchGeocodePanel";
+import MatrixPanel from "@/components/MatrixPanel";
+import RouteHistoryPanel from "@/components/RouteHistoryPanel";
+import SavedPointsTree from "@/components/SavedPointsTree";
+import PointsTransferPanel from "@/components/PointsTransferPanel";
+import HistoryPanel from "@/components/HistoryPanel";
 
 type Tab = "places" | "flights" | "satellites" | "webcams" | "settings";
 
@@ -44,18 +71,39 @@ const TABS: { id: Tab; label: string; icon: React.ReactNode }[] = [
 
 let nextId = 1;
 
+/** Debounce for search-as-you-type suggestions */
+const SUGGEST_DEBOUNCE_MS = 300;
+const SUGGEST_MIN_CHARS = 3;
+
+const OPTIMIZE_PROFILES = [
+  { id: "driving", label: "🚗 Drive" },
+  { id: "driving-traffic", label: "🚗 Drive (traffic)" },
+  { id: "walking", label: "🚶 Walk" },
+  { id: "cycling", label: "🚲 Cycle" },
+];
+
 export default function CoordinatePanel({
   coordinates,
   onAdd,
   onRemove,
   onFocus,
   onSelect,
+  onReorder,
   rotationSpeed,
   onSpeedChange,
+  routeStopIds,
+  onRouteStopsChange,
   onRoute,
+  onCloseRoute,
   routeActive,
+  onReplayRoute,
 
   presetRefreshKey = 0,
+  onPointsSaved,
+  onDeleteSavedPoint,
+  history,
+  onHistoryTravel,
+  droppedPointsFile = null,
   flights = [],
   flightsLoading = false,
   flightsError = null,
@@ -65,6 +113,8 @@ export default function CoordinatePanel({
   onSelectFlight,
   selectedFlightIcao = null,
   onVisibleFlightsChange,
+  flightFilter = { query: "", country: null },
+  onFlightFilterChange,
   flightRoute = null,
   flightRouteLoading = false,
   flightRouteError = null,
@@ -92,12 +142,27 @@ export default function CoordinatePanel({
   onRemove: (id: string) => void;
   onFocus: (c: Coordinate) => void;
   onSelect: (c: Coordinate) => void;
+  /** Reorder the points list to follow these ids (points not listed keep their order, at the end) */
+  onReorder: (ids: string[]) => void;
   rotationSpeed: number;
   onSpeedChange: (speed: number) => void;
-  onRoute: (origin: Coordinate, destination: Coordinate) => void;
+  /** Route stops in visiting order (point ids) */
+  routeStopIds: string[];
+  onRouteStopsChange: (ids: string[]) => void;
+  onRoute: () => void;
+  onCloseRoute: () => void;
   routeActive: boolean;
+  /** Open a stored route from the history in the route overlay */
+  onReplayRoute?: (entry: RouteHistoryEntry) => void;
 
   presetRefreshKey?: number;
+  onPointsSaved?: () => void;
+  onDeleteSavedPoint?: (point: SavedPoint, collectionIds: number[]) => void;
+  /** Labels of the undoable / redoable edits */
+  history?: { past: string[]; future: string[] };
+  onHistoryTravel?: (steps: number) => void;
+  /** A points file dropped on the globe — opens the import preview */
+  droppedPointsFile?: { id: number; file: File } | null;
   flights?: Flight[];
   flightsLoading?: boolean;
   flightsError?: string | null;
@@ -107,6 +172,8 @@ export default function CoordinatePanel({
   onSelectFlight?: (f: Flight | null) => void;
   selectedFlightIcao?: string | null;
   onVisibleFlightsChange?: (flights: Flight[], hasFilter: boolean) => void;
+  flightFilter?: FlightFilter;
+  onFlightFilterChange?: (filter: FlightFilter) => void;
   flightRoute?: FlightRoute | null;
   flightRouteLoading?: boolean;
   flightRouteError?: string | null;
@@ -130,76 +197,225 @@ export default function CoordinatePanel({
   selectedWebcamId?: string | null;
 }) {
   const [activeTab, setActiveTab] = useState<Tab>("places");
+  // Switch to the Places tab when a new points file is dropped, so its preview is visible
+  const [seenDropId, setSeenDropId] = useState(droppedPointsFile?.id);
+  if (droppedPointsFile && droppedPointsFile.id !== seenDropId) {
+    setSeenDropId(droppedPointsFile.id);
+    setActiveTab("places");
+  }
   const [searchQuery, setSearchQuery] = useState("");
   const [geocoding, setGeocoding] = useState(false);
-  const [routeOriginId, setRouteOriginId] = useState<string>("");
-  const [routeDestId, setRouteDestId] = useState<string>("");
-  const [dbPresets, setDbPresets] = useState<Coordinate[]>([]);
+  const [dragStopIndex, setDragStopIndex] = useState<number | null>(null);
+  const [optimizing, setOptimizing] = useState(false);
+  const [optimizeRoundtrip, setOptimizeRoundtrip] = useState(true);
+  const [optimizeProfile, setOptimizeProfile] = useState(OPTIMIZE_PROFILES[0].id);
+  // Savings of the last optimisation, shown while the list is still in that order
+  const [optimizeSummary, setOptimizeSummary] = useState<{ orderKey: string; text: string; error?: boolean } | null>(
+    null,
+  );
+
+  // Geocode candidates — autocomplete suggestions or the results of a full search
+  const [candidates, setCandidates] = useState<GeocodeResult[]>([]);
+  const [candidatesQuery, setCandidatesQuery] = useState("");
+  const [highlightIndex, setHighlightIndex] = useState(-1);
+  const [picked, setPicked] = useState<Set<number>>(new Set());
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [searchMessage, setSearchMessage] = useState<string | null>(null);
+  const searchBoxRef = useRef<HTMLDivElement>(null);
 
-  // Fetch saved presets from DB; re-runs whenever a new preset is saved
+  const routeStops = routeStopIds
+    .map((id) => coordinates.find((c) => c.id === id))
+    .filter((c): c is Coordinate => !!c);
+
+  // Raw coordinates typed / pasted into the search box (decimal, DMS, UTM, MGRS, Plus Code…)
+  const parsedInput = parseCoordinateInput(searchQuery);
+
+  /* ---- debounced search-as-you-type suggestions ---- */
   useEffect(() => {
-    fetch("/api/points")
-      .then((res) => (res.ok ? res.json() : null))
-      .then((data) => {
-        if (data?.points) {
-          setDbPresets(
-            data.points.map((p: { id: number; label: string; lat: number; lng: number; color?: string | null }) => ({
-              id: String(p.id),
-              label: p.label,
-              lat: p.lat,
-              lng: p.lng,
-              color: p.color ?? "#ffcc00",
-            }))
-          );
-        }
-      })
-      .catch(() => {});
-  }, [presetRefreshKey]);
+    const q = searchQuery.trim();
+    if (q.length < SUGGEST_MIN_CHARS || parseCoordinateInput(q)) return;
 
-  // Clear stale selections when a coordinate is removed
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      fetch(`/api/geocode?mode=autocomplete&q=${encodeURIComponent(q)}`, { signal: controller.signal })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data) => {
+          const results: GeocodeResult[] = data?.results ?? [];
+          setCandidates(results);
+          setCandidatesQuery(q);
+          setHighlightIndex(-1);
+          setPicked(new Set());
+          setPickerOpen(results.length > 0);
+        })
+        .catch(() => {});
+    }, SUGGEST_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [searchQuery]);
+
+  // Close the picker when clicking outside the search box
   useEffect(() => {
-    const ids = new Set(coordinates.map((c) => c.id));
-    if (routeOriginId && !ids.has(routeOriginId)) setRouteOriginId("");
-    if (routeDestId && !ids.has(routeDestId)) setRouteDestId("");
-  }, [coordinates, routeOriginId, routeDestId]);
+    if (!pickerOpen) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!searchBoxRef.current?.contains(e.target as Node)) setPickerOpen(false);
+    };
+    document.addEventListener("pointerdown", onPointerDown);
+    return () => document.removeEventListener("pointerdown", onPointerDown);
+  }, [pickerOpen]);
+
+  // Suggestions only apply while the box still holds the query they were fetched for
+  const showPicker =
+    pickerOpen && !parsedInput && candidates.length > 0 && candidatesQuery === searchQuery.trim();
+
+  /* ---- reorder points into the shortest visiting order ---- */
+  const orderKey = coordinates.map((c) => c.id).join("|");
+
+  const optimizeOrder = async () => {
+    setOptimizing(true);
+    try {
+      const res = await fetch("/api/directions/optimize", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ points: coordinates, profile: optimizeProfile, roundtrip: optimizeRoundtrip }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setOptimizeSummary({ orderKey, text: data.error ?? "Optimization failed.", error: true });
+        return;
+      }
+      const ids: string[] = data.ids;
+      const how = data.metric === "road" ? "by road" : "straight-line";
+      const text =
+        data.savings > 0
+          ? `${formatKm(data.savings)} shorter ${how} (−${Math.round((data.savings / data.originalDistance) * 100)}%) · ${formatKm(data.distance)} total`
+          : `Already the shortest order found · ${formatKm(data.distance)} ${how}`;
+      setOptimizeSummary({ orderKey: ids.join("|"), text });
+      // By id, so pins added or renamed while the request was out survive
+      onReorder(ids);
+    } catch {
+      setOptimizeSummary({ orderKey, text: "Optimization request failed.", error: true });
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  /* ---- pin one or more geocode candidates ---- */
+  const pinResults = (results: GeocodeResult[]) => {
+    const stops = [...routeStopIds];
+    for (const r of results) {
+      const newId = String(nextId++);
+      onAdd({
+        id: newId,
+        lat: r.lat,
+        lng: r.lng,
+        label: r.name || r.fullAddress || searchQuery.trim(),
+        color: "#f59f0a",
+      });
+      // Auto-assign: first search result → origin, second → destination
+      if (stops.length < 2) stops.push(newId);
+    }
+    if (stops.length !== routeStopIds.length) onRouteStopsChange(stops);
+    setSearchQuery("");
+    setCandidates([]);
+    setPicked(new Set());
+    setHighlightIndex(-1);
+    setPickerOpen(false);
+    setSearchMessage(null);
+  };
+
+  const togglePicked = (index: number) => {
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
 
   /* ---- server-side geocode via our API route ---- */
   const handleGeocode = async () => {
     const q = searchQuery.trim();
     if (!q) return;
 
+    // Coordinates are pinned as-is — no geocoder round-trip
+    if (parsedInput) {
+      pinResults([{
+        lat: parsedInput.lat,
+        lng: parsedInput.lng,
+        name: `${parsedInput.lat.toFixed(5)}, ${parsedInput.lng.toFixed(5)}`,
+        fullAddress: q,
+      }]);
+      return;
+    }
+
     setGeocoding(true);
+    setSearchMessage(null);
     try {
       const res = await fetch(`/api/geocode?q=${encodeURIComponent(q)}`);
       const data = await res.json();
+      if (!res.ok) {
+        setSearchMessage(data.error ?? "Geocoding request failed.");
+        return;
+      }
+      const results: GeocodeResult[] = data.results ?? [];
 
-      if (data.results?.length) {
-        const r = data.results[0];
-        const newId = String(nextId++);
-        onAdd({
-          id: newId,
-          lat: r.lat,
-          lng: r.lng,
-          label: r.name ?? q,
-          color: "#f59f0a",
-        });
-        // Auto-assign: first search result → origin, second → destination
-        if (!routeOriginId) {
-          setRouteOriginId(newId);
-        } else if (!routeDestId) {
-          setRouteDestId(newId);
-        }
-        setSearchQuery("");
+      if (results.length === 1) {
+        pinResults(results);
+      } else if (results.length > 1) {
+        // Ambiguous — let the user choose instead of silently pinning the first hit
+        setCandidates(results);
+        setCandidatesQuery(q);
+        setHighlightIndex(0);
+        setPicked(new Set());
+        setPickerOpen(true);
       } else {
-        alert("No results found for that query.");
+        setSearchMessage("No results found for that query.");
       }
     } catch {
-      alert("Geocoding request failed.");
+      setSearchMessage("Geocoding request failed.");
     } finally {
       setGeocoding(false);
     }
   };
 
+  /* ---- keyboard navigation in the search box ---- */
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showPicker) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setHighlightIndex((i) => (i + 1) % candidates.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setHighlightIndex((i) => (i <= 0 ? candidates.length - 1 : i - 1));
+        return;
+      }
+      if (e.key === "Escape") {
+        setPickerOpen(false);
+        return;
+      }
+      if (e.key === "Enter" && e.shiftKey && highlightIndex >= 0) {
+        // Shift+Enter adds / removes the highlighted row from the multi-selection
+        e.preventDefault();
+        togglePicked(highlightIndex);
+        return;
+      }
+      if (e.key === "Enter" && picked.size > 0) {
+        pinResults(candidates.filter((_, i) => picked.has(i)));
+        return;
+      }
+      if (e.key === "Enter" && highlightIndex >= 0) {
+        pinResults([candidates[highlightIndex]]);
+        return;
+      }
+    }
+    if (e.key === "Enter") handleGeocode();
+  };
+
   return (
     <Flex direction="column" style={{ height: "100%" }}>
       {/* ── Tab bar ── */}
@@ -251,13 +467,20 @@ export default function CoordinatePanel({
                 <GlobeIcon style={{ display: "inline", marginRight: 4 }} />
                 Location Search
               </SectionHeading>
-              <Flex gap="2" mt="2">
+              <Flex gap="2" mt="2" ref={searchBoxRef} style={{ position: "relative" }}>
                 <TextField.Root
                   size="1"
                   placeholder="e.g. Tokyo, Japan or a business name"
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  onKeyDown={(e) => e.key === "Enter" && handleGeocode()}
+                  onChange={(e) => {
+                    setSearchQuery(e.target.value);
+                    setSearchMessage(null);
+                  }}
+                  onKeyDown={handleSearchKeyDown}
+                  onFocus={() => setPickerOpen(true)}
+                  role="combobox"
+                  aria-expanded={showPicker}
+                  aria-autocomplete="list"
                   style={{ flex: 1 }}
                 >
                   <TextField.Slot>
@@ -275,7 +498,47 @@ export default function CoordinatePanel({
                     {geocoding ? "…" : <MagnifyingGlassIcon color="white" />}
                   </Button>
                 </Tooltip>
+
+                {/* Suggestion / result picker */}
+                {showPicker && (
+                  <SuggestionPicker
+                    results={candidates}
+                    highlightIndex={highlightIndex}
+                    picked={picked}
+                    onHighlight={setHighlightIndex}
+                    onTogglePicked={togglePicked}
+                    onPin={(r) => pinResults([r])}
+                    onPinSelected={() => pinResults(candidates.filter((_, i) => picked.has(i)))}
+                    onPinAll={() => pinResults(candidates)}
+                  />
+                )}
               </Flex>
+              {parsedInput && (
+                <Flex align="center" gap="2" mt="1">
+                  <Badge variant="soft" color="cyan" size="1">
+                    {COORDINATE_FORMAT_LABELS[parsedInput.format]}
+                  </Badge>
+                  <Text size="1" color="gray" style={{ fontFamily: "var(--font-mono)" }}>
+                    {parsedInput.lat.toFixed(5)}, {parsedInput.lng.toFixed(5)}
+                  </Text>
+                </Flex>
+              )}
+              {searchMessage && (
+                <Text size="1" color="red" mt="1" as="p">
+                  {searchMessage}
+                </Text>
+              )}
+            </Box>
+
+            <Separator size="4" />
+
+            {/* Batch import */}
+            <Box>
+              <SectionHeading>
+                <UploadIcon style={{ display: "inline", marginRight: 4 }} />
+                Batch Import
+              </SectionHeading>
+              <BatchGeocodePanel onAdd={onAdd} onPointsSaved={onPointsSaved} />
             </Box>
 
             <Separator size="4" />
@@ -336,8 +599,66 @@ export default function CoordinatePanel({
                   </Flex>
                 </ScrollArea>
               )}
+
+              {coordinates.length >= 3 && (
+                <Flex direction="column" gap="1" mt="2">
+                  <Flex align="center" justify="between" gap="2">
+                    <Tooltip content="Reorder the points (and globe arcs) into the shortest tour, keeping the first point first">
+                      <Button variant="soft" color="amber" size="1" disabled={optimizing} onClick={optimizeOrder}>
+                        <Share2Icon /> {optimizing ? "Optimizing…" : "Optimize order"}
+                      </Button>
+                    </Tooltip>
+                    <Text as="label" size="1" color="gray">
+                      <Flex align="center" gap="2">
+                        <Switch size="1" color="amber" checked={optimizeRoundtrip} onCheckedChange={setOptimizeRoundtrip} />
+                        Return to start
+                      </Flex>
+                    </Text>
+                  </Flex>
+                  <select
+                    value={optimizeProfile}
+                    onChange={(e) => setOptimizeProfile(e.target.value)}
+                    aria-label="Optimize for"
+                    style={{
+                      fontSize: 12,
+                      background: "#161b22",
+                      color: "#c9d1d9",
+                      border: "1px solid rgba(255,255,255,0.1)",
+                      borderRadius: 6,
+                      padding: "5px 8px",
+                      width: "100%",
+                    }}
+                  >
+                    {OPTIMIZE_PROFILES.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                  {optimizeSummary?.orderKey === orderKey && (
+                    <Text size="1" color={optimizeSummary.error ? "red" : "green"} as="p">
+                      {optimizeSummary.text}
+                    </Text>
+                  )}
+                </Flex>
+              )}
             </Box>
 
+            {history && onHistoryTravel && (
+              <>
+                <Separator size="4" />
+
+                {/* Undo / redo */}
+                <Box>
+                  <SectionHeading>
+                    <ResetIcon style={{ display: "inline", marginRight: 4 }} />
+                    Edit History
+                  </SectionHeading>
+                  <HistoryPanel past={history.past} future={history.future} onTravel={onHistoryTravel} />
+                </Box>
+              </>
+            )}
+
             <Separator size="4" />
 
             {/* Route Planner */}
@@ -353,69 +674,132 @@ export default function CoordinatePanel({
                 </Text>
               ) : (
                 <Flex direction="column" gap="2" mt="2">
+                  {/* Stops — drag to reorder */}
                   <Flex direction="column" gap="1">
-                    <Text size="1" color="gray">Origin (A)</Text>
-                    <select
-                      value={routeOriginId}
-                      onChange={(e) => setRouteOriginId(e.target.value)}
-                      style={{
-                        fontSize: 12,
-                        background: "#161b22",
-                        color: "#c9d1d9",
-                        border: "1px solid rgba(255,255,255,0.1)",
-                        borderRadius: 6,
-                        padding: "6px 8px",
-                        width: "100%",
-                      }}
-                    >
-                      <option value="">Select origin…</option>
-                      {coordinates.map((c) => (
-                        <option key={c.id} value={c.id}>
-                          {c.label} ({c.lat.toFixed(2)}, {c.lng.toFixed(2)})
-                        </option>
-                      ))}
-                    </select>
-                  </Flex>
-                  <Flex direction="column" gap="1">
-                    <Text size="1" color="gray">Destination (B)</Text>
-                    <select
-                      value={routeDestId}
-                      onChange={(e) => setRouteDestId(e.target.value)}
-                      style={{
-                        fontSize: 12,
-                        background: "#161b22",
-                        color: "#c9d1d9",
-                        border: "1px solid rgba(255,255,255,0.1)",
-                        borderRadius: 6,
-                        padding: "6px 8px",
-                        width: "100%",
-                      }}
-                    >
-                      <option value="">Select destination…</option>
-                      {coordinates.map((c) => (
-                        <option key={c.id} value={c.id}>
-                          {c.label} ({c.lat.toFixed(2)}, {c.lng.toFixed(2)})
-                        </option>
-                      ))}
-                    </select>
+                    {routeStops.map((c, i) => (
+                      <Flex
+                        key={`${c.id}-${i}`}
+                        align="center"
+                        gap="2"
+                        px="2"
+                        py="1"
+                        draggable
+                        onDragStart={() => setDragStopIndex(i)}
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => {
+                          if (dragStopIndex !== null && dragStopIndex !== i) {
+                            const next = [...routeStopIds];
+                            const [moved] = next.splice(dragStopIndex, 1);
+                            next.splice(i, 0, moved);
+                            onRouteStopsChange(next);
+                          }
+                          setDragStopIndex(null);
+                        }}
+                        onDragEnd={() => setDragStopIndex(null)}
+                        className="rounded-md bg-[--gray-a3] group hover:bg-[--gray-a4] transition-colors"
+                        style={{ cursor: "grab", opacity: dragStopIndex === i ? 0.4 : 1 }}
+                      >
+                        <DragHandleDots2Icon color="gray" />
+                        <Badge variant="soft" color={i === 0 ? "green" : i === routeStops.length - 1 ? "red" : "amber"} size="1">
+                          {waypointLabel(i)}
+                        </Badge>
+                        <Text size="1" className="truncate" style={{ flex: 1 }}>
+                          {c.label}
+                        </Text>
+                        <Tooltip content="Remove stop">
+                          <IconButton
+                            variant="ghost"
+                            color="red"
+                            size="1"
+                            className="opacity-0 group-hover:opacity-100 transition-opacity"
+                            onClick={() => onRouteStopsChange(routeStopIds.filter((_, j) => j !== i))}
+                          >
+                            <Cross2Icon />
+                          </IconButton>
+                        </Tooltip>
+                      </Flex>
+                    ))}
                   </Flex>
+                  <select
+                    value=""
+                    disabled={routeStopIds.length >= MAX_WAYPOINTS}
+                    onChange={(e) => {
+                      if (e.target.value) onRouteStopsChange([...routeStopIds, e.target.value]);
+                    }}
+                    style={{
+                      fontSize: 12,
+                      background: "#161b22",
+                      color: "#c9d1d9",
+                      border: "1px solid rgba(255,255,255,0.1)",
+                      borderRadius: 6,
+                      padding: "6px 8px",
+                      width: "100%",
+                    }}
+                  >
+                    <option value="">
+                      {routeStopIds.length >= MAX_WAYPOINTS
+                        ? `Maximum of ${MAX_WAYPOINTS} stops`
+                        : routeStopIds.length === 0
+                          ? "Select origin…"
+                          : routeStopIds.length === 1
+                            ? "Select destination…"
+                            : "Add stop…"}
+                    </option>
+                    {coordinates.map((c) => (
+                      <option key={c.id} value={c.id}>
+                        {c.label} ({c.lat.toFixed(2)}, {c.lng.toFixed(2)})
+                      </option>
+                    ))}
+                  </select>
                   <Button
                     variant="soft"
                     color="amber"
                     size="1"
-                    disabled={!routeOriginId || !routeDestId || routeOriginId === routeDestId}
-                    onClick={() => {
-                      const o = coordinates.find((c) => c.id === routeOriginId);
-                      const d = coordinates.find((c) => c.id === routeDestId);
-                      if (o && d) onRoute(o, d);
-                    }}
+                    disabled={!routeActive && routeStops.length < 2}
+                    onClick={routeActive ? onCloseRoute : onRoute}
                   >
-                    <RocketIcon /> {routeActive ? "Update Route" : "Show Route Map"}
+                    <RocketIcon /> {routeActive ? "Close Route Map" : "Show Route Map"}
                   </Button>
                 </Flex>
               )}
             </Box>
 
+            {coordinates.length >= 2 && (
+              <>
+                <Separator size="4" />
+
+                {/* Travel matrix */}
+                <Box>
+                  <SectionHeading>
+                    <TableIcon style={{ display: "inline", marginRight: 4 }} />
+                    Travel Matrix
+                  </SectionHeading>
+                  <MatrixPanel
+                    coordinates={coordinates}
+                    onOpenRoute={(from, to) => {
+                      onRouteStopsChange([from.id, to.id]);
+                      onRoute();
+                    }}
+                  />
+                </Box>
+              </>
+            )}
+
+            {onReplayRoute && (
+              <>
+                <Separator size="4" />
+
+                {/* Route history */}
+                <Box>
+                  <SectionHeading>
+                    <CounterClockwiseClockIcon style={{ display: "inline", marginRight: 4 }} />
+                    Recent Routes
+                  </SectionHeading>
+                  <RouteHistoryPanel onReplay={onReplayRoute} refreshKey={routeActive} />
+                </Box>
+              </>
+            )}
+
             <Separator size="4" />
 
             {/* Presets */}
@@ -440,28 +824,37 @@ export default function CoordinatePanel({
                     {p.label}
                   </Button>
                 ))}
-                {dbPresets.map((p) => (
-                  <Button
-                    key={p.id}
-                    variant="outline"
-                    color="amber"
-                    size="1"
-                    onClick={() =>
-                      onAdd({
-                        id: String(nextId++),
-                        label: p.label,
-                        lat: p.lat,
-                        lng: p.lng,
-                        color: p.color ?? "#ffcc00",
-                      })
-                    }
-                    style={{ cursor: "pointer" }}
-                  >
-                    {p.label}
-                  </Button>
-                ))}
               </Flex>
             </Box>
+
+            <Separator size="4" />
+
+            {/* Saved points, grouped into collections */}
+            <Box>
+              <SectionHeading>
+                <DrawingPinIcon style={{ display: "inline", marginRight: 4 }} />
+                Saved Points
+              </SectionHeading>
+              <SavedPointsTree
+                coordinates={coordinates}
+                onAdd={onAdd}
+                onRemove={onRemove}
+                onDelete={onDeleteSavedPoint}
+                refreshKey={presetRefreshKey}
+              />
+            </Box>
+
+            <Box>
+              <SectionHeading>
+                <UploadIcon style={{ display: "inline", marginRight: 4 }} />
+                Import / Export Points
+              </SectionHeading>
+              <PointsTransferPanel
+                key={droppedPointsFile?.id ?? 0}
+                initialFile={droppedPointsFile?.file}
+                onImported={onPointsSaved}
+              />
+            </Box>
           </Flex>
         )}
 
@@ -477,6 +870,8 @@ export default function CoordinatePanel({
             onSelectFlight={onSelectFlight ?? (() => {})}
             selectedFlightIcao={selectedFlightIcao ?? null}
             onVisibleFlightsChange={onVisibleFlightsChange}
+            flightFilter={flightFilter}
+            onFlightFilterChange={onFlightFilterChange ?? (() => {})}
             flightRoute={flightRoute}
             flightRouteLoading={flightRouteLoading}
             flightRouteError={flightRouteError}
@@ -557,6 +952,108 @@ export default function CoordinatePanel({
 
 /* ---- helpers ---- */
 
+function SuggestionPicker({
+  results,
+  highlightIndex,
+  picked,
+  onHighlight,
+  onTogglePicked,
+  onPin,
+  onPinSelected,
+  onPinAll,
+}: {
+  results: GeocodeResult[];
+  highlightIndex: number;
+  picked: Set<number>;
+  onHighlight: (index: number) => void;
+  onTogglePicked: (index: number) => void;
+  onPin: (r: GeocodeResult) => void;
+  onPinSelected: () => void;
+  onPinAll: () => void;
+}) {
+  return (
+    <Box
+      role="listbox"
+      aria-multiselectable
+      style={{
+        position: "absolute",
+        top: "100%",
+        left: 0,
+        right: 0,
+        marginTop: 4,
+        zIndex: 20,
+        background: "#161b22",
+        border: "1px solid rgba(255,255,255,0.1)",
+        borderRadius: 6,
+        boxShadow: "0 8px 24px rgba(0,0,0,0.5)",
+        overflow: "hidden",
+      }}
+    >
+      <ScrollArea scrollbars="vertical" style={{ maxHeight: 240 }}>
+        {results.map((r, i) => (
+          <Flex
+            key={`${r.lat},${r.lng},${i}`}
+            role="option"
+            aria-selected={i === highlightIndex}
+            align="start"
+            gap="2"
+            px="2"
+            py="1"
+            onMouseEnter={() => onHighlight(i)}
+            style={{
+              cursor: "pointer",
+              background: i === highlightIndex ? "var(--gray-a4)" : "transparent",
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={picked.has(i)}
+              onChange={() => onTogglePicked(i)}
+              aria-label={`Select ${r.name}`}
+              style={{ accentColor: "var(--amber-9)", marginTop: 3 }}
+            />
+            <button
+              onClick={() => onPin(r)}
+              className="flex-1 text-left min-w-0"
+            >
+              <Text size="1" weight="medium" as="p" truncate style={{ color: "var(--gray-12)" }}>
+                {r.name}
+              </Text>
+              <Text size="1" color="gray" as="p" style={{ lineHeight: 1.3 }}>
+                {r.fullAddress || `${r.lat.toFixed(4)}, ${r.lng.toFixed(4)}`}
+              </Text>
+            </button>
+          </Flex>
+        ))}
+      </ScrollArea>
+      <Flex
+        align="center"
+        justify="between"
+        gap="2"
+        px="2"
+        py="1"
+        style={{ borderTop: "1px solid rgba(255,255,255,0.08)" }}
+      >
+        <Text size="1" color="gray">
+          ↑↓ move · Enter pin · Shift+Enter select
+        </Text>
+        <Flex gap="1">
+          {picked.size > 0 && (
+            <Button variant="soft" color="amber" size="1" onClick={onPinSelected}>
+              <DrawingPinIcon /> Pin {picked.size}
+            </Button>
+          )}
+          {results.length > 1 && (
+            <Button variant="ghost" color="gray" size="1" onClick={onPinAll}>
+              Pin all
+            </Button>
+          )}
+        </Flex>
+      </Flex>
+    </Box>
+  );
+}
+
 function SectionHeading({ children, className }: { children: React.ReactNode; className?: string }) {
   return (
     <Heading
@@ -575,6 +1072,11 @@ function SectionHeading({ children, className }: { children: React.ReactNode; cl
   );
 }
 
+/** Metres → "12.3 km" */
+function formatKm(m: number) {
+  return `${(m / 1000).toFixed(1)} km`;
+}
+
 const PRESETS = [
   { label: "New York", lat: 40.7128, lng: -74.006 },
   { label: "London", lat: 51.5074, lng: -0.1278 },
@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import type { ElevationProfile, ElevationSample } from "@/lib/elevation";
+
+const WIDTH = 1000;
+const HEIGHT = 100;
+
+/**
+ * Filled elevation-vs-distance profile. Reports the sample under the cursor
+ * via `onHover` so the route map can track it with a marker.
+ */
+export default function ElevationChart({
+  profile,
+  onHover,
+}: {
+  profile: ElevationProfile;
+  onHover: (sample: ElevationSample | null) => void;
+}) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { samples, minElevation, maxElevation } = profile;
+  const total = samples[samples.length - 1]?.distance || 1;
+
+  // Pad the vertical range so flat routes don't render as a jagged line across the whole chart
+  const range = Math.max(maxElevation - minElevation, 50);
+  const floor = minElevation - range * 0.1;
+  const scaleY = (e: number) => HEIGHT - ((e - floor) / (range * 1.2)) * HEIGHT;
+  const scaleX = (d: number) => (d / total) * WIDTH;
+
+  const line = samples.map((s, i) => `${i ? "L" : "M"}${scaleX(s.distance).toFixed(1)},${scaleY(s.elevation).toFixed(1)}`).join(" ");
+  const area = `${line} L${WIDTH},${HEIGHT} L0,${HEIGHT} Z`;
+  const hovered = hoverIndex !== null ? samples[hoverIndex] : null;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const distance = ((e.clientX - rect.left) / rect.width) * total;
+    let index = 0;
+    for (let i = 1; i < samples.length; i++) {
+      if (Math.abs(samples[i].distance - distance) < Math.abs(samples[index].distance - distance)) index = i;
+    }
+    setHoverIndex(index);
+    onHover(samples[index]);
+  };
+
+  const handleLeave = () => {
+    setHoverIndex(null);
+    onHover(null);
+  };
+
+  return (
+    <div style={{ position: "relative" }}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        onMouseMove={handleMove}
+        onMouseLeave={handleLeave}
+        style={{ display: "block", width: "100%", height: 90, cursor: "crosshair" }}
+      >
+        <path d={area} fill="rgba(66,165,245,0.25)" />
+        <path d={line} fill="none" stroke="#42A5F5" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {hovered && (
+          <line
+            x1={scaleX(hovered.distance)}
+            x2={scaleX(hovered.distance)}
+            y1={0}
+            y2={HEIGHT}
+            stroke="#ffffff"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      {/* Axis labels live outside the stretched SVG so the text isn't distorted */}
+      <div style={{ position: "absolute", top: 2, left: 4, fontSize: 10, color: "#8b949e", pointerEvents: "none" }}>
+        {Math.round(maxElevation)} m
+      </div>
+      <div style={{ position: "absolute", bottom: 2, left: 4, fontSize: 10, color: "#8b949e", pointerEvents: "none" }}>
+        {Math.round(minElevation)} m
+      </div>
+      {hovered && (
+        <div
+          style={{
+            position: "absolute",
+            top: 2,
+            right: 4,
+            fontSize: 11,
+            color: "#c9d1d9",
+            background: "rgba(13,17,23,0.85)",
+            borderRadius: 4,
+            padding: "1px 6px",
+            pointerEvents: "none",
+          }}
+        >
+          {Math.round(hovered.elevation)} m · {(hovered.distance / 1000).toFixed(1)} km
+        </div>
+      )}
+    </div>
+  );
+}
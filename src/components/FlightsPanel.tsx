@@ -23,7 +23,7 @@ import {
   TriangleDownIcon,
   PaperPlaneIcon,
 } from "@radix-ui/react-icons";
-import type { Flight, FlightRoute } from "@/lib/types";
+import type { Flight, FlightFilter, FlightRoute } from "@/lib/types";
 
 /* ── helpers ── */
 
@@ -130,6 +130,8 @@ export default function FlightsPanel({
   onSelectFlight,
   selectedFlightIcao,
   onVisibleFlightsChange,
+  flightFilter,
+  onFlightFilterChange,
   flightRoute = null,
   flightRouteLoading = false,
   flightRouteError = null,
@@ -143,12 +145,16 @@ export default function FlightsPanel({
   onSelectFlight: (f: Flight | null) => void;
   selectedFlightIcao: string | null;
   onVisibleFlightsChange?: (flights: Flight[], hasFilter: boolean) => void;
+  /** Text / country filter — kept by the page so it survives tab switches and is saved with workspaces */
+  flightFilter: FlightFilter;
+  onFlightFilterChange: (filter: FlightFilter) => void;
   flightRoute?: FlightRoute | null;
   flightRouteLoading?: boolean;
   flightRouteError?: string | null;
 }) {
-  const [filter, setFilter] = useState("");
-  const [countryFilter, setCountryFilter] = useState<string | null>(null);
+  const { query: filter, country: countryFilter } = flightFilter;
+  const setFilter = (query: string) => onFlightFilterChange({ ...flightFilter, query });
+  const setCountryFilter = (country: string | null) => onFlightFilterChange({ ...flightFilter, country });
   const [altitudeSort, setAltitudeSort] = useState<"none" | "asc" | "desc">("none");
   const [speedSort, setSpeedSort] = useState<"none" | "asc" | "desc">("none");
 
@@ -1,15 +1,20 @@
 "use client";
 
 import { useRef, useEffect, useState, useCallback } from "react";
-import { Canvas, useFrame, useThree } from "@react-three/fiber";
+import { Canvas, useFrame, useThree, type ThreeEvent } from "@react-three/fiber";
 import { OrbitControls } from "@react-three/drei";
 import ThreeGlobe from "three-globe";
 import * as THREE from "three";
-import type { Coordinate, GeoJSON, Flight, FlightRoute, Satellite, Webcam } from "@/lib/types";
+import type { CameraView, Coordinate, GeoJSON, Flight, FlightRoute, Satellite, Webcam } from "@/lib/types";
 
 const GEOJSON_URL =
   "https://raw.githubusercontent.com/nvkelso/natural-earth-vector/master/geojson/ne_110m_admin_0_countries.geojson";
 
+// How close (in globe units, at the default camera distance) a press must land to grab a pin
+const PIN_GRAB_RADIUS = 3;
+// Pointer travel (px) below which a press on a pin is a click, not a drag
+const DRAG_THRESHOLD_PX = 4;
+
 // ---------- geo helpers ----------
 
 /** Convert lat/lng to ThreeGlobe's internal coordinate system at radius r */
@@ -52,6 +57,21 @@ function projectForward(
   return { lat: (lat2 * 180) / Math.PI, lng: (lng2 * 180) / Math.PI };
 }
 
+/** Whether `object` is `ancestor` or inside it */
+function isWithin(object: THREE.Object3D, ancestor: THREE.Object3D | null): boolean {
+  for (let o: THREE.Object3D | null = object; o; o = o.parent) {
+    if (o === ancestor) return true;
+  }
+  return false;
+}
+
+/** Detach a pin-drag marker and free its geometry and material */
+function discardMarker(marker: THREE.Mesh) {
+  marker.removeFromParent();
+  marker.geometry.dispose();
+  (marker.material as THREE.Material).dispose();
+}
+
 // ---------- inner scene component ----------
 function GlobeObject({
   coordinates,
@@ -69,6 +89,10 @@ function GlobeObject({
   selectedWebcamId,
   onGlobeReady,
   zoomTrigger,
+  onSurfaceClick,
+  initialCamera,
+  onCameraChange,
+  onPinDrag,
 }: {
   coordinates: Coordinate[];
   autoRotate: boolean;
@@ -85,6 +109,10 @@ function GlobeObject({
   selectedWebcamId: string | null;
   onGlobeReady?: () => void;
   zoomTrigger?: { id: number; factor: number } | null;
+  onSurfaceClick?: (lat: number, lng: number) => void;
+  initialCamera?: CameraView | null;
+  onCameraChange?: (camera: CameraView) => void;
+  onPinDrag?: (id: string, lat: number, lng: number) => void;
 }) {
   const globeRef = useRef<ThreeGlobe | null>(null);
   const gridGroupRef = useRef<THREE.Group | null>(null);
@@ -326,6 +354,27 @@ function GlobeObject({
     onGlobeReady?.();
   }, [geoData, coordinates, onGlobeReady]); // eslint-disable-line react-hooks/exhaustive-deps
 
+  // Start from a linked camera position once the globe first exists
+  const cameraRestoredRef = useRef(false);
+  useEffect(() => {
+    if (cameraRestoredRef.current || !globeRef.current) return;
+    cameraRestoredRef.current = true;
+    if (!initialCamera) return;
+    const pos = globeRef.current.getCoords(initialCamera.lat, initialCamera.lng, zoomToAltitude(initialCamera.zoom));
+    camera.position.set(pos.x, pos.y, pos.z).applyEuler(groupRef.current.rotation);
+    camera.lookAt(0, 0, 0);
+    if (controlsRef.current) controlsRef.current.update();
+  }, [globeEpoch, initialCamera, camera]);
+
+  // Report where the camera settled (after a drag, zoom or fly-to), in geo coords
+  const reportCamera = useCallback(() => {
+    if (!onCameraChange || !globeRef.current) return;
+    // Undo the group's auto-rotation, as for surface clicks
+    const local = groupRef.current.worldToLocal(camera.position.clone());
+    const { lat, lng, altitude } = globeRef.current.toGeoCoords(local);
+    onCameraChange({ lat, lng, zoom: altitudeToZoom(altitude) });
+  }, [onCameraChange, camera]);
+
   // ── Update flight positions using stable object references ──
   // data-bind-mapper matches items by reference: mutating existing objects
   // in-place lets three-globe reuse meshes instead of destroying & recreating.
@@ -836,6 +885,7 @@ function GlobeObject({
       } else {
         // Re-enable controls once the animation has settled
         if (controlsRef.current) controlsRef.current.enabled = true;
+        reportCamera();
       }
     };
     rafId = requestAnimationFrame(animate);
@@ -844,7 +894,7 @@ function GlobeObject({
       cancelAnimationFrame(rafId);
       if (controlsRef.current) controlsRef.current.enabled = true;
     };
-  }, [focusTarget, camera]);
+  }, [focusTarget, camera]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Programmatic zoom from +/- buttons (smooth animated transition)
   const zoomAnimRef = useRef<{ start: number; target: number; progress: number } | null>(null);
@@ -864,12 +914,107 @@ function GlobeObject({
     const currentDist = anim.start + (anim.target - anim.start) * t;
     camera.position.setLength(currentDist);
     if (controlsRef.current) controlsRef.current.update();
-    if (anim.progress >= 1) zoomAnimRef.current = null;
+    if (anim.progress >= 1) {
+      zoomAnimRef.current = null;
+      reportCamera();
+    }
   });
 
+  // Where a pointer ray meets the globe surface, in the group's frame — i.e. with
+  // the auto-rotation undone, ready for toGeoCoords
+  const surfacePoint = useCallback((ray: THREE.Ray) => {
+    const hit = ray.intersectSphere(new THREE.Sphere(new THREE.Vector3(0, 0, 0), 100), new THREE.Vector3());
+    return hit ? groupRef.current.worldToLocal(hit) : null;
+  }, []);
+
+  // Click on the globe surface → lat/lng (ignores the click that ends an orbit or pin drag,
+  // and clicks on webcams, satellites, arcs and anything else floating above the surface)
+  const handleClick = useCallback((e: ThreeEvent<MouseEvent>) => {
+    if (!onSurfaceClick || !globeRef.current || e.delta > DRAG_THRESHOLD_PX) return;
+    e.stopPropagation();
+    const nearest = e.intersections[0]?.object;
+    if (nearest && !isWithin(nearest, globeRef.current) && !isWithin(nearest, gridGroupRef.current)) return;
+    const local = surfacePoint(e.ray);
+    if (!local) return;
+    const { lat, lng } = globeRef.current.toGeoCoords(local);
+    onSurfaceClick(lat, lng);
+  }, [onSurfaceClick, surfacePoint]);
+
+  // ── Dragging pins ──
+  // A press near a pin grabs it: orbiting pauses and a marker follows the pointer
+  // over the surface. The marker stays at the drop until the globe is rebuilt
+  // with the moved pin (which also re-draws its arcs).
+  const [draggingPin, setDraggingPin] = useState(false);
+  const dragRef = useRef<{ id: string; x: number; y: number; marker: THREE.Mesh } | null>(null);
+
+  const handlePointerDown = useCallback((e: ThreeEvent<PointerEvent>) => {
+    if (!onPinDrag || !globeRef.current || e.button !== 0) return;
+    const local = surfacePoint(e.ray);
+    if (!local) return;
+    // The grab radius grows as the camera pulls back, so pins stay as easy to hit on screen
+    let best = (PIN_GRAB_RADIUS * camera.position.length()) / 300;
+    let grabbed: Coordinate | null = null;
+    for (const c of coordinates) {
+      const { x, y, z } = globeRef.current.getCoords(c.lat, c.lng, 0);
+      const d = local.distanceTo(new THREE.Vector3(x, y, z));
+      if (d < best) {
+        best = d;
+        grabbed = c;
+      }
+    }
+    if (!grabbed) return;
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    if (controlsRef.current) controlsRef.current.enabled = false;
+
+    // Replace the marker left by the previous drag (still drawn if the globe hasn't been rebuilt since)
+    if (dragRef.current) discardMarker(dragRef.current.marker);
+    const marker = new THREE.Mesh(
+      new THREE.SphereGeometry(1.2, 16, 16),
+      new THREE.MeshBasicMaterial({ color: grabbed.color ?? "#ff6600" }),
+    );
+    marker.visible = false;
+    groupRef.current.add(marker);
+    dragRef.current = { id: grabbed.id, x: e.clientX, y: e.clientY, marker };
+    document.body.style.cursor = "grabbing";
+    setDraggingPin(true);
+  }, [onPinDrag, coordinates, camera, surfacePoint]);
+
+  const handlePointerMove = useCallback((e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    const local = surfacePoint(e.ray);
+    if (!drag || !local) return;
+    drag.marker.position.copy(local.setLength(101.5));
+    drag.marker.visible = true;
+  }, [surfacePoint]);
+
+  const handlePointerUp = useCallback((e: ThreeEvent<PointerEvent>) => {
+    const drag = dragRef.current;
+    if (!drag || !globeRef.current) return;
+    (e.target as Element).releasePointerCapture(e.pointerId);
+    if (controlsRef.current) controlsRef.current.enabled = true;
+    document.body.style.cursor = "";
+    setDraggingPin(false);
+
+    const moved = Math.hypot(e.clientX - drag.x, e.clientY - drag.y) >= DRAG_THRESHOLD_PX;
+    if (!moved || !drag.marker.visible) {
+      discardMarker(drag.marker);
+      dragRef.current = null;
+      return;
+    }
+    const { lat, lng } = globeRef.current.toGeoCoords(drag.marker.position);
+    onPinDrag?.(drag.id, lat, lng);
+  }, [onPinDrag]);
+
   return (
     <>
-      <group ref={groupRef} />
+      <group
+        ref={groupRef}
+        onClick={handleClick}
+        onPointerDown={handlePointerDown}
+        onPointerMove={draggingPin ? handlePointerMove : undefined}
+        onPointerUp={handlePointerUp}
+      />
       <OrbitControls
         ref={controlsRef}
         enableZoom
@@ -878,6 +1023,7 @@ function GlobeObject({
         maxDistance={500}
         zoomSpeed={0.8}
         rotateSpeed={0.5}
+        onEnd={reportCamera}
       />
     </>
   );
@@ -887,6 +1033,16 @@ function easeInOutCubic(t: number) {
   return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
 }
 
+// Camera altitude (in globe radii) ↔ Mapbox-style zoom, so one camera works in both views.
+// The default distance of 300 (altitude 2) matches the map's opening zoom of 2.
+function altitudeToZoom(altitude: number) {
+  return Math.log2(8 / altitude);
+}
+
+function zoomToAltitude(zoom: number) {
+  return Math.min(Math.max(8 / 2 ** zoom, 0.2), 4); // orbit controls allow 120–500
+}
+
 // ---------- scene lighting ----------
 function Lighting() {
   return (
@@ -916,6 +1072,10 @@ export default function Globe({
   satelliteOrbit = [],
   webcams = [],
   selectedWebcamId = null,
+  onGlobeClick,
+  initialCamera = null,
+  onCameraChange,
+  onPinDrag,
 }: {
   coordinates?: Coordinate[];
   autoRotate?: boolean;
@@ -932,6 +1092,12 @@ export default function Globe({
   satelliteOrbit?: Satellite[];
   webcams?: Webcam[];
   selectedWebcamId?: string | null;
+  onGlobeClick?: (lat: number, lng: number) => void;
+  /** Camera to open at instead of the default view (e.g. from a shared link) */
+  initialCamera?: CameraView | null;
+  onCameraChange?: (camera: CameraView) => void;
+  /** A pin was dragged to a new spot */
+  onPinDrag?: (id: string, lat: number, lng: number) => void;
 }) {
   const [ready, setReady] = useState(false);
   const handleReady = useCallback(() => setReady(true), []);
@@ -1023,6 +1189,10 @@ export default function Globe({
           selectedWebcamId={selectedWebcamId}
           onGlobeReady={handleReady}
           zoomTrigger={zoomTrigger}
+          onSurfaceClick={onGlobeClick}
+          initialCamera={initialCamera}
+          onCameraChange={onCameraChange}
+          onPinDrag={onPinDrag}
         />
       </Canvas>
     </div>
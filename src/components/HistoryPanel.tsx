@@ -0,0 +1,94 @@
+"use client";
+
+import { Text, Button, Flex, ScrollArea } from "@radix-ui/themes";
+import { ResetIcon } from "@radix-ui/react-icons";
+
+/* ── component ── */
+
+/**
+ * The edit history, newest first. Steps that were undone stay listed (dimmed)
+ * until something new is edited; clicking any step undoes or redoes up to it.
+ */
+export default function HistoryPanel({
+  past,
+  future,
+  onTravel,
+}: {
+  /** Undoable step labels, oldest first */
+  past: string[];
+  /** Redoable step labels, next first */
+  future: string[];
+  /** Undo (negative) or redo (positive) that many steps */
+  onTravel: (steps: number) => void;
+}) {
+  // Newest first: redoable steps (furthest first), then the done ones
+  const rows = [
+    ...future.map((label, k) => ({ label, steps: k + 1, done: false })).reverse(),
+    ...past.map((label, j) => ({ label, steps: -(past.length - 1 - j), done: true })).reverse(),
+  ];
+
+  return (
+    <Flex direction="column" gap="2" mt="2">
+      <Flex gap="2">
+        <Button
+          variant="soft"
+          color="gray"
+          size="1"
+          disabled={!past.length}
+          onClick={() => onTravel(-1)}
+          title="Undo (Ctrl+Z / ⌘Z)"
+          style={{ flex: 1 }}
+        >
+          <ResetIcon /> Undo
+        </Button>
+        <Button
+          variant="soft"
+          color="gray"
+          size="1"
+          disabled={!future.length}
+          onClick={() => onTravel(1)}
+          title="Redo (Ctrl+Shift+Z / ⌘⇧Z)"
+          style={{ flex: 1 }}
+        >
+          <ResetIcon style={{ transform: "scaleX(-1)" }} /> Redo
+        </Button>
+      </Flex>
+
+      {rows.length === 0 ? (
+        <Text size="1" color="gray" as="p">
+          Pin, route and preset edits show up here.
+        </Text>
+      ) : (
+        <ScrollArea scrollbars="vertical" style={{ maxHeight: 180 }}>
+          <Flex direction="column" gap="1" pr="2">
+            {rows.map((r, i) => (
+              <button
+                key={i}
+                onClick={() => r.steps !== 0 && onTravel(r.steps)}
+                className={`text-left rounded-md px-2 py-1 transition-colors ${
+                  r.steps === 0 ? "bg-[--amber-a3]" : "hover:bg-[--gray-a4]"
+                }`}
+                style={{ opacity: r.done ? 1 : 0.5, cursor: r.steps === 0 ? "default" : "pointer" }}
+              >
+                <Text size="1" truncate as="p">
+                  {r.label}
+                </Text>
+              </button>
+            ))}
+            <button
+              onClick={() => past.length && onTravel(-past.length)}
+              className={`text-left rounded-md px-2 py-1 transition-colors ${
+                past.length ? "hover:bg-[--gray-a4]" : "bg-[--amber-a3]"
+              }`}
+              style={{ cursor: past.length ? "pointer" : "default" }}
+            >
+              <Text size="1" color="gray" as="p">
+                Start
+              </Text>
+            </button>
+          </Flex>
+        </ScrollArea>
+      )}
+    </Flex>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useEffect, useRef, useCallback, useState } from "react";
 import mapboxgl from "mapbox-gl";
-import type { Flight, FlightRoute, Coordinate, Webcam } from "@/lib/types";
+import type { CameraView, Flight, FlightRoute, Coordinate, Isochrone, Webcam } from "@/lib/types";
+import { renderIsochrone, isochroneBounds } from "@/lib/isochrone";
 
 /* ------------------------------------------------------------------ */
 /*  Helpers                                                            */
@@ -87,6 +88,13 @@ interface Props {
   webcams?: Webcam[];
   selectedWebcamId?: string | null;
   onSelectWebcam?: (w: Webcam | null) => void;
+  onMapClick?: (lat: number, lng: number) => void;
+  isochrone?: Isochrone | null;
+  /** Camera to open at instead of the default view (e.g. from a shared link) */
+  initialCamera?: CameraView | null;
+  onCameraChange?: (camera: CameraView) => void;
+  /** Makes the point markers draggable; called with the drop position */
+  onPinDrag?: (id: string, lat: number, lng: number) => void;
 }
 
 /* ------------------------------------------------------------------ */
@@ -175,6 +183,11 @@ export default function MapboxFlightMap({
   webcams = [],
   selectedWebcamId = null,
   onSelectWebcam,
+  onMapClick,
+  isochrone = null,
+  initialCamera = null,
+  onCameraChange,
+  onPinDrag,
 }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
@@ -201,8 +214,8 @@ export default function MapboxFlightMap({
     const map = new mapboxgl.Map({
       container: containerRef.current,
       style: MAP_STYLES["dark"].url,
-      center: [-90, 20],
-      zoom: 2,
+      center: initialCamera ? [initialCamera.lng, initialCamera.lat] : [-90, 20],
+      zoom: initialCamera?.zoom ?? 2,
       projection: "globe" as any,
     });
 
@@ -327,6 +340,42 @@ export default function MapboxFlightMap({
     }
   }, [terrain3d, mapLoaded]);
 
+  /* ---- click on the map surface ---- */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded || !onMapClick) return;
+
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      // Marker clicks bubble to the map too — leave those to the marker/popup
+      const target = e.originalEvent.target as HTMLElement | null;
+      if (target?.closest(".mapboxgl-marker")) return;
+      // Wrapped, so a click on a repeated world copy stays within ±180°
+      const { lat, lng } = e.lngLat.wrap();
+      onMapClick(lat, lng);
+    };
+    map.on("click", handleClick);
+
+    return () => {
+      map.off("click", handleClick);
+    };
+  }, [onMapClick, mapLoaded]);
+
+  /* ---- report where the camera settled ---- */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded || !onCameraChange) return;
+
+    const handleMoveEnd = () => {
+      const { lat, lng } = map.getCenter().wrap();
+      onCameraChange({ lat, lng, zoom: map.getZoom() });
+    };
+    map.on("moveend", handleMoveEnd);
+
+    return () => {
+      map.off("moveend", handleMoveEnd);
+    };
+  }, [onCameraChange, mapLoaded]);
+
   /* ---- coordinate points & arcs ---- */
   useEffect(() => {
     const map = mapRef.current;
@@ -335,6 +384,7 @@ export default function MapboxFlightMap({
     // Remove old coordinate markers
     markersRef.current.forEach((m) => m.remove());
     markersRef.current = [];
+    const arcSourceId = "coord-arcs";
 
     // Add point markers
     for (const c of coordinates) {
@@ -346,20 +396,34 @@ export default function MapboxFlightMap({
       el.style.border = "2px solid white";
       el.style.boxShadow = "0 0 6px rgba(255,170,0,0.6)";
 
-      const marker = new mapboxgl.Marker({ element: el })
+      const marker = new mapboxgl.Marker({ element: el, draggable: !!onPinDrag })
         .setLngLat([c.lng, c.lat])
         .setPopup(new mapboxgl.Popup({ offset: 12, closeButton: false }).setText(c.label))
         .addTo(map);
 
+      if (onPinDrag) {
+        el.style.cursor = "grab";
+        // Arcs follow the marker while it moves; the drop is handed to the page
+        marker.on("drag", () => {
+          const { lat, lng } = marker.getLngLat();
+          (map.getSource(arcSourceId) as mapboxgl.GeoJSONSource | undefined)?.setData(
+            buildCoordArcsGeoJSON(coordinates.map((p) => (p.id === c.id ? { ...p, lat, lng } : p))),
+          );
+        });
+        marker.on("dragend", () => {
+          const { lat, lng } = marker.getLngLat().wrap();
+          onPinDrag(c.id, lat, lng);
+        });
+      }
+
       markersRef.current.push(marker);
     }
 
     // Arcs between sequential coordinate points
-    const arcSourceId = "coord-arcs";
     if (map.getSource(arcSourceId)) {
-      (map.getSource(arcSourceId) as mapboxgl.GeoJSONSource).setData(buildCoordArcsGeoJSON());
+      (map.getSource(arcSourceId) as mapboxgl.GeoJSONSource).setData(buildCoordArcsGeoJSON(coordinates));
     } else {
-      map.addSource(arcSourceId, { type: "geojson", data: buildCoordArcsGeoJSON() });
+      map.addSource(arcSourceId, { type: "geojson", data: buildCoordArcsGeoJSON(coordinates) });
       map.addLayer({
         id: "coord-arcs-layer",
         type: "line",
@@ -373,11 +437,11 @@ export default function MapboxFlightMap({
       });
     }
 
-    function buildCoordArcsGeoJSON(): GeoJSON.FeatureCollection {
+    function buildCoordArcsGeoJSON(points: Coordinate[]): GeoJSON.FeatureCollection {
       const features: GeoJSON.Feature[] = [];
-      for (let i = 0; i < coordinates.length - 1; i++) {
-        const a = coordinates[i];
-        const b = coordinates[i + 1];
+      for (let i = 0; i < points.length - 1; i++) {
+        const a = points[i];
+        const b = points[i + 1];
         features.push({
           type: "Feature",
           properties: {},
@@ -389,7 +453,7 @@ export default function MapboxFlightMap({
       }
       return { type: "FeatureCollection", features };
     }
-  }, [coordinates, mapLoaded]);
+  }, [coordinates, mapLoaded, onPinDrag]);
 
   /* ---- flight markers ---- */
   useEffect(() => {
@@ -750,6 +814,15 @@ export default function MapboxFlightMap({
     });
   }, [selectedFlightIcao, mapLoaded]); // intentionally not depending on flights to avoid constant re-centering
 
+  /* ---- reachability polygons (fit to them when shown) ---- */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded) return;
+    renderIsochrone(map, isochrone, "coord-arcs-layer");
+    const bounds = isochrone && isochroneBounds(isochrone);
+    if (bounds) map.fitBounds(bounds, { padding: 60, duration: 1200 });
+  }, [isochrone, mapLoaded]);
+
   return (
     <div style={{ position: "relative", width: "100%", height: "100%" }}>
       <div ref={containerRef} style={{ position: "absolute", inset: 0 }} />
@@ -2,24 +2,115 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import mapboxgl from "mapbox-gl";
-import type { Coordinate, PlaceDetails } from "@/lib/types";
+import type { Coordinate, Isochrone, PlaceDetails, RouteHistoryEntry, SavedPoint } from "@/lib/types";
+import { renderIsochrone } from "@/lib/isochrone";
+import {
+  MAX_TRAFFIC_WAYPOINTS,
+  MAX_WAYPOINTS,
+  encodeWaypoints,
+  haversineMeters,
+  supportsArriveBy,
+  supportsDepartAt,
+  waypointLabel,
+  type RouteProfile,
+  type RouteSchedule,
+} from "@/lib/routing";
+import type { ElevationProfile, ElevationSample } from "@/lib/elevation";
+import ElevationChart from "@/components/ElevationChart";
+import {
+  ROUTE_EXPORT_FORMATS,
+  exportRoute,
+  withPointDetails,
+  type ExportableRoute,
+  type RouteExportFormat,
+} from "@/lib/exporters";
 
 /* ------------------------------------------------------------------ */
 /*  Types                                                              */
 /* ------------------------------------------------------------------ */
 
+/** One maneuver of the turn-by-turn itinerary */
+export interface RouteStep {
+  instruction: string; // "Turn left onto Rue de Rivoli"
+  type: string; // Mapbox maneuver type: depart, turn, roundabout, arrive…
+  modifier?: string; // left, slight right, uturn…
+  name: string; // road travelled after the maneuver
+  distance: number; // metres
+  duration: number; // seconds
+  geometry: GeoJSON.LineString;
+}
+
+/** One stop-to-stop section of a multi-stop route */
+export interface RouteLeg {
+  distance: number; // metres
+  duration: number; // seconds
+  summary: string; // main roads, e.g. "A1, Rue de Rivoli"
+  steps: RouteStep[];
+}
+
 export interface RouteInfo {
   distance: number; // metres
   duration: number; // seconds
   geometry: GeoJSON.LineString;
   congestion?: string[];
+  legs: RouteLeg[];
+  summary: string; // main roads of the whole route
+}
+
+/** The parts of a Mapbox Directions `routes[]` entry we read */
+interface MapboxRoute {
+  distance: number;
+  duration: number;
+  geometry: GeoJSON.LineString;
+  legs?: {
+    distance: number;
+    duration: number;
+    summary?: string;
+    annotation?: { congestion?: string[] };
+    steps?: {
+      distance: number;
+      duration: number;
+      name?: string;
+      geometry: GeoJSON.LineString;
+      maneuver: { instruction: string; type: string; modifier?: string };
+    }[];
+  }[];
+}
+
+/** Cache metadata attached to `/api/directions` responses */
+export interface RouteCacheInfo {
+  status: "HIT" | "MISS";
+  cachedAt: string; // ISO timestamp of the Mapbox fetch
+  ageSeconds: number;
 }
 
+/** A stored result from `/api/directions/times` */
+interface ScheduledTime {
+  departAt: string | null;
+  arriveBy: string | null;
+  duration: number; // seconds
+  distance: number; // metres
+  fetchedAt: string;
+}
+
+type ScheduleMode = "now" | "depart" | "arrive";
+
 interface Props {
-  origin: Coordinate;
-  destination: Coordinate;
+  /** Stops in visiting order — first is the origin, last the destination */
+  waypoints: Coordinate[];
   mapboxToken: string;
   onClose: () => void;
+  /** Called with the new stop order after a drag or a removal */
+  onWaypointsChange?: (waypoints: Coordinate[]) => void;
+  /** Called when the user clicks the map in "add stop" mode */
+  onAddWaypoint?: (lat: number, lng: number) => void;
+  /** Reachability polygons to draw under the route */
+  isochrone?: Isochrone | null;
+  /** Stored route to show first (from the route history) — loaded by id, no Mapbox call */
+  replay?: RouteHistoryEntry | null;
+  /** Profile to open with when not replaying a stored route */
+  initialProfile?: RouteProfile;
+  onProfileChange?: (profile: RouteProfile) => void;
 }
 
 /* ------------------------------------------------------------------ */
@@ -38,6 +129,107 @@ function formatDistance(m: number) {
     : `${Math.round(m)} m`;
 }
 
+/** Short distance for itinerary rows: "350 m", "2.4 km" */
+function formatStepDistance(m: number) {
+  return m >= 1000 ? `${(m / 1000).toFixed(1)} km` : `${Math.round(m / 10) * 10} m`;
+}
+
+/** Next full hour as a `datetime-local` value ("YYYY-MM-DDThh:mm", browser time) */
+function defaultScheduleTime() {
+  const d = new Date();
+  d.setHours(d.getHours() + 1, 0, 0, 0);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** "Tue 08:00" — schedule times are wall-clock times at the origin, shown as-is */
+function formatScheduleTime(value: string, offsetSeconds = 0) {
+  const d = new Date(new Date(value).getTime() + offsetSeconds * 1000);
+  return d.toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit" });
+}
+
+function formatAge(s: number) {
+  if (s < 60) return "just now";
+  if (s < 3600) return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`;
+  return `${Math.floor(s / 86400)}d ago`;
+}
+
+function parseRoute(r: MapboxRoute): RouteInfo {
+  const legs = r.legs ?? [];
+  return {
+    distance: r.distance,
+    duration: r.duration,
+    geometry: r.geometry,
+    // Each leg annotates its own segments; together they cover the whole geometry
+    congestion: legs.every((l) => l.annotation?.congestion)
+      ? legs.flatMap((l) => l.annotation!.congestion!)
+      : undefined,
+    legs: legs.map((l) => ({
+      distance: l.distance,
+      duration: l.duration,
+      summary: l.summary ?? "",
+      steps: (l.steps ?? []).map((st) => ({
+        instruction: st.maneuver.instruction,
+        type: st.maneuver.type,
+        modifier: st.maneuver.modifier,
+        name: st.name ?? "",
+        distance: st.distance,
+        duration: st.duration,
+        geometry: st.geometry,
+      })),
+    })),
+    summary: legs.map((l) => l.summary).filter(Boolean).join(" · "),
+  };
+}
+
+/** Arrow glyph for a maneuver */
+function maneuverIcon(type: string, modifier?: string) {
+  if (type === "arrive") return "◉";
+  if (type === "depart") return "●";
+  if (type === "roundabout" || type === "rotary" || type === "roundabout turn") return "⟳";
+  switch (modifier) {
+    case "uturn": return "↶";
+    case "sharp right": return "↘";
+    case "right": return "→";
+    case "slight right": return "↗";
+    case "sharp left": return "↙";
+    case "left": return "←";
+    case "slight left": return "↖";
+    default: return "↑";
+  }
+}
+
+/** Share of the route's length (0–1) at each congestion level, or `null` without traffic data */
+function congestionBreakdown(info: RouteInfo): Record<string, number> | null {
+  if (!info.congestion) return null;
+  const coords = info.geometry.coordinates;
+  const totals: Record<string, number> = {};
+  let sum = 0;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const level = info.congestion[i] || "unknown";
+    const metres = haversineMeters(
+      { lng: coords[i][0], lat: coords[i][1] },
+      { lng: coords[i + 1][0], lat: coords[i + 1][1] },
+    );
+    totals[level] = (totals[level] ?? 0) + metres;
+    sum += metres;
+  }
+  if (sum === 0) return null;
+  for (const level of Object.keys(totals)) totals[level] /= sum;
+  return totals;
+}
+
+/** Marker colour: green origin, red destination, amber in between */
+function waypointColor(index: number, count: number) {
+  if (index === 0) return "#4CAF50";
+  if (index === count - 1) return "#F44336";
+  return "#f59f0a";
+}
+
+/** Unselected alternative routes */
+const ALTERNATIVE_COLOR = "#6e7681";
+
 const CONGESTION_COLORS: Record<string, string> = {
   low: "#4CAF50",
   moderate: "#FFEB3B",
@@ -50,35 +242,90 @@ const CONGESTION_COLORS: Record<string, string> = {
 /*  Component                                                          */
 /* ------------------------------------------------------------------ */
 
-export default function MapboxRouteMap({ origin, destination, mapboxToken, onClose }: Props) {
+export default function MapboxRouteMap({
+  waypoints,
+  mapboxToken,
+  onClose,
+  onWaypointsChange,
+  onAddWaypoint,
+  isochrone = null,
+  replay = null,
+  initialProfile = "driving-traffic",
+  onProfileChange,
+}: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<mapboxgl.Map | null>(null);
-  const originMarkerRef = useRef<mapboxgl.Marker | null>(null);
-  const destMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  const markersRef = useRef<mapboxgl.Marker[]>([]);
+  const requestedPlacesRef = useRef<Set<string>>(new Set());
+  const addStopRef = useRef<((lat: number, lng: number) => void) | null>(null);
+  const fitPendingRef = useRef(false);
+  const replayIdRef = useRef(replay?.id ?? null);
+  const labelsRef = useRef<string[]>([]);
+  const elevationMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const [expanded, setExpanded] = useState(false);
-  const [route, setRoute] = useState<RouteInfo | null>(null);
+  const [mapLoaded, setMapLoaded] = useState(false);
+  const [routes, setRoutes] = useState<RouteInfo[]>([]);
+  const [selectedRoute, setSelectedRoute] = useState(0);
+  const [cacheInfo, setCacheInfo] = useState<RouteCacheInfo | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [trafficVisible, setTrafficVisible] = useState(true);
-  const [profile, setProfile] = useState<"driving-traffic" | "driving" | "walking" | "cycling">(
-    "driving-traffic",
+  const [profile, setProfile] = useState<RouteProfile>((replay?.profile as RouteProfile) ?? initialProfile);
+  const [places, setPlaces] = useState<Record<string, PlaceDetails>>({});
+  const [showStops, setShowStops] = useState(false);
+  const [showItinerary, setShowItinerary] = useState(false);
+  const [showElevation, setShowElevation] = useState(false);
+  const [showSchedule, setShowSchedule] = useState(false);
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>(
+    replay?.departAt ? "depart" : replay?.arriveBy ? "arrive" : "now",
   );
-  const [originPlace, setOriginPlace] = useState<PlaceDetails | null>(null);
-  const [destinationPlace, setDestinationPlace] = useState<PlaceDetails | null>(null);
+  const [scheduleTime, setScheduleTime] = useState(() => replay?.departAt ?? replay?.arriveBy ?? defaultScheduleTime());
+  const [scheduledTimes, setScheduledTimes] = useState<ScheduledTime[]>([]);
+  const [elevation, setElevation] = useState<{
+    route: RouteInfo;
+    profile: ElevationProfile | null;
+    error: string | null;
+  } | null>(null);
+  const [addingStop, setAddingStop] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Mapbox limits traffic-aware routing to 3 stops — fall back to plain driving beyond that
+  const trafficLimited = profile === "driving-traffic" && waypoints.length > MAX_TRAFFIC_WAYPOINTS;
+  // …and plans backwards from an arrival time on plain driving only
+  const arriveLimited = scheduleMode === "arrive" && profile === "driving-traffic";
+  const effectiveProfile: RouteProfile = trafficLimited || arriveLimited ? "driving" : profile;
+  const schedule: RouteSchedule =
+    scheduleMode === "depart" && scheduleTime && supportsDepartAt(effectiveProfile)
+      ? { departAt: scheduleTime }
+      : scheduleMode === "arrive" && scheduleTime && supportsArriveBy(effectiveProfile)
+        ? { arriveBy: scheduleTime }
+        : {};
+  const scheduleIgnored = scheduleMode !== "now" && !schedule.departAt && !schedule.arriveBy;
+  const waypointsKey = encodeWaypoints(waypoints);
+  const canAddStop = !!onAddWaypoint && waypoints.length < MAX_WAYPOINTS;
+  const route: RouteInfo | null = routes[selectedRoute] ?? null;
+  const elevationLoading = showElevation && !!route && elevation?.route !== route;
+
+  // Stop names travel with each request so the route history can show them (renames alone don't refetch)
+  useEffect(() => {
+    labelsRef.current = waypoints.map((w) => w.label);
+  });
 
   /* ---- fetch route ---- */
-  const fetchRoute = useCallback(async () => {
+  const fetchRoute = useCallback(async (force = false) => {
     setLoading(true);
     setError(null);
     try {
-      const params = new URLSearchParams({
-        originLng: String(origin.lng),
-        originLat: String(origin.lat),
-        destLng: String(destination.lng),
-        destLat: String(destination.lat),
-        profile,
-      });
-      const res = await fetch(`/api/directions?${params}`);
+      const params = new URLSearchParams({ coordinates: waypointsKey, profile: effectiveProfile });
+      if (schedule.departAt) params.set("depart_at", schedule.departAt);
+      if (schedule.arriveBy) params.set("arrive_by", schedule.arriveBy);
+      params.set("labels", JSON.stringify(labelsRef.current));
+      if (force) params.set("refresh", "1");
+
+      // The first load of a history entry reads the stored row instead
+      const replayId = replayIdRef.current;
+      replayIdRef.current = null;
+      const res = await fetch(replayId !== null && !force ? `/api/directions?id=${replayId}` : `/api/directions?${params}`);
       const data = await res.json();
 
       if (!res.ok || !data.routes?.length) {
@@ -87,21 +334,18 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
         return;
       }
 
-      const r = data.routes[0];
-      const info: RouteInfo = {
-        distance: r.distance,
-        duration: r.duration,
-        geometry: r.geometry,
-        congestion: r.legs?.[0]?.annotation?.congestion,
-      };
-      setRoute(info);
-      drawRoute(info);
+      // Mapbox returns the recommended route first, then up to two alternatives
+      const infos: RouteInfo[] = (data.routes as MapboxRoute[]).map(parseRoute);
+      fitPendingRef.current = true;
+      setRoutes(infos);
+      setSelectedRoute(0);
+      setCacheInfo(data.cache ?? null);
     } catch {
       setError("Failed to fetch directions.");
     } finally {
       setLoading(false);
     }
-  }, [origin, destination, profile]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [waypointsKey, effectiveProfile, schedule.departAt, schedule.arriveBy]);
 
   /* ---- initialise map ---- */
   useEffect(() => {
@@ -112,7 +356,10 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
     const map = new mapboxgl.Map({
       container: containerRef.current,
       style: "mapbox://styles/mapbox/dark-v11",
-      center: [(origin.lng + destination.lng) / 2, (origin.lat + destination.lat) / 2],
+      center: [
+        waypoints.reduce((sum, w) => sum + w.lng, 0) / waypoints.length,
+        waypoints.reduce((sum, w) => sum + w.lat, 0) / waypoints.length,
+      ],
       zoom: 4,
     });
 
@@ -151,21 +398,59 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
         },
       });
 
+      setMapLoaded(true);
       fetchRoute();
     });
 
+    // "Add stop" mode — clicks on the map (but not on a marker) append a waypoint
+    map.on("click", (e) => {
+      const addStop = addStopRef.current;
+      if (!addStop) return;
+      if ((e.originalEvent.target as HTMLElement).closest(".mapboxgl-marker")) return;
+      // Wrapped, so a click on a repeated world copy stays within ±180°
+      const { lat, lng } = e.lngLat.wrap();
+      addStop(lat, lng);
+    });
+
+    // Clicking a muted alternative promotes it to the primary route
+    map.on("click", "route-alternatives", (e) => {
+      if (addStopRef.current) return;
+      const index = e.features?.[0]?.properties?.index;
+      if (typeof index === "number") setSelectedRoute(index);
+    });
+    map.on("mouseenter", "route-alternatives", () => {
+      if (!addStopRef.current) map.getCanvas().style.cursor = "pointer";
+    });
+    map.on("mouseleave", "route-alternatives", () => {
+      if (!addStopRef.current) map.getCanvas().style.cursor = "";
+    });
+
     return () => {
       map.remove();
       mapRef.current = null;
     };
   }, []); // eslint-disable-line react-hooks/exhaustive-deps
 
-  /* ---- re-fetch when profile changes (after initial load) ---- */
+  /* ---- re-fetch when the stops or profile change (after initial load) ---- */
   useEffect(() => {
     if (mapRef.current && mapRef.current.isStyleLoaded()) {
       fetchRoute();
     }
-  }, [profile, fetchRoute]);
+  }, [fetchRoute]);
+
+  /* ---- arm / disarm click-to-add ---- */
+  useEffect(() => {
+    addStopRef.current = addingStop && canAddStop ? onAddWaypoint! : null;
+    const canvas = mapRef.current?.getCanvas();
+    if (canvas) canvas.style.cursor = addStopRef.current ? "crosshair" : "";
+  }, [addingStop, canAddStop, onAddWaypoint]);
+
+  /* ---- reachability polygons ---- */
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map || !mapLoaded) return;
+    renderIsochrone(map, isochrone, "route-alternatives");
+  }, [isochrone, mapLoaded]);
 
   /* ---- toggle traffic layer ---- */
   useEffect(() => {
@@ -177,20 +462,44 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
   }, [trafficVisible]);
 
   /* ---- draw route on map ---- */
-  const drawRoute = (info: RouteInfo) => {
+  const drawRoute = (all: RouteInfo[], selected: number) => {
     const map = mapRef.current;
-    if (!map) return;
+    const info = all[selected];
+    if (!map || !info) return;
 
     // Remove previous route layers / sources
-    ["route-line", "route-congestion"].forEach((id) => {
+    ["route-alternatives", "route-line", "route-congestion", "route-step-highlight"].forEach((id) => {
       if (map.getLayer(id)) map.removeLayer(id);
     });
-    ["route", "route-congestion"].forEach((id) => {
+    ["route-alternatives", "route", "route-congestion", "route-step-highlight"].forEach((id) => {
       if (map.getSource(id)) map.removeSource(id);
     });
 
     // Remove old markers
-    document.querySelectorAll(".mapbox-route-marker").forEach((el) => el.remove());
+    markersRef.current.forEach((m) => m.remove());
+    markersRef.current = [];
+
+    // Alternatives underneath, muted
+    map.addSource("route-alternatives", {
+      type: "geojson",
+      data: {
+        type: "FeatureCollection",
+        features: all
+          .map((r, index): GeoJSON.Feature => ({ type: "Feature", properties: { index }, geometry: r.geometry }))
+          .filter((_, index) => index !== selected),
+      },
+    });
+    map.addLayer({
+      id: "route-alternatives",
+      type: "line",
+      source: "route-alternatives",
+      layout: { "line-join": "round", "line-cap": "round" },
+      paint: {
+        "line-color": ALTERNATIVE_COLOR,
+        "line-width": 5,
+        "line-opacity": 0.6,
+      },
+    });
 
     // Main route line
     map.addSource("route", {
@@ -251,67 +560,110 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
       });
     }
 
-    // Markers
-    const originEl = markerElement("A", "#4CAF50");
-    originEl.className += " mapbox-route-marker";
-    const originMarker = new mapboxgl.Marker({ element: originEl })
-      .setLngLat([origin.lng, origin.lat])
-      .setPopup(
-        new mapboxgl.Popup({ offset: 25, maxWidth: "260px" }).setHTML(
-          buildPopupHTML(origin.label, originPlace)
-        )
-      )
-      .addTo(map);
-    originMarkerRef.current = originMarker;
-
-    const destEl = markerElement("B", "#F44336");
-    destEl.className += " mapbox-route-marker";
-    const destMarker = new mapboxgl.Marker({ element: destEl })
-      .setLngLat([destination.lng, destination.lat])
-      .setPopup(
-        new mapboxgl.Popup({ offset: 25, maxWidth: "260px" }).setHTML(
-          buildPopupHTML(destination.label, destinationPlace)
-        )
-      )
-      .addTo(map);
-    destMarkerRef.current = destMarker;
+    // Itinerary hover highlight (filled by `highlightStep`)
+    map.addSource("route-step-highlight", {
+      type: "geojson",
+      data: { type: "FeatureCollection", features: [] },
+    });
+    map.addLayer({
+      id: "route-step-highlight",
+      type: "line",
+      source: "route-step-highlight",
+      layout: { "line-join": "round", "line-cap": "round" },
+      paint: {
+        "line-color": "#ffffff",
+        "line-width": 8,
+        "line-opacity": 0.9,
+      },
+    });
 
-    // Fit bounds
-    const bounds = new mapboxgl.LngLatBounds();
-    info.geometry.coordinates.forEach((c) => bounds.extend(c as [number, number]));
-    map.fitBounds(bounds, { padding: 60, duration: 1000 });
+    // Markers — popups are filled in by the place-details effect below
+    markersRef.current = waypoints.map((w, i) =>
+      new mapboxgl.Marker({ element: markerElement(waypointLabel(i), waypointColor(i, waypoints.length)) })
+        .setLngLat([w.lng, w.lat])
+        .setPopup(new mapboxgl.Popup({ offset: 25, maxWidth: "260px" }).setHTML(buildPopupHTML(w.label, null)))
+        .addTo(map),
+    );
+
+    // Fit bounds (to every candidate) when a new set of routes arrives, not on selection
+    if (fitPendingRef.current) {
+      fitPendingRef.current = false;
+      const bounds = new mapboxgl.LngLatBounds();
+      all.forEach((r) => r.geometry.coordinates.forEach((c) => bounds.extend(c as [number, number])));
+      map.fitBounds(bounds, { padding: 60, duration: 1000 });
+    }
   };
 
-  /* ---- fetch place details for origin & destination on mount ---- */
   useEffect(() => {
-    async function fetchPlace(lat: number, lng: number, setter: (p: PlaceDetails) => void) {
-      try {
-        const res = await fetch(`/api/places?lat=${lat}&lng=${lng}`);
-        if (res.ok) {
-          const data: PlaceDetails = await res.json();
-          setter(data);
-        }
-      } catch {
-        // silently ignore; popup will show label only
-      }
-    }
-    fetchPlace(origin.lat, origin.lng, setOriginPlace);
-    fetchPlace(destination.lat, destination.lng, setDestinationPlace);
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps
+    drawRoute(routes, selectedRoute);
+  }, [routes, selectedRoute]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  /* ---- update origin popup when place details arrive ---- */
+  /* ---- elevation profile for the selected route (only while the chart is open) ---- */
   useEffect(() => {
-    const marker = originMarkerRef.current;
-    if (!marker || !originPlace) return;
-    marker.getPopup()?.setHTML(buildPopupHTML(origin.label, originPlace));
-  }, [originPlace]); // eslint-disable-line react-hooks/exhaustive-deps
+    if (!showElevation || !route || elevation?.route === route) return;
+    let cancelled = false;
+    fetch("/api/elevation", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ coordinates: route.geometry.coordinates }),
+    })
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        setElevation(
+          res.ok
+            ? { route, profile: data as ElevationProfile, error: null }
+            : { route, profile: null, error: data.error || "Elevation lookup failed." },
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setElevation({ route, profile: null, error: "Failed to fetch elevation." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showElevation, route, elevation]);
 
-  /* ---- update destination popup when place details arrive ---- */
+  /* ---- stored departure / arrival times for this route, refreshed after each fetch ---- */
   useEffect(() => {
-    const marker = destMarkerRef.current;
-    if (!marker || !destinationPlace) return;
-    marker.getPopup()?.setHTML(buildPopupHTML(destination.label, destinationPlace));
-  }, [destinationPlace]); // eslint-disable-line react-hooks/exhaustive-deps
+    if (!showSchedule || !routes.length) return;
+    let cancelled = false;
+    fetch(`/api/directions/times?${new URLSearchParams({ coordinates: waypointsKey, profile: effectiveProfile })}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { times: ScheduledTime[] } | null) => {
+        if (!cancelled && data) setScheduledTimes(data.times);
+      })
+      .catch(() => {
+        // comparison list is optional
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showSchedule, routes, waypointsKey, effectiveProfile]);
+
+  /* ---- fetch place details for each stop (once per point) ---- */
+  useEffect(() => {
+    for (const w of waypoints) {
+      if (requestedPlacesRef.current.has(w.id)) continue;
+      requestedPlacesRef.current.add(w.id);
+      fetch(`/api/places?lat=${w.lat}&lng=${w.lng}`)
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: PlaceDetails | null) => {
+          if (data) setPlaces((prev) => ({ ...prev, [w.id]: data }));
+        })
+        .catch(() => {
+          // silently ignore; popup will show label only
+        });
+    }
+  }, [waypointsKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  /* ---- update popups when place details arrive or markers are redrawn ---- */
+  useEffect(() => {
+    markersRef.current.forEach((marker, i) => {
+      const w = waypoints[i];
+      if (w) marker.getPopup()?.setHTML(buildPopupHTML(w.label, places[w.id] ?? null));
+    });
+  }, [places, routes, selectedRoute]); // eslint-disable-line react-hooks/exhaustive-deps
 
   /* ---- resize map when container size changes ---- */
   useEffect(() => {
@@ -324,6 +676,104 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
     return () => ro.disconnect();
   }, []);
 
+  /* ---- itinerary: highlight / zoom to a step ---- */
+  const highlightStep = (step: RouteStep | null) => {
+    const source = mapRef.current?.getSource("route-step-highlight") as mapboxgl.GeoJSONSource | undefined;
+    source?.setData(
+      step
+        ? { type: "Feature", properties: {}, geometry: step.geometry }
+        : { type: "FeatureCollection", features: [] },
+    );
+  };
+
+  const zoomToStep = (step: RouteStep) => {
+    const map = mapRef.current;
+    if (!map || !step.geometry.coordinates.length) return;
+    const bounds = new mapboxgl.LngLatBounds();
+    step.geometry.coordinates.forEach((c) => bounds.extend(c as [number, number]));
+    map.fitBounds(bounds, { padding: 80, maxZoom: 17, duration: 800 });
+  };
+
+  const printItinerary = () => {
+    if (!route) return;
+    const win = window.open("", "_blank");
+    if (!win) return;
+    win.document.write(buildItineraryHTML(waypoints, route, effectiveProfile));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  const downloadRoute = async (format: RouteExportFormat) => {
+    if (!route) return;
+    // Stops that are saved points carry their notes, tags and fields into the file
+    const saved: SavedPoint[] = await fetch("/api/points")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data?.points ?? [])
+      .catch(() => []);
+    const exportable: ExportableRoute = {
+      name: waypoints.map((w) => w.label).join(" → "),
+      profile: effectiveProfile,
+      distance: route.distance,
+      duration: route.duration,
+      waypoints: waypoints.map((w) =>
+        withPointDetails(
+          { label: w.label, lat: w.lat, lng: w.lng },
+          saved.find((p) => Math.abs(p.lat - w.lat) < 0.0001 && Math.abs(p.lng - w.lng) < 0.0001),
+        ),
+      ),
+      geometry: route.geometry.coordinates as [number, number][],
+      steps: route.legs.flatMap((leg) =>
+        leg.steps.map((st) => ({
+          instruction: st.instruction,
+          distance: st.distance,
+          duration: st.duration,
+          location: st.geometry.coordinates[0] as [number, number],
+        })),
+      ),
+    };
+    const { content, mimeType, filename } = exportRoute(exportable, format);
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  /* ---- elevation chart hover: track the position on the map ---- */
+  const showElevationPoint = (sample: ElevationSample | null) => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (!sample) {
+      elevationMarkerRef.current?.remove();
+      return;
+    }
+    if (!elevationMarkerRef.current) {
+      const el = document.createElement("div");
+      el.style.cssText =
+        "width:12px;height:12px;border-radius:50%;background:#fff;border:3px solid #42A5F5;box-shadow:0 0 6px rgba(0,0,0,0.6);pointer-events:none";
+      elevationMarkerRef.current = new mapboxgl.Marker({ element: el });
+    }
+    elevationMarkerRef.current.setLngLat([sample.lng, sample.lat]).addTo(map);
+  };
+
+  /* ---- reorder / remove stops ---- */
+  const moveStop = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...waypoints];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onWaypointsChange?.(next);
+  };
+
+  const removeStop = (index: number) => {
+    onWaypointsChange?.(waypoints.filter((_, i) => i !== index));
+  };
+
+  const first = waypoints[0];
+  const last = waypoints[waypoints.length - 1];
+
   /* ---- render ---- */
   return (
     <div
@@ -335,7 +785,9 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
         bottom: expanded ? 0 : 16,
         right: expanded ? 0 : 16,
         width: expanded ? "calc(100vw - 320px)" : 480,
-        height: expanded ? "100vh" : 380,
+        height: expanded
+          ? "100vh"
+          : 380 + (routes.length > 1 ? 70 : 0) + (showStops ? 140 : 0) + (showItinerary && route ? 200 : 0) + (showElevation && route ? 130 : 0) + (showSchedule ? 70 : 0),
         zIndex: expanded ? 9999 : 50,
         borderRadius: expanded ? 0 : 12,
         overflow: "hidden",
@@ -363,23 +815,71 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
         {/* Route info */}
         <div style={{ flex: 1, minWidth: 0 }}>
           <div style={{ fontSize: 12, color: "#8b949e", marginBottom: 2, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
-            <span style={{ color: "#4CAF50", fontWeight: 600 }}>A</span> {origin.label}
+            <span style={{ color: "#4CAF50", fontWeight: 600 }}>A</span> {first.label}
+            {waypoints.length > 2 && ` → ${waypoints.length - 2} stop${waypoints.length === 3 ? "" : "s"}`}
             {" → "}
-            <span style={{ color: "#F44336", fontWeight: 600 }}>B</span> {destination.label}
+            <span style={{ color: "#F44336", fontWeight: 600 }}>{waypointLabel(waypoints.length - 1)}</span> {last.label}
           </div>
           {route && (
-            <div style={{ fontSize: 13, color: "#e6edf3", fontWeight: 500 }}>
+            <div style={{ fontSize: 13, color: "#e6edf3", fontWeight: 500, display: "flex", alignItems: "center", gap: 6 }}>
               {formatDuration(route.duration)} · {formatDistance(route.distance)}
+              {cacheInfo && (
+                <span
+                  title={`Fetched from Mapbox ${new Date(cacheInfo.cachedAt).toLocaleString()}`}
+                  style={{
+                    fontSize: 10,
+                    fontWeight: 500,
+                    padding: "1px 6px",
+                    borderRadius: 4,
+                    background: cacheInfo.status === "HIT" ? "rgba(245,159,10,0.15)" : "rgba(76,175,80,0.15)",
+                    color: cacheInfo.status === "HIT" ? "#f5a524" : "#4CAF50",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {cacheInfo.status === "HIT" ? `cached ${formatAge(cacheInfo.ageSeconds)}` : "live"}
+                </span>
+              )}
+              <button
+                onClick={() => fetchRoute(true)}
+                disabled={loading}
+                title="Force refresh from Mapbox"
+                style={{
+                  fontSize: 11,
+                  lineHeight: 1,
+                  background: "transparent",
+                  color: "#8b949e",
+                  border: "none",
+                  padding: 0,
+                  cursor: loading ? "default" : "pointer",
+                }}
+              >
+                ↻
+              </button>
+            </div>
+          )}
+          {route && (schedule.departAt || schedule.arriveBy) && (
+            <div style={{ fontSize: 11, color: "#8b949e" }}>
+              {schedule.departAt
+                ? `Leave ${formatScheduleTime(schedule.departAt)} → arrive ${formatScheduleTime(schedule.departAt, route.duration)}`
+                : `Leave ${formatScheduleTime(schedule.arriveBy!, -route.duration)} → arrive by ${formatScheduleTime(schedule.arriveBy!)}`}
             </div>
           )}
           {loading && <div style={{ fontSize: 12, color: "#58a6ff" }}>Loading route…</div>}
           {error && <div style={{ fontSize: 12, color: "#f85149" }}>{error}</div>}
+          {trafficLimited && (
+            <div style={{ fontSize: 11, color: "#f5a524" }}>
+              Traffic routing supports {MAX_TRAFFIC_WAYPOINTS} stops — showing a regular driving route.
+            </div>
+          )}
         </div>
 
         {/* Profile selector */}
         <select
           value={profile}
-          onChange={(e) => setProfile(e.target.value as typeof profile)}
+          onChange={(e) => {
+            setProfile(e.target.value as RouteProfile);
+            onProfileChange?.(e.target.value as RouteProfile);
+          }}
           style={{
             fontSize: 11,
             background: "#161b22",
@@ -396,6 +896,128 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
           <option value="cycling">🚲 Cycle</option>
         </select>
 
+        {/* Departure / arrival time */}
+        <button
+          onClick={() => setShowSchedule((v) => !v)}
+          title="Plan for a departure or arrival time"
+          style={{
+            fontSize: 11,
+            background: showSchedule ? "#1f3a5f" : "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "4px 8px",
+            cursor: "pointer",
+            whiteSpace: "nowrap",
+          }}
+        >
+          🕒 {schedule.departAt ? "Depart" : schedule.arriveBy ? "Arrive" : "Now"}
+        </button>
+
+        {/* Stops list toggle */}
+        <button
+          onClick={() => setShowStops((v) => !v)}
+          title="Show stops and legs"
+          style={{
+            fontSize: 11,
+            background: showStops ? "#1f3a5f" : "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "4px 8px",
+            cursor: "pointer",
+            whiteSpace: "nowrap",
+          }}
+        >
+          📍 Stops {waypoints.length}
+        </button>
+
+        {/* Itinerary toggle */}
+        <button
+          onClick={() => setShowItinerary((v) => !v)}
+          disabled={!route}
+          title="Turn-by-turn directions"
+          style={{
+            fontSize: 11,
+            background: showItinerary && route ? "#1f3a5f" : "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "4px 8px",
+            cursor: route ? "pointer" : "default",
+            whiteSpace: "nowrap",
+          }}
+        >
+          🧭 Directions
+        </button>
+
+        {/* Elevation profile toggle */}
+        <button
+          onClick={() => setShowElevation((v) => !v)}
+          disabled={!route}
+          title="Elevation profile"
+          style={{
+            fontSize: 11,
+            background: showElevation && route ? "#1f3a5f" : "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "4px 8px",
+            cursor: route ? "pointer" : "default",
+            whiteSpace: "nowrap",
+          }}
+        >
+          ⛰ Elevation
+        </button>
+
+        {/* Download the selected route */}
+        <select
+          value=""
+          disabled={!route}
+          onChange={(e) => downloadRoute(e.target.value as RouteExportFormat)}
+          title="Download the route with its stops and directions"
+          style={{
+            fontSize: 11,
+            background: "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "4px 6px",
+            cursor: route ? "pointer" : "default",
+          }}
+        >
+          <option value="" disabled>
+            ⬇ Export
+          </option>
+          {ROUTE_EXPORT_FORMATS.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+
+        {/* Click-to-add stop */}
+        {onAddWaypoint && (
+          <button
+            onClick={() => setAddingStop((v) => !v)}
+            disabled={!canAddStop}
+            title={canAddStop ? "Click the map to add a stop" : `Routes are limited to ${MAX_WAYPOINTS} stops`}
+            style={{
+              fontSize: 11,
+              background: addingStop && canAddStop ? "#7a4f06" : "#161b22",
+              color: "#c9d1d9",
+              border: "1px solid rgba(255,255,255,0.1)",
+              borderRadius: 6,
+              padding: "4px 8px",
+              cursor: canAddStop ? "pointer" : "default",
+              opacity: canAddStop ? 1 : 0.5,
+              whiteSpace: "nowrap",
+            }}
+          >
+            ＋ Stop
+          </button>
+        )}
+
         {/* Traffic toggle */}
         <button
           onClick={() => setTrafficVisible((v) => !v)}
@@ -449,6 +1071,321 @@ export default function MapboxRouteMap({ origin, destination, mapboxToken, onClo
         </button>
       </div>
 
+      {/* Alternatives — side-by-side comparison, click to promote */}
+      {routes.length > 1 && (
+        <div
+          style={{
+            display: "flex",
+            gap: 6,
+            padding: "6px 12px",
+            background: "rgba(13,17,23,0.95)",
+            borderBottom: "1px solid rgba(255,255,255,0.08)",
+            flexShrink: 0,
+          }}
+        >
+          {routes.map((r, i) => {
+            const fastest = Math.min(...routes.map((x) => x.duration));
+            const breakdown = congestionBreakdown(r);
+            const selected = i === selectedRoute;
+            return (
+              <button
+                key={i}
+                onClick={() => setSelectedRoute(i)}
+                title={r.summary ? `via ${r.summary}` : undefined}
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  textAlign: "left",
+                  background: selected ? "rgba(66,165,245,0.12)" : "#161b22",
+                  border: `1px solid ${selected ? "#42A5F5" : "rgba(255,255,255,0.1)"}`,
+                  borderRadius: 6,
+                  padding: "4px 6px",
+                  cursor: selected ? "default" : "pointer",
+                  color: "#c9d1d9",
+                }}
+              >
+                <div style={{ fontSize: 10, color: selected ? "#42A5F5" : "#8b949e", whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                  Route {i + 1}
+                  {r.summary && ` · ${r.summary}`}
+                </div>
+                <div style={{ fontSize: 12, fontWeight: 500, color: "#e6edf3" }}>
+                  {formatDuration(r.duration)}
+                  {r.duration > fastest && (
+                    <span style={{ fontSize: 10, color: "#f85149", marginLeft: 4 }}>
+                      +{formatDuration(r.duration - fastest)}
+                    </span>
+                  )}
+                </div>
+                <div style={{ fontSize: 10, color: "#8b949e", whiteSpace: "nowrap" }}>{formatDistance(r.distance)}</div>
+                {breakdown && (
+                  <div
+                    title={Object.entries(breakdown)
+                      .map(([level, share]) => `${level} ${Math.round(share * 100)}%`)
+                      .join(" · ")}
+                    style={{ display: "flex", height: 4, borderRadius: 2, overflow: "hidden", marginTop: 3 }}
+                  >
+                    {Object.keys(CONGESTION_COLORS)
+                      .filter((level) => breakdown[level])
+                      .map((level) => (
+                        <span key={level} style={{ width: `${breakdown[level] * 100}%`, background: CONGESTION_COLORS[level] }} />
+                      ))}
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Schedule — leave now, depart at or arrive by; stored times for comparison */}
+      {showSchedule && (
+        <div
+          style={{
+            padding: "6px 12px",
+            background: "rgba(13,17,23,0.95)",
+            borderBottom: "1px solid rgba(255,255,255,0.08)",
+            flexShrink: 0,
+            display: "flex",
+            flexDirection: "column",
+            gap: 6,
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: 6 }}>
+            {(
+              [
+                ["now", "Leave now"],
+                ["depart", "Depart at"],
+                ["arrive", "Arrive by"],
+              ] as const
+            ).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setScheduleMode(mode)}
+                style={{
+                  fontSize: 11,
+                  background: scheduleMode === mode ? "#1f3a5f" : "#161b22",
+                  color: "#c9d1d9",
+                  border: "1px solid rgba(255,255,255,0.1)",
+                  borderRadius: 6,
+                  padding: "3px 8px",
+                  cursor: "pointer",
+                }}
+              >
+                {label}
+              </button>
+            ))}
+            {scheduleMode !== "now" && (
+              <input
+                type="datetime-local"
+                value={scheduleTime}
+                onChange={(e) => setScheduleTime(e.target.value)}
+                style={{
+                  fontSize: 11,
+                  background: "#161b22",
+                  color: "#c9d1d9",
+                  border: "1px solid rgba(255,255,255,0.1)",
+                  borderRadius: 6,
+                  padding: "2px 6px",
+                  colorScheme: "dark",
+                }}
+              />
+            )}
+          </div>
+          {arriveLimited && (
+            <div style={{ fontSize: 11, color: "#f5a524" }}>
+              Arrive-by planning uses typical traffic — showing a regular driving route.
+            </div>
+          )}
+          {scheduleIgnored && (
+            <div style={{ fontSize: 11, color: "#f5a524" }}>
+              Departure and arrival times apply to driving routes only.
+            </div>
+          )}
+          {scheduledTimes.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 4, fontSize: 11, color: "#8b949e" }}>
+              Compare:
+              {scheduledTimes.map((t) => {
+                const time = (t.departAt ?? t.arriveBy)!;
+                const active = time === (schedule.departAt ?? schedule.arriveBy);
+                return (
+                  <button
+                    key={`${t.departAt}|${t.arriveBy}`}
+                    onClick={() => {
+                      setScheduleMode(t.departAt ? "depart" : "arrive");
+                      setScheduleTime(time);
+                    }}
+                    title={`Fetched ${new Date(t.fetchedAt).toLocaleString()}`}
+                    style={{
+                      fontSize: 11,
+                      background: active ? "#1f3a5f" : "rgba(255,255,255,0.04)",
+                      color: "#c9d1d9",
+                      border: "1px solid rgba(255,255,255,0.1)",
+                      borderRadius: 10,
+                      padding: "1px 8px",
+                      cursor: "pointer",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {t.departAt ? "dep" : "arr"} {formatScheduleTime(time)} · {formatDuration(t.duration)}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Stops & legs — drag a row to reorder */}
+      {showStops && (
+        <div
+          style={{
+            maxHeight: 160,
+            overflowY: "auto",
+            padding: "4px 0",
+            background: "rgba(13,17,23,0.95)",
+            borderBottom: "1px solid rgba(255,255,255,0.08)",
+            flexShrink: 0,
+          }}
+        >
+          {waypoints.map((w, i) => {
+            const leg = route?.legs[i];
+            return (
+              <div
+                key={`${w.id}-${i}`}
+                draggable={!!onWaypointsChange}
+                onDragStart={() => setDragIndex(i)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) moveStop(dragIndex, i);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => setDragIndex(null)}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 8,
+                  padding: "3px 12px",
+                  fontSize: 12,
+                  color: "#c9d1d9",
+                  cursor: onWaypointsChange ? "grab" : "default",
+                  opacity: dragIndex === i ? 0.4 : 1,
+                }}
+              >
+                <span style={{ color: "#484f58" }}>⋮⋮</span>
+                <span style={{ color: waypointColor(i, waypoints.length), fontWeight: 700, width: 14 }}>
+                  {waypointLabel(i)}
+                </span>
+                <span style={{ flex: 1, minWidth: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+                  {w.label}
+                </span>
+                {leg && i < waypoints.length - 1 && (
+                  <span
+                    title={leg.summary ? `via ${leg.summary}` : undefined}
+                    style={{ fontSize: 11, color: "#8b949e", whiteSpace: "nowrap" }}
+                  >
+                    → {formatDuration(leg.duration)} · {formatDistance(leg.distance)}
+                  </span>
+                )}
+                {onWaypointsChange && waypoints.length > 2 && (
+                  <button
+                    onClick={() => removeStop(i)}
+                    title="Remove stop"
+                    style={{ fontSize: 11, background: "transparent", color: "#f85149", border: "none", padding: 0, cursor: "pointer" }}
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Elevation profile — hover to follow the route on the map */}
+      {showElevation && route && (
+        <div
+          style={{
+            height: 130,
+            padding: "4px 12px 6px",
+            background: "rgba(13,17,23,0.95)",
+            borderBottom: "1px solid rgba(255,255,255,0.08)",
+            flexShrink: 0,
+          }}
+        >
+          {elevationLoading ? (
+            <div style={{ fontSize: 12, color: "#8b949e", padding: "8px 0" }}>Sampling terrain…</div>
+          ) : elevation?.error ? (
+            <div style={{ fontSize: 12, color: "#f85149", padding: "8px 0" }}>{elevation.error}</div>
+          ) : elevation?.profile ? (
+            <>
+              <div style={{ display: "flex", gap: 12, fontSize: 11, color: "#8b949e", marginBottom: 4 }}>
+                <span style={{ color: "#3fb950" }}>↑ {elevation.profile.ascent} m</span>
+                <span style={{ color: "#f85149" }}>↓ {elevation.profile.descent} m</span>
+                <span>Max grade {elevation.profile.maxGrade > 0 ? "+" : ""}{elevation.profile.maxGrade}%</span>
+                <span>
+                  {Math.round(elevation.profile.minElevation)}–{Math.round(elevation.profile.maxElevation)} m
+                </span>
+              </div>
+              <ElevationChart profile={elevation.profile} onHover={showElevationPoint} />
+            </>
+          ) : null}
+        </div>
+      )}
+
+      {/* Turn-by-turn itinerary — hover a step to highlight it, click to zoom */}
+      {showItinerary && route && (
+        <div
+          style={{
+            maxHeight: 200,
+            overflowY: "auto",
+            background: "rgba(13,17,23,0.95)",
+            borderBottom: "1px solid rgba(255,255,255,0.08)",
+            flexShrink: 0,
+          }}
+          onMouseLeave={() => highlightStep(null)}
+        >
+          <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", padding: "4px 12px", fontSize: 11, color: "#8b949e" }}>
+            <span>
+              {route.legs.reduce((n, l) => n + l.steps.length, 0)} steps · {formatDuration(route.duration)} ·{" "}
+              {formatDistance(route.distance)}
+            </span>
+            <button
+              onClick={printItinerary}
+              title="Open a printable itinerary (print or save as PDF)"
+              style={{ fontSize: 11, background: "transparent", color: "#58a6ff", border: "none", padding: 0, cursor: "pointer" }}
+            >
+              🖨 Print
+            </button>
+          </div>
+          {route.legs.map((leg, li) => (
+            <div key={li}>
+              {route.legs.length > 1 && (
+                <div style={{ padding: "2px 12px", fontSize: 10, fontWeight: 600, color: "#8b949e", textTransform: "uppercase", letterSpacing: "0.05em" }}>
+                  {waypointLabel(li)} → {waypointLabel(li + 1)} · {waypoints[li + 1]?.label}
+                </div>
+              )}
+              {leg.steps.map((step, si) => (
+                <div
+                  key={si}
+                  onMouseEnter={() => highlightStep(step)}
+                  onClick={() => zoomToStep(step)}
+                  className="hover:bg-white/5"
+                  style={{ display: "flex", alignItems: "baseline", gap: 8, padding: "3px 12px", fontSize: 12, color: "#c9d1d9", cursor: "pointer" }}
+                >
+                  <span style={{ width: 14, textAlign: "center", color: "#42A5F5" }}>{maneuverIcon(step.type, step.modifier)}</span>
+                  <span style={{ flex: 1, minWidth: 0 }}>{step.instruction}</span>
+                  {step.distance > 0 && (
+                    <span style={{ fontSize: 11, color: "#8b949e", whiteSpace: "nowrap" }}>
+                      {formatStepDistance(step.distance)} · {formatDuration(step.duration)}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Legend */}
       <div
         style={{
@@ -537,6 +1474,52 @@ function buildPopupHTML(label: string, place: PlaceDetails | null): string {
     </div>`;
 }
 
+/* ---- printable itinerary ---- */
+function buildItineraryHTML(waypoints: Coordinate[], route: RouteInfo, profile: string): string {
+  const esc = (t: string) => t.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const legsHtml = route.legs
+    .map((leg, li) => {
+      const rows = leg.steps
+        .map(
+          (step, si) => `<tr>
+            <td class="n">${si + 1}</td>
+            <td class="i">${maneuverIcon(step.type, step.modifier)}</td>
+            <td>${esc(step.instruction)}</td>
+            <td class="d">${step.distance > 0 ? `${formatStepDistance(step.distance)}<br/>${formatDuration(step.duration)}` : ""}</td>
+          </tr>`,
+        )
+        .join("");
+      return `<h2>${waypointLabel(li)} ${esc(waypoints[li]?.label ?? "")} → ${waypointLabel(li + 1)} ${esc(waypoints[li + 1]?.label ?? "")}</h2>
+        <p class="meta">${formatDuration(leg.duration)} · ${formatDistance(leg.distance)}${leg.summary ? ` · via ${esc(leg.summary)}` : ""}</p>
+        <table>${rows}</table>`;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>Directions: ${esc(waypoints.map((w) => w.label).join(" → "))}</title>
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; color: #1a1a1a; margin: 24px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    h2 { font-size: 14px; margin: 20px 0 2px; }
+    .meta { font-size: 12px; color: #555; margin: 0 0 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    td { padding: 5px 6px; border-bottom: 1px solid #e5e5e5; vertical-align: top; }
+    td.n { width: 24px; color: #888; }
+    td.i { width: 20px; text-align: center; }
+    td.d { width: 80px; text-align: right; color: #555; white-space: nowrap; }
+  </style>
+</head>
+<body>
+  <h1>${esc(waypoints.map((w) => w.label).join(" → "))}</h1>
+  <p class="meta">${formatDuration(route.duration)} · ${formatDistance(route.distance)} · ${esc(profile)} · ${new Date().toLocaleString()}</p>
+  ${legsHtml}
+</body>
+</html>`;
+}
+
 /* ---- marker element builder ---- */
 function markerElement(letter: string, color: string): HTMLDivElement {
   const el = document.createElement("div");
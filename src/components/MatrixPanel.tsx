@@ -0,0 +1,259 @@
+"use client";
+
+import { useState } from "react";
+import { Box, Text, Button, Flex, ScrollArea, Badge, SegmentedControl } from "@radix-ui/themes";
+import { TableIcon, ReloadIcon } from "@radix-ui/react-icons";
+import type { Coordinate, TravelMatrix } from "@/lib/types";
+import { encodeWaypoints } from "@/lib/routing";
+
+/* ── helpers ── */
+
+type Metric = "durations" | "distances";
+
+const PROFILES = [
+  { id: "driving-traffic", label: "🚗 Drive (traffic)" },
+  { id: "driving", label: "🚗 Drive" },
+  { id: "walking", label: "🚶 Walk" },
+  { id: "cycling", label: "🚲 Cycle" },
+];
+
+function formatCell(value: number | null, metric: Metric) {
+  if (value === null) return "–";
+  if (metric === "distances") return value >= 10_000 ? `${Math.round(value / 1000)}` : (value / 1000).toFixed(1);
+  const m = Math.round(value / 60);
+  return m >= 60 ? `${Math.floor(m / 60)}h${String(m % 60).padStart(2, "0")}` : `${m}m`;
+}
+
+function formatFull(duration: number | null, distance: number | null) {
+  if (duration === null || distance === null) return "no route";
+  const m = Math.round(duration / 60);
+  const time = m >= 60 ? `${Math.floor(m / 60)}h ${m % 60}m` : `${m} min`;
+  return `${time} · ${(distance / 1000).toFixed(1)} km`;
+}
+
+/** Sum of a row, ignoring the diagonal and unreachable cells */
+function rowTotal(row: (number | null)[], from: number) {
+  return row.reduce<number>((sum, v, to) => (to === from || v === null ? sum : sum + v), 0);
+}
+
+/* ── component ── */
+
+/**
+ * Travel time / distance between every pair of points, computed by
+ * `/api/directions/matrix`. Click a column header to sort the rows by it,
+ * click a cell to open that route on the map.
+ */
+export default function MatrixPanel({
+  coordinates,
+  onOpenRoute,
+}: {
+  coordinates: Coordinate[];
+  onOpenRoute?: (from: Coordinate, to: Coordinate) => void;
+}) {
+  const [profile, setProfile] = useState("driving");
+  const [metric, setMetric] = useState<Metric>("durations");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{
+    key: string;
+    points: Coordinate[];
+    matrix: TravelMatrix & { cache?: { status: "HIT" | "MISS" } };
+  } | null>(null);
+  const [sort, setSort] = useState<{ column: number | "total"; dir: 1 | -1 } | null>(null);
+
+  const key = `${profile}|${encodeWaypoints(coordinates)}`;
+  const stale = !!result && result.key !== key;
+
+  const compute = async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/directions/matrix", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ points: coordinates, profile, refresh }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Matrix request failed.");
+        return;
+      }
+      setResult({ key, points: coordinates, matrix: data });
+      setSort(null);
+    } catch {
+      setError("Matrix request failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleSort = (column: number | "total") => {
+    setSort((prev) =>
+      prev?.column === column ? (prev.dir === 1 ? { column, dir: -1 } : null) : { column, dir: 1 },
+    );
+  };
+
+  const table = result?.matrix[metric];
+  const rows = result ? result.points.map((_, i) => i) : [];
+  if (table && sort) {
+    const value = (i: number) => (sort.column === "total" ? rowTotal(table[i], i) : table[i][sort.column]);
+    rows.sort((a, b) => {
+      // Diagonal and unreachable cells always sink to the bottom
+      const va = sort.column === a ? null : value(a);
+      const vb = sort.column === b ? null : value(b);
+      if (va === null || vb === null) return va === null ? (vb === null ? 0 : 1) : -1;
+      return (va - vb) * sort.dir;
+    });
+  }
+  const max = table ? Math.max(1, ...table.flat().filter((v): v is number => v !== null)) : 1;
+  const arrow = (column: number | "total") => (sort?.column === column ? (sort.dir === 1 ? " ▲" : " ▼") : "");
+
+  return (
+    <Flex direction="column" gap="2" mt="2">
+      <Flex gap="2" align="center">
+        <select
+          value={profile}
+          onChange={(e) => setProfile(e.target.value)}
+          style={{
+            flex: 1,
+            fontSize: 12,
+            background: "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "5px 8px",
+          }}
+        >
+          {PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+        <Button variant="soft" color="amber" size="1" disabled={loading} onClick={() => compute(!!result && !stale)}>
+          {result && !stale ? <ReloadIcon /> : <TableIcon />}
+          {loading ? "Computing…" : result && !stale ? "Refresh" : "Compute"}
+        </Button>
+      </Flex>
+
+      {error && (
+        <Text size="1" color="red" as="p">
+          {error}
+        </Text>
+      )}
+
+      {result && table && (
+        <>
+          <Flex align="center" justify="between" gap="2">
+            <SegmentedControl.Root size="1" value={metric} onValueChange={(v) => setMetric(v as Metric)}>
+              <SegmentedControl.Item value="durations">Time</SegmentedControl.Item>
+              <SegmentedControl.Item value="distances">km</SegmentedControl.Item>
+            </SegmentedControl.Root>
+            <Flex gap="1">
+              {result.matrix.metric === "straight-line" && (
+                <Badge size="1" color="gray" variant="soft" title="Great-circle distances; times estimated from an average speed">
+                  straight-line
+                </Badge>
+              )}
+              {result.matrix.cache?.status === "HIT" && (
+                <Badge size="1" color="amber" variant="soft">
+                  cached
+                </Badge>
+              )}
+            </Flex>
+          </Flex>
+
+          {stale && (
+            <Text size="1" color="amber" as="p">
+              Points or profile changed — compute again to update.
+            </Text>
+          )}
+
+          <ScrollArea scrollbars="both" style={{ maxHeight: 260 }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 11, fontVariantNumeric: "tabular-nums" }}>
+              <thead>
+                <tr>
+                  <th style={{ position: "sticky", left: 0, background: "var(--color-panel-solid)" }} />
+                  {result.points.map((p, j) => (
+                    <th
+                      key={j}
+                      title={`Sort by ${metric === "durations" ? "time" : "distance"} to ${p.label}`}
+                      onClick={() => toggleSort(j)}
+                      style={{ padding: "2px 6px", color: "var(--gray-11)", cursor: "pointer", whiteSpace: "nowrap" }}
+                    >
+                      {j + 1}
+                      {arrow(j)}
+                    </th>
+                  ))}
+                  <th
+                    title="Sort by total to every other point"
+                    onClick={() => toggleSort("total")}
+                    style={{ padding: "2px 6px", color: "var(--amber-11)", cursor: "pointer", whiteSpace: "nowrap" }}
+                  >
+                    Σ{arrow("total")}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((i) => (
+                  <tr key={i}>
+                    <th
+                      title={result.points[i].label}
+                      style={{
+                        position: "sticky",
+                        left: 0,
+                        background: "var(--color-panel-solid)",
+                        padding: "2px 6px",
+                        textAlign: "left",
+                        fontWeight: 500,
+                        maxWidth: 90,
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        whiteSpace: "nowrap",
+                      }}
+                    >
+                      {i + 1}. {result.points[i].label}
+                    </th>
+                    {table[i].map((v, j) => (
+                      <td
+                        key={j}
+                        title={
+                          i === j
+                            ? undefined
+                            : `${result.points[i].label} → ${result.points[j].label}: ${formatFull(
+                                result.matrix.durations[i][j],
+                                result.matrix.distances[i][j],
+                              )}`
+                        }
+                        onClick={i !== j && onOpenRoute ? () => onOpenRoute(result.points[i], result.points[j]) : undefined}
+                        style={{
+                          padding: "2px 6px",
+                          textAlign: "right",
+                          whiteSpace: "nowrap",
+                          color: i === j ? "var(--gray-8)" : "var(--gray-12)",
+                          // Heat shading: darker amber = further
+                          background: i === j || v === null ? undefined : `rgba(245,159,10,${((v / max) * 0.35).toFixed(2)})`,
+                          cursor: i !== j && onOpenRoute ? "pointer" : undefined,
+                        }}
+                      >
+                        {i === j ? "·" : formatCell(v, metric)}
+                      </td>
+                    ))}
+                    <td style={{ padding: "2px 6px", textAlign: "right", whiteSpace: "nowrap", color: "var(--amber-11)" }}>
+                      {formatCell(rowTotal(table[i], i), metric)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+          <Box>
+            <Text size="1" color="gray" as="p">
+              Rows are origins, columns destinations.{onOpenRoute ? " Click a cell to open that route." : ""}
+            </Text>
+          </Box>
+        </>
+      )}
+    </Flex>
+  );
+}
@@ -13,6 +13,8 @@ import {
   ScrollArea,
   Tooltip,
   Badge,
+  SegmentedControl,
+  TextArea,
 } from "@radix-ui/themes";
 import {
   Cross2Icon,
@@ -23,8 +25,39 @@ import {
   GlobeIcon,
   ExternalLinkIcon,
   CheckIcon,
+  TargetIcon,
+  ReaderIcon,
+  PlusIcon,
 } from "@radix-ui/react-icons";
-import type { Coordinate, PlaceDetails } from "@/lib/types";
+import type { Coordinate, Isochrone, PlaceDetails, SavedPoint } from "@/lib/types";
+import {
+  ISOCHRONE_PROFILES,
+  CONTOUR_CHOICES,
+  DEFAULT_CONTOUR_MINUTES,
+  MAX_CONTOURS,
+  contourColor,
+} from "@/lib/isochrone";
+
+/** Editable copy of a saved point's notes, tags and custom fields */
+interface DetailsDraft {
+  key: string; // "lat,lng" the draft was loaded for
+  saved: boolean; // false = not in saved_points, nothing to edit yet
+  notes: string;
+  tags: string[];
+  fields: [string, string][];
+  dirty: boolean;
+}
+
+function draftFrom(key: string, point: SavedPoint | null): DetailsDraft {
+  return {
+    key,
+    saved: !!point,
+    notes: point?.notes ?? "",
+    tags: point?.tags ?? [],
+    fields: Object.entries(point?.attributes ?? {}),
+    dirty: false,
+  };
+}
 
 interface PointDetailPaneProps {
   coordinate: Coordinate;
@@ -33,6 +66,13 @@ interface PointDetailPaneProps {
   onRename: (id: string, newLabel: string) => void;
   googleMapsApiKey?: string;
   onSaved?: () => void;
+  /** Called with the new row after "Save to Quick Presets" */
+  onPresetSaved?: (point: SavedPoint) => void;
+  /** Change to re-read the saved point (e.g. after an undo deleted it) */
+  refreshKey?: unknown;
+  /** Reachability polygons currently shown on the maps (for any point) */
+  isochrone?: Isochrone | null;
+  onIsochrone?: (iso: Isochrone | null) => void;
 }
 
 export default function PointDetailPane({
@@ -42,6 +82,10 @@ export default function PointDetailPane({
   onRename,
   googleMapsApiKey,
   onSaved,
+  onPresetSaved,
+  refreshKey,
+  isochrone = null,
+  onIsochrone,
 }: PointDetailPaneProps) {
   const [placeDetails, setPlaceDetails] = useState<PlaceDetails | null>(null);
   const [loading, setLoading] = useState(true);
@@ -49,6 +93,18 @@ export default function PointDetailPane({
   const [editLabel, setEditLabel] = useState(coordinate.label);
   const [saved, setSaved] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [isoProfile, setIsoProfile] = useState<string>(ISOCHRONE_PROFILES[0].id);
+  const [isoMinutes, setIsoMinutes] = useState<number[]>(DEFAULT_CONTOUR_MINUTES);
+  const [isoLoading, setIsoLoading] = useState(false);
+  const [isoError, setIsoError] = useState<string | null>(null);
+  const isoActive = isochrone?.pointId === coordinate.id;
+  const [details, setDetails] = useState<DetailsDraft | null>(null);
+  const [detailsVersion, setDetailsVersion] = useState(0);
+  const [tagInput, setTagInput] = useState("");
+  const [detailsSaving, setDetailsSaving] = useState(false);
+  const [detailsError, setDetailsError] = useState<string | null>(null);
+  const detailsKey = `${coordinate.lat},${coordinate.lng}`;
+  const draft = details?.key === detailsKey ? details : null;
 
   // Fetch place details when coordinate changes
   useEffect(() => {
@@ -67,6 +123,64 @@ export default function PointDetailPane({
       .finally(() => setLoading(false));
   }, [coordinate.lat, coordinate.lng, coordinate.label]);
 
+  // Notes / tags / fields of the matching saved point, if there is one
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/points?lat=${coordinate.lat}&lng=${coordinate.lng}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (cancelled || !data) return;
+        setDetails(draftFrom(detailsKey, data.point));
+        setSaved(!!data.point);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [coordinate.lat, coordinate.lng, detailsKey, detailsVersion, refreshKey]);
+
+  const editDetails = (change: Partial<Omit<DetailsDraft, "key" | "saved" | "dirty">>) => {
+    setDetails((prev) => (prev ? { ...prev, ...change, dirty: true } : prev));
+  };
+
+  const addTag = () => {
+    const tag = tagInput.trim().replace(/^#/, "");
+    if (draft && tag && !draft.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      editDetails({ tags: [...draft.tags, tag] });
+    }
+    setTagInput("");
+  };
+
+  const handleSaveDetails = async () => {
+    if (!draft) return;
+    setDetailsSaving(true);
+    setDetailsError(null);
+    try {
+      const res = await fetch("/api/points", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lat: coordinate.lat,
+          lng: coordinate.lng,
+          notes: draft.notes,
+          tags: draft.tags,
+          attributes: Object.fromEntries(draft.fields.filter(([k]) => k.trim())),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setDetailsError(data?.error ?? "Failed to save details.");
+        return;
+      }
+      setDetailsVersion((v) => v + 1);
+      onSaved?.();
+    } catch {
+      setDetailsError("Failed to save details.");
+    } finally {
+      setDetailsSaving(false);
+    }
+  };
+
   const handleRename = async () => {
     const trimmed = editLabel.trim();
     if (!trimmed) return;
@@ -94,7 +208,7 @@ export default function PointDetailPane({
   const handleSave = async () => {
     setSaving(true);
     try {
-      await fetch("/api/points", {
+      const res = await fetch("/api/points", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -104,8 +218,25 @@ export default function PointDetailPane({
           color: coordinate.color,
         }),
       });
+      const data = await res.json();
       setSaved(true);
+      setDetailsVersion((v) => v + 1);
       onSaved?.();
+      if (res.ok) {
+        const now = new Date().toISOString();
+        onPresetSaved?.({
+          id: data.id,
+          label: coordinate.label,
+          lat: coordinate.lat,
+          lng: coordinate.lng,
+          color: coordinate.color ?? null,
+          notes: null,
+          tags: [],
+          attributes: {},
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
     } catch {
       // silent
     } finally {
@@ -113,6 +244,49 @@ export default function PointDetailPane({
     }
   };
 
+  const toggleIsoMinutes = (m: number) => {
+    setIsoMinutes((prev) =>
+      prev.includes(m)
+        ? prev.filter((x) => x !== m)
+        : prev.length < MAX_CONTOURS
+          ? [...prev, m].sort((a, b) => a - b)
+          : prev,
+    );
+  };
+
+  const handleShowIsochrone = async () => {
+    if (!onIsochrone || isoMinutes.length === 0) return;
+    setIsoLoading(true);
+    setIsoError(null);
+    try {
+      const params = new URLSearchParams({
+        lat: String(coordinate.lat),
+        lng: String(coordinate.lng),
+        profile: isoProfile,
+        minutes: isoMinutes.join(","),
+      });
+      const res = await fetch(`/api/isochrone?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setIsoError(data.error ?? "Isochrone request failed.");
+        return;
+      }
+      onIsochrone({
+        pointId: coordinate.id,
+        label: coordinate.label,
+        lat: coordinate.lat,
+        lng: coordinate.lng,
+        profile: isoProfile,
+        minutes: isoMinutes,
+        polygons: { type: "FeatureCollection", features: data.features },
+      });
+    } catch {
+      setIsoError("Isochrone request failed.");
+    } finally {
+      setIsoLoading(false);
+    }
+  };
+
   const handleFocus = () => {
     onFocus(coordinate);
   };
@@ -316,6 +490,83 @@ export default function PointDetailPane({
 
           <Separator size="4" />
 
+          {/* Reachability (isochrones) */}
+          {onIsochrone && (
+            <>
+              <Box>
+                <Flex align="center" gap="1" mb="2">
+                  <TargetIcon width={12} height={12} style={{ color: "var(--gray-11)" }} />
+                  <Text size="1" color="gray" weight="medium" style={{ textTransform: "uppercase", letterSpacing: "0.08em" }}>
+                    Reachability
+                  </Text>
+                </Flex>
+
+                <Flex direction="column" gap="2">
+                  <SegmentedControl.Root size="1" value={isoProfile} onValueChange={setIsoProfile}>
+                    {ISOCHRONE_PROFILES.map((p) => (
+                      <SegmentedControl.Item key={p.id} value={p.id}>
+                        {p.label}
+                      </SegmentedControl.Item>
+                    ))}
+                  </SegmentedControl.Root>
+
+                  <Flex wrap="wrap" gap="1">
+                    {CONTOUR_CHOICES.map((m) => {
+                      const on = isoMinutes.includes(m);
+                      return (
+                        <Badge
+                          key={m}
+                          size="1"
+                          variant={on ? "solid" : "outline"}
+                          color="gray"
+                          style={{
+                            cursor: "pointer",
+                            ...(on ? { background: contourColor(m, isoMinutes), color: "#111" } : {}),
+                          }}
+                          onClick={() => toggleIsoMinutes(m)}
+                        >
+                          {m} min
+                        </Badge>
+                      );
+                    })}
+                  </Flex>
+
+                  <Flex gap="2">
+                    <Button
+                      variant="soft"
+                      color="amber"
+                      size="1"
+                      style={{ flex: 1 }}
+                      disabled={isoLoading || isoMinutes.length === 0}
+                      onClick={handleShowIsochrone}
+                    >
+                      <TargetIcon />
+                      {isoLoading ? "Loading…" : isoActive ? "Update reachability" : "Show reachable area"}
+                    </Button>
+                    {isoActive && (
+                      <Button variant="soft" color="gray" size="1" onClick={() => onIsochrone(null)}>
+                        Clear
+                      </Button>
+                    )}
+                  </Flex>
+
+                  {isoError && (
+                    <Text size="1" color="red" as="p">
+                      {isoError}
+                    </Text>
+                  )}
+                  {!isoError && (
+                    <Text size="1" color="gray" as="p">
+                      Up to {MAX_CONTOURS} contours. Shown on the Map view and the route overlay.
+                    </Text>
+                  )}
+                </Flex>
+              </Box>
+
+              <Separator size="4" />
+            </>
+          )}
+
           {/* Edit Label */}
           <Box>
             <Flex align="center" gap="1" mb="2">
@@ -386,6 +637,125 @@ export default function PointDetailPane({
 
           <Separator size="4" />
 
+          {/* Notes, tags & custom fields (saved points only) */}
+          <Box>
+            <Flex align="center" gap="1" mb="2">
+              <ReaderIcon width={12} height={12} style={{ color: "var(--gray-11)" }} />
+              <Text size="1" color="gray" weight="medium" style={{ textTransform: "uppercase", letterSpacing: "0.08em" }}>
+                Notes &amp; Tags
+              </Text>
+            </Flex>
+
+            {!draft ? (
+              <Text size="1" color="gray" as="p">
+                Loading…
+              </Text>
+            ) : !draft.saved ? (
+              <Text size="1" color="gray" as="p">
+                Save this point to add notes, tags and custom fields.
+              </Text>
+            ) : (
+              <Flex direction="column" gap="2">
+                <TextArea
+                  size="1"
+                  rows={3}
+                  placeholder="Notes"
+                  value={draft.notes}
+                  onChange={(e) => editDetails({ notes: e.target.value })}
+                />
+
+                <Flex wrap="wrap" gap="1" align="center">
+                  {draft.tags.map((t) => (
+                    <Badge key={t} size="1" variant="soft" color="amber">
+                      #{t}
+                      <Cross2Icon
+                        width={10}
+                        height={10}
+                        style={{ cursor: "pointer" }}
+                        onClick={() => editDetails({ tags: draft.tags.filter((x) => x !== t) })}
+                      />
+                    </Badge>
+                  ))}
+                  <TextField.Root
+                    size="1"
+                    placeholder="Add tag"
+                    value={tagInput}
+                    onChange={(e) => setTagInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter" || e.key === ",") {
+                        e.preventDefault();
+                        addTag();
+                      }
+                    }}
+                    onBlur={addTag}
+                    style={{ width: 90 }}
+                  />
+                </Flex>
+
+                {draft.fields.map(([key, value], i) => (
+                  <Flex key={i} gap="1" align="center">
+                    <TextField.Root
+                      size="1"
+                      placeholder="Field"
+                      value={key}
+                      onChange={(e) =>
+                        editDetails({ fields: draft.fields.map((f, j) => (j === i ? [e.target.value, f[1]] : f)) })
+                      }
+                      style={{ width: 96 }}
+                    />
+                    <TextField.Root
+                      size="1"
+                      placeholder="Value"
+                      value={value}
+                      onChange={(e) =>
+                        editDetails({ fields: draft.fields.map((f, j) => (j === i ? [f[0], e.target.value] : f)) })
+                      }
+                      style={{ flex: 1 }}
+                    />
+                    <IconButton
+                      variant="ghost"
+                      color="gray"
+                      size="1"
+                      onClick={() => editDetails({ fields: draft.fields.filter((_, j) => j !== i) })}
+                    >
+                      <Cross2Icon />
+                    </IconButton>
+                  </Flex>
+                ))}
+
+                <Flex gap="2">
+                  <Button
+                    variant="ghost"
+                    color="gray"
+                    size="1"
+                    onClick={() => editDetails({ fields: [...draft.fields, ["", ""]] })}
+                  >
+                    <PlusIcon /> Add field
+                  </Button>
+                  <Box flexGrow="1" />
+                  <Button
+                    variant="soft"
+                    color="amber"
+                    size="1"
+                    disabled={!draft.dirty || detailsSaving}
+                    onClick={handleSaveDetails}
+                  >
+                    <CheckIcon />
+                    {detailsSaving ? "Saving…" : draft.dirty ? "Save details" : "Saved"}
+                  </Button>
+                </Flex>
+
+                {detailsError && (
+                  <Text size="1" color="red" as="p">
+                    {detailsError}
+                  </Text>
+                )}
+              </Flex>
+            )}
+          </Box>
+
+          <Separator size="4" />
+
           {/* Action Buttons */}
           <Flex direction="column" gap="2">
             <Button
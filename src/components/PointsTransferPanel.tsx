@@ -0,0 +1,256 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Box, Text, Button, Flex, ScrollArea, Badge, SegmentedControl, Tooltip } from "@radix-ui/themes";
+import { UploadIcon, Cross2Icon } from "@radix-ui/react-icons";
+import type { PointImportRow, PointImportStatus } from "@/lib/types";
+import { POINT_EXPORT_FORMATS } from "@/lib/exporters";
+
+/* ── helpers ── */
+
+interface ImportResponse {
+  format: string;
+  rows: PointImportRow[];
+  summary: { total: number; new: number; duplicates: number; invalid: number };
+  imported?: { added: number; updated: number; skipped: number };
+}
+
+type Duplicates = "skip" | "update";
+
+const STATUS_COLOR: Record<PointImportStatus, "green" | "amber" | "red"> = {
+  new: "green",
+  duplicate: "amber",
+  invalid: "red",
+};
+
+const STATUS_LABEL: Record<PointImportStatus, string> = {
+  new: "New",
+  duplicate: "Duplicate",
+  invalid: "Invalid",
+};
+
+const ACCEPT = ".geojson,.json,.kml,.gpx,.csv,.tsv,.txt,.xlsx";
+
+/** Preview (or, with `duplicates`, commit) an import; resolves to the response or an error message */
+async function requestImport(file: File, duplicates?: Duplicates): Promise<ImportResponse | string> {
+  try {
+    const form = new FormData();
+    form.append("file", file);
+    if (duplicates) {
+      form.append("commit", "1");
+      form.append("duplicates", duplicates);
+    }
+    const res = await fetch("/api/points/import", { method: "POST", body: form });
+    const data = await res.json();
+    return res.ok ? data : (data.error ?? "Import failed.");
+  } catch {
+    return "Import request failed.";
+  }
+}
+
+/* ── component ── */
+
+/**
+ * Download every saved point, or load a GeoJSON / KML / GPX / CSV file of
+ * points with a preview that flags duplicates of points already saved.
+ * `initialFile` (e.g. dropped on the globe) is previewed on mount.
+ */
+export default function PointsTransferPanel({
+  initialFile = null,
+  onImported,
+}: {
+  initialFile?: File | null;
+  onImported?: () => void;
+}) {
+  const [file, setFile] = useState<File | null>(initialFile);
+  const [preview, setPreview] = useState<ImportResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [duplicates, setDuplicates] = useState<Duplicates>("skip");
+  const [message, setMessage] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  // A file handed in from outside is previewed straight away
+  const previewing = loading || (!!initialFile && file === initialFile && !preview && !error);
+
+  useEffect(() => {
+    if (!initialFile) return;
+    rootRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    let cancelled = false;
+    requestImport(initialFile).then((result) => {
+      if (cancelled) return;
+      if (typeof result === "string") setError(result);
+      else setPreview(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [initialFile]);
+
+  const runPreview = async (upload: File) => {
+    setFile(upload);
+    setPreview(null);
+    setMessage(null);
+    setError(null);
+    setLoading(true);
+    const result = await requestImport(upload);
+    if (typeof result === "string") setError(result);
+    else setPreview(result);
+    setLoading(false);
+  };
+
+  const reset = () => {
+    setFile(null);
+    setPreview(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setLoading(true);
+    const result = await requestImport(file, duplicates);
+    setLoading(false);
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+    const { added, updated, skipped } = result.imported!;
+    setMessage(
+      `Added ${added} point${added === 1 ? "" : "s"}` +
+        (updated ? `, updated ${updated}` : "") +
+        (skipped ? `, skipped ${skipped} duplicate${skipped === 1 ? "" : "s"}` : "") +
+        ".",
+    );
+    reset();
+    onImported?.();
+  };
+
+  const downloadPoints = (format: string) => {
+    const a = document.createElement("a");
+    a.href = `/api/points/export?format=${format}`;
+    a.click();
+  };
+
+  const importCount = preview ? preview.summary.new + (duplicates === "update" ? preview.summary.duplicates : 0) : 0;
+
+  return (
+    <Flex ref={rootRef} direction="column" gap="2" mt="2">
+      <Flex gap="2" align="center">
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPT}
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) runPreview(f);
+          }}
+        />
+        <Button variant="soft" color="amber" size="1" disabled={previewing} onClick={() => inputRef.current?.click()}>
+          <UploadIcon /> {previewing ? "Reading…" : "Import file"}
+        </Button>
+        <select
+          value=""
+          onChange={(e) => downloadPoints(e.target.value)}
+          style={{
+            flex: 1,
+            fontSize: 12,
+            background: "#161b22",
+            color: "#c9d1d9",
+            border: "1px solid rgba(255,255,255,0.1)",
+            borderRadius: 6,
+            padding: "5px 8px",
+          }}
+        >
+          <option value="" disabled>
+            ⬇ Export all…
+          </option>
+          {POINT_EXPORT_FORMATS.map((f) => (
+            <option key={f.id} value={f.id}>
+              {f.label}
+            </option>
+          ))}
+        </select>
+      </Flex>
+
+      {!file && !message && !error && (
+        <Text size="1" color="gray" as="p">
+          GeoJSON, KML, GPX or CSV (with lat / lng columns). You can also drop a file onto the globe.
+        </Text>
+      )}
+
+      {message && (
+        <Text size="1" color="green" as="p">
+          {message}
+        </Text>
+      )}
+
+      {error && (
+        <Text size="1" color="red" as="p">
+          {error}
+        </Text>
+      )}
+
+      {preview && file && (
+        <>
+          <Flex align="center" gap="2">
+            <Text size="1" color="gray" className="truncate" style={{ flex: 1 }}>
+              {file.name} · {preview.format.toUpperCase()}
+            </Text>
+            <Tooltip content="Discard import">
+              <Button variant="ghost" color="gray" size="1" onClick={reset}>
+                <Cross2Icon />
+              </Button>
+            </Tooltip>
+          </Flex>
+
+          {/* Summary */}
+          <Flex wrap="wrap" gap="1">
+            <Badge variant="soft" color="green" size="1">{preview.summary.new} new</Badge>
+            {preview.summary.duplicates > 0 && (
+              <Badge variant="soft" color="amber" size="1">{preview.summary.duplicates} duplicates</Badge>
+            )}
+            {preview.summary.invalid > 0 && (
+              <Badge variant="soft" color="red" size="1">{preview.summary.invalid} invalid</Badge>
+            )}
+          </Flex>
+
+          {/* Per-record preview */}
+          <ScrollArea scrollbars="vertical" style={{ maxHeight: 200 }}>
+            <Flex direction="column" gap="1" pr="2">
+              {preview.rows.map((r) => (
+                <Box key={r.row} px="2" py="1" className="rounded-md bg-[--gray-a3]">
+                  <Flex align="center" justify="between" gap="2">
+                    <Text size="1" className="truncate" style={{ flex: 1 }}>
+                      <Text color="gray">{r.row}.</Text> {r.label || "—"}
+                    </Text>
+                    <Badge variant="soft" color={STATUS_COLOR[r.status]} size="1">
+                      {STATUS_LABEL[r.status]}
+                    </Badge>
+                  </Flex>
+                  <Text size="1" color={r.error ? "red" : "gray"} as="p" className="truncate">
+                    {r.error ??
+                      `${r.lat!.toFixed(4)}, ${r.lng!.toFixed(4)}${r.duplicateOf ? ` — same spot as ${r.duplicateOf}` : ""}`}
+                  </Text>
+                </Box>
+              ))}
+            </Flex>
+          </ScrollArea>
+
+          {preview.summary.duplicates > 0 && (
+            <SegmentedControl.Root size="1" value={duplicates} onValueChange={(v) => setDuplicates(v as Duplicates)}>
+              <SegmentedControl.Item value="skip">Skip duplicates</SegmentedControl.Item>
+              <SegmentedControl.Item value="update">Update existing</SegmentedControl.Item>
+            </SegmentedControl.Root>
+          )}
+
+          <Button variant="soft" color="amber" size="1" disabled={importCount === 0 || loading} onClick={handleImport}>
+            {loading ? "Importing…" : `Import ${importCount} point${importCount === 1 ? "" : "s"}`}
+          </Button>
+        </>
+      )}
+    </Flex>
+  );
+}
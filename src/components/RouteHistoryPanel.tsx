@@ -0,0 +1,205 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Text, Button, Flex, Badge } from "@radix-ui/themes";
+import { ChevronLeftIcon, ChevronRightIcon } from "@radix-ui/react-icons";
+import type { RouteHistoryEntry } from "@/lib/types";
+
+/* ── helpers ── */
+
+const PAGE_SIZE = 8;
+
+const PROFILE_LABEL: Record<string, string> = {
+  "driving-traffic": "🚗 traffic",
+  driving: "🚗 drive",
+  walking: "🚶 walk",
+  cycling: "🚲 cycle",
+};
+
+const PERIODS = [
+  { id: "all", label: "Any time", days: null },
+  { id: "today", label: "Today", days: 0 },
+  { id: "week", label: "Last 7 days", days: 7 },
+  { id: "month", label: "Last 30 days", days: 30 },
+] as const;
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  fontSize: 12,
+  background: "#161b22",
+  color: "#c9d1d9",
+  border: "1px solid rgba(255,255,255,0.1)",
+  borderRadius: 6,
+  padding: "5px 8px",
+};
+
+function formatDuration(s: number) {
+  const h = Math.floor(s / 3600);
+  const m = Math.round((s % 3600) / 60);
+  return h > 0 ? `${h}h ${m}m` : `${m} min`;
+}
+
+function timeAgo(iso: string, now: number) {
+  const s = Math.max(0, (now - new Date(iso).getTime()) / 1000);
+  if (s < 60) return "just now";
+  if (s < 3600) return `${Math.floor(s / 60)} min ago`;
+  if (s < 86400) return `${Math.floor(s / 3600)}h ago`;
+  return `${Math.floor(s / 86400)}d ago`;
+}
+
+/* ── component ── */
+
+/**
+ * Past routes from the `directions` table, newest first. Clicking one opens
+ * it in the route overlay straight from the stored response.
+ */
+export default function RouteHistoryPanel({
+  onReplay,
+  refreshKey,
+}: {
+  onReplay: (entry: RouteHistoryEntry) => void;
+  /** Change to re-read the current page (e.g. after a route was fetched) */
+  refreshKey?: unknown;
+}) {
+  const [profile, setProfile] = useState("");
+  const [period, setPeriod] = useState<(typeof PERIODS)[number]["id"]>("all");
+  const [from, setFrom] = useState("");
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<{
+    query: string;
+    routes: RouteHistoryEntry[];
+    total: number;
+    fetchedAt: number;
+  } | null>(null);
+  const [error, setError] = useState<{ query: string; message: string } | null>(null);
+
+  const query = new URLSearchParams({
+    page: String(page),
+    limit: String(PAGE_SIZE),
+    ...(profile && { profile }),
+    ...(from && { from }),
+  }).toString();
+  const loading = result?.query !== query && error?.query !== query;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/directions/history?${query}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError({ query, message: data.error ?? "Failed to load route history." });
+          return;
+        }
+        setError(null);
+        setResult({ query, routes: data.routes, total: data.total, fetchedAt: Date.now() });
+      })
+      .catch(() => {
+        if (!cancelled) setError({ query, message: "Failed to load route history." });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, refreshKey]);
+
+  const changePeriod = (id: (typeof PERIODS)[number]["id"]) => {
+    const days = PERIODS.find((p) => p.id === id)!.days;
+    setPeriod(id);
+    // `from` is a UTC date, matching the table's `created_at`
+    setFrom(days === null ? "" : new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10));
+    setPage(1);
+  };
+
+  const total = result?.total ?? 0;
+  const first = (page - 1) * PAGE_SIZE + 1;
+
+  return (
+    <Flex direction="column" gap="2" mt="2">
+      <Flex gap="2">
+        <select
+          value={profile}
+          onChange={(e) => {
+            setProfile(e.target.value);
+            setPage(1);
+          }}
+          style={selectStyle}
+        >
+          <option value="">All profiles</option>
+          {Object.entries(PROFILE_LABEL).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select value={period} onChange={(e) => changePeriod(e.target.value as typeof period)} style={selectStyle}>
+          {PERIODS.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.label}
+            </option>
+          ))}
+        </select>
+      </Flex>
+
+      {error?.query === query ? (
+        <Text size="1" color="red" as="p">
+          {error.message}
+        </Text>
+      ) : loading && !result ? (
+        <Text size="1" color="gray" as="p">
+          Loading…
+        </Text>
+      ) : total === 0 ? (
+        <Text size="1" color="gray" as="p">
+          No routes yet.
+        </Text>
+      ) : (
+        <Flex direction="column" gap="1" style={{ opacity: loading ? 0.5 : 1 }}>
+          {result!.routes.map((r) => {
+            const origin = r.stops[0];
+            const dest = r.stops[r.stops.length - 1];
+            const via = r.stops.length - 2;
+            return (
+              <button
+                key={r.id}
+                onClick={() => onReplay(r)}
+                title={r.stops.map((s) => s.label).join(" → ")}
+                className="text-left rounded-md bg-[--gray-a3] hover:bg-[--gray-a4] transition-colors px-2 py-1"
+              >
+                <Text size="1" as="p" truncate>
+                  {origin.label} → {dest.label}
+                  {via > 0 && (
+                    <Badge size="1" variant="soft" color="amber" ml="1">
+                      +{via}
+                    </Badge>
+                  )}
+                </Text>
+                <Text size="1" color="gray" as="p" truncate>
+                  {formatDuration(r.duration)} · {(r.distance / 1000).toFixed(1)} km · {PROFILE_LABEL[r.profile] ?? r.profile}
+                  {r.departAt && ` · dep ${r.departAt.replace("T", " ").slice(0, 16)}`}
+                  {r.arriveBy && ` · arr ${r.arriveBy.replace("T", " ").slice(0, 16)}`} · {timeAgo(r.createdAt, result!.fetchedAt)}
+                </Text>
+              </button>
+            );
+          })}
+          <Flex align="center" justify="between" mt="1">
+            <Button variant="ghost" size="1" color="gray" disabled={page === 1} onClick={() => setPage((p) => p - 1)}>
+              <ChevronLeftIcon /> Newer
+            </Button>
+            <Text size="1" color="gray">
+              {first}–{Math.min(first + PAGE_SIZE - 1, total)} of {total}
+            </Text>
+            <Button
+              variant="ghost"
+              size="1"
+              color="gray"
+              disabled={page * PAGE_SIZE >= total}
+              onClick={() => setPage((p) => p + 1)}
+            >
+              Older <ChevronRightIcon />
+            </Button>
+          </Flex>
+        </Flex>
+      )}
+    </Flex>
+  );
+}
@@ -0,0 +1,417 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Text, Flex, IconButton, TextField, Badge, Tooltip } from "@radix-ui/themes";
+import {
+  ChevronDownIcon,
+  ChevronRightIcon,
+  EyeOpenIcon,
+  EyeClosedIcon,
+  Pencil1Icon,
+  TrashIcon,
+  PlusIcon,
+  Cross2Icon,
+  MagnifyingGlassIcon,
+} from "@radix-ui/react-icons";
+import type { Coordinate, PointCollection, SavedPoint } from "@/lib/types";
+
+/* ── helpers ── */
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** Tree key of the group holding points that aren't in any collection */
+const UNSORTED = -1;
+
+const selectStyle: React.CSSProperties = {
+  fontSize: 11,
+  background: "#161b22",
+  color: "#8b949e",
+  border: "1px solid rgba(255,255,255,0.1)",
+  borderRadius: 4,
+  padding: "1px 2px",
+  maxWidth: 28,
+};
+
+/** Search box text → `/api/points` filters: `#tag`, `key:value` (or `key:`), plain words */
+function searchQuery(text: string): string {
+  const params = new URLSearchParams();
+  const words: string[] = [];
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    if (token.startsWith("#") && token.length > 1) params.append("tag", token.slice(1));
+    else if (/^[^:]+:/.test(token)) params.append("attr", token.replace(/:$/, ""));
+    else words.push(token);
+  }
+  if (words.length) params.set("q", words.join(" "));
+  return params.toString();
+}
+
+/** Same tolerance as the saved_points coordinate lookups */
+function samePlace(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  return Math.abs(a.lat - b.lat) < 0.0001 && Math.abs(a.lng - b.lng) < 0.0001;
+}
+
+/** Resolves to an error message, or null on success */
+async function send(url: string, method: string, body?: unknown): Promise<string | null> {
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    if (res.ok) return null;
+    const data = await res.json().catch(() => null);
+    return data?.error ?? "Request failed.";
+  } catch {
+    return "Request failed.";
+  }
+}
+
+/* ── component ── */
+
+/**
+ * Saved points grouped into the collections from `/api/points/collections`.
+ * A whole collection can be pinned to or hidden from the globe, renamed or
+ * deleted in one click; points not in any collection sit under "Unsorted".
+ * The search box filters by label, notes, `#tag` or `key:value` attribute.
+ * Deleting a point is left to `onDelete`, so the page can make it undoable.
+ */
+export default function SavedPointsTree({
+  coordinates,
+  onAdd,
+  onRemove,
+  onDelete,
+  refreshKey,
+}: {
+  coordinates: Coordinate[];
+  onAdd: (c: Coordinate) => void;
+  onRemove: (id: string) => void;
+  /** Delete a saved point; `collectionIds` are the collections it was in */
+  onDelete?: (point: SavedPoint, collectionIds: number[]) => void;
+  /** Change to reload (e.g. after a point was saved elsewhere) */
+  refreshKey?: unknown;
+}) {
+  const [data, setData] = useState<{ query: string; points: SavedPoint[]; collections: PointCollection[] } | null>(
+    null,
+  );
+  const [search, setSearch] = useState("");
+  const [version, setVersion] = useState(0);
+  const [open, setOpen] = useState<Set<number>>(new Set());
+  const [renaming, setRenaming] = useState<{ id: number; name: string } | null>(null);
+  const [newName, setNewName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const query = searchQuery(search);
+  const filtering = query !== "";
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(
+      () => {
+        Promise.all([fetch(`/api/points?${query}`), fetch("/api/points/collections")])
+          .then(async ([pointsRes, collectionsRes]) => {
+            if (!pointsRes.ok || !collectionsRes.ok) throw new Error();
+            const [{ points }, { collections }] = await Promise.all([pointsRes.json(), collectionsRes.json()]);
+            if (!cancelled) setData({ query, points, collections });
+          })
+          .catch(() => {
+            if (!cancelled) setError("Failed to load saved points.");
+          });
+      },
+      query ? SEARCH_DEBOUNCE_MS : 0,
+    );
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, refreshKey, version]);
+
+  /** Run a mutation, then reload the tree */
+  const mutate = async (url: string, method: string, body?: unknown) => {
+    const message = await send(url, method, body);
+    setError(message);
+    setVersion((v) => v + 1);
+    return !message;
+  };
+
+  if (!data) {
+    return (
+      <Text size="1" color={error ? "red" : "gray"} as="p" mt="2">
+        {error ?? "Loading…"}
+      </Text>
+    );
+  }
+
+  const byId = new Map(data.points.map((p) => [p.id, p]));
+  const grouped = new Set(data.collections.flatMap((c) => c.pointIds));
+  const groups = [
+    ...data.collections.map((c) => ({
+      id: c.id,
+      name: c.name,
+      collection: c,
+      points: c.pointIds.map((id) => byId.get(id)).filter((p): p is SavedPoint => !!p),
+    })),
+    { id: UNSORTED, name: "Unsorted", collection: null, points: data.points.filter((p) => !grouped.has(p.id)) },
+  ].filter((g) => (g.collection && !filtering) || g.points.length > 0);
+
+  const isPinned = (p: SavedPoint) => coordinates.some((c) => samePlace(c, p));
+
+  const pin = (points: SavedPoint[]) => {
+    for (const p of points) {
+      if (isPinned(p)) continue;
+      onAdd({ id: `saved-${p.id}`, label: p.label, lat: p.lat, lng: p.lng, color: p.color ?? "#ffcc00" });
+    }
+  };
+
+  const hide = (points: SavedPoint[]) => {
+    for (const c of coordinates) {
+      if (points.some((p) => samePlace(c, p))) onRemove(c.id);
+    }
+  };
+
+  const toggleOpen = (id: number) => {
+    setOpen((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const createCollection = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (await mutate("/api/points/collections", "POST", { name })) setNewName("");
+  };
+
+  const rename = async () => {
+    if (!renaming) return;
+    const name = renaming.name.trim();
+    const current = data.collections.find((c) => c.id === renaming.id);
+    if (name && name !== current?.name && !(await mutate("/api/points/collections", "PATCH", { id: renaming.id, name }))) {
+      return;
+    }
+    setRenaming(null);
+  };
+
+  const removeCollection = (c: PointCollection) => {
+    if (!window.confirm(`Delete the collection "${c.name}"? Its points stay saved.`)) return;
+    mutate(`/api/points/collections?id=${c.id}`, "DELETE");
+  };
+
+  return (
+    <Flex direction="column" gap="1" mt="2" style={{ opacity: data.query !== query ? 0.6 : 1 }}>
+      <TextField.Root
+        size="1"
+        placeholder="Search, #tag or key:value"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      >
+        <TextField.Slot>
+          <MagnifyingGlassIcon />
+        </TextField.Slot>
+        {search && (
+          <TextField.Slot>
+            <IconButton size="1" variant="ghost" color="gray" onClick={() => setSearch("")}>
+              <Cross2Icon />
+            </IconButton>
+          </TextField.Slot>
+        )}
+      </TextField.Root>
+
+      {groups.length === 0 && (
+        <Text size="1" color="gray" as="p">
+          {filtering ? "No saved points match." : "No saved points yet — save one from a point's details."}
+        </Text>
+      )}
+
+      {groups.map((g) => {
+        const expanded = filtering || open.has(g.id);
+        const pinned = g.points.filter(isPinned).length;
+        const editing = renaming?.id === g.id;
+        return (
+          <Flex key={g.id} direction="column">
+            <Flex align="center" gap="1" className="rounded-md hover:bg-[--gray-a3] px-1">
+              <IconButton size="1" variant="ghost" color="gray" onClick={() => toggleOpen(g.id)}>
+                {expanded ? <ChevronDownIcon /> : <ChevronRightIcon />}
+              </IconButton>
+              {editing ? (
+                <TextField.Root
+                  size="1"
+                  autoFocus
+                  value={renaming.name}
+                  onChange={(e) => setRenaming({ id: g.id, name: e.target.value })}
+                  onBlur={rename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") rename();
+                    if (e.key === "Escape") setRenaming(null);
+                  }}
+                  style={{ flex: 1 }}
+                />
+              ) : (
+                <Text
+                  size="1"
+                  weight="medium"
+                  color={g.collection ? undefined : "gray"}
+                  truncate
+                  onClick={() => toggleOpen(g.id)}
+                  style={{ flex: 1, cursor: "pointer" }}
+                >
+                  {g.name}
+                </Text>
+              )}
+              <Badge size="1" variant="soft" color={pinned ? "amber" : "gray"} title="Pinned on the globe / total">
+                {pinned}/{g.points.length}
+              </Badge>
+              <Tooltip content={pinned ? "Hide from globe" : "Pin all to globe"}>
+                <IconButton
+                  size="1"
+                  variant="ghost"
+                  color={pinned ? "amber" : "gray"}
+                  disabled={g.points.length === 0}
+                  onClick={() => (pinned ? hide(g.points) : pin(g.points))}
+                >
+                  {pinned ? <EyeOpenIcon /> : <EyeClosedIcon />}
+                </IconButton>
+              </Tooltip>
+              {g.collection && (
+                <>
+                  <Tooltip content="Rename">
+                    <IconButton
+                      size="1"
+                      variant="ghost"
+                      color="gray"
+                      onClick={() => setRenaming({ id: g.id, name: g.name })}
+                    >
+                      <Pencil1Icon />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip content="Delete collection">
+                    <IconButton size="1" variant="ghost" color="red" onClick={() => removeCollection(g.collection!)}>
+                      <TrashIcon />
+                    </IconButton>
+                  </Tooltip>
+                </>
+              )}
+            </Flex>
+
+            {expanded && (
+              <Flex direction="column" pl="5" gap="1" mt="1">
+                {g.points.length === 0 && (
+                  <Text size="1" color="gray" as="p">
+                    Empty — add points from Unsorted or another collection.
+                  </Text>
+                )}
+                {g.points.map((p) => {
+                  const others = data.collections.filter((c) => !c.pointIds.includes(p.id));
+                  return (
+                    <Flex key={p.id} align="center" gap="1">
+                      <button
+                        onClick={() => (isPinned(p) ? hide([p]) : pin([p]))}
+                        title={[
+                          `${p.lat.toFixed(4)}, ${p.lng.toFixed(4)} — click to ${isPinned(p) ? "hide" : "pin"}`,
+                          p.notes,
+                          ...Object.entries(p.attributes).map(([k, v]) => `${k}: ${v}`),
+                        ]
+                          .filter(Boolean)
+                          .join("\n")}
+                        className="flex-1 min-w-0 text-left rounded-md hover:bg-[--gray-a4] transition-colors px-1"
+                      >
+                        <Text size="1" color={isPinned(p) ? "amber" : undefined} truncate as="p">
+                          {p.label}
+                        </Text>
+                      </button>
+                      {p.tags.slice(0, 2).map((t) => (
+                        <Badge
+                          key={t}
+                          size="1"
+                          variant="soft"
+                          color="gray"
+                          title={`Show points tagged #${t}`}
+                          onClick={() => setSearch(`#${t}`)}
+                          style={{ cursor: "pointer", maxWidth: 64, overflow: "hidden", textOverflow: "ellipsis" }}
+                        >
+                          #{t}
+                        </Badge>
+                      ))}
+                      {others.length > 0 && (
+                        <select
+                          value=""
+                          title="Add to collection"
+                          onChange={(e) =>
+                            mutate("/api/points/collections", "PATCH", {
+                              id: Number(e.target.value),
+                              addPointIds: [p.id],
+                            })
+                          }
+                          style={selectStyle}
+                        >
+                          <option value="">+</option>
+                          {others.map((c) => (
+                            <option key={c.id} value={c.id}>
+                              {c.name}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      {g.collection && (
+                        <Tooltip content={`Remove from ${g.name}`}>
+                          <IconButton
+                            size="1"
+                            variant="ghost"
+                            color="gray"
+                            onClick={() =>
+                              mutate("/api/points/collections", "PATCH", { id: g.id, removePointIds: [p.id] })
+                            }
+                          >
+                            <Cross2Icon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                      {onDelete && (
+                        <Tooltip content="Delete saved point">
+                          <IconButton
+                            size="1"
+                            variant="ghost"
+                            color="red"
+                            onClick={() =>
+                              onDelete(
+                                p,
+                                data.collections.filter((c) => c.pointIds.includes(p.id)).map((c) => c.id),
+                              )
+                            }
+                          >
+                            <TrashIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
+                    </Flex>
+                  );
+                })}
+              </Flex>
+            )}
+          </Flex>
+        );
+      })}
+
+      <Flex gap="1" mt="1">
+        <TextField.Root
+          size="1"
+          placeholder="New collection"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && createCollection()}
+          style={{ flex: 1 }}
+        />
+        <IconButton size="1" variant="soft" color="amber" disabled={!newName.trim()} onClick={createCollection}>
+          <PlusIcon />
+        </IconButton>
+      </Flex>
+
+      {error && (
+        <Text size="1" color="red" as="p">
+          {error}
+        </Text>
+      )}
+    </Flex>
+  );
+}
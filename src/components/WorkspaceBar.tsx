@@ -0,0 +1,296 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Text, Flex, IconButton, TextField, Switch, Tooltip } from "@radix-ui/themes";
+import { PlusIcon, Pencil1Icon, CopyIcon, TrashIcon } from "@radix-ui/react-icons";
+import type { WorkspaceState, WorkspaceSummary } from "@/lib/types";
+import { encodeWorkspace } from "@/lib/urlstate";
+
+/* ── helpers ── */
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+type NameMode = "save" | "rename" | "duplicate";
+
+const NAME_PLACEHOLDER: Record<NameMode, string> = {
+  save: "Name, e.g. EMEA site survey",
+  rename: "New name",
+  duplicate: "Name of the copy",
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  fontSize: 12,
+  background: "#161b22",
+  color: "#c9d1d9",
+  border: "1px solid rgba(255,255,255,0.1)",
+  borderRadius: 6,
+  padding: "5px 8px",
+};
+
+/** Resolves to the response body, or an error message */
+async function send(url: string, method: string, body?: unknown): Promise<{ id?: number } | string> {
+  try {
+    const res = await fetch(url, {
+      method,
+      headers: body ? { "Content-Type": "application/json" } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json().catch(() => null);
+    return res.ok ? (data ?? {}) : (data?.error ?? "Request failed.");
+  } catch {
+    return "Request failed.";
+  }
+}
+
+/* ── component ── */
+
+/**
+ * Pick, save, rename, duplicate or delete named workspaces (`/api/workspaces`).
+ * While one is open, changes to the page are autosaved to it.
+ */
+export default function WorkspaceBar({
+  state,
+  workspaceId,
+  onWorkspaceIdChange,
+  onOpen,
+}: {
+  /** The page as it is now */
+  state: WorkspaceState;
+  /** The open workspace, or null for an unsaved one */
+  workspaceId: number | null;
+  onWorkspaceIdChange: (id: number | null) => void;
+  onOpen: (id: number, state: WorkspaceState) => void;
+}) {
+  const [list, setList] = useState<WorkspaceSummary[]>([]);
+  const [version, setVersion] = useState(0);
+  const [naming, setNaming] = useState<{ mode: NameMode; name: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [autosave, setAutosave] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // What was last written to (or read from) the database, to tell whether the page has changed since
+  const [saved, setSaved] = useState<{ id: number; key: string } | null>(null);
+
+  const key = encodeWorkspace(state);
+  const current = list.find((w) => w.id === workspaceId) ?? null;
+  // Not dirty until the stored state is known — see the effect below
+  const dirty = workspaceId !== null && saved?.id === workspaceId && saved.key !== key;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/workspaces")
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (res.ok) setList(data.workspaces);
+        else setError(data.error ?? "Failed to load workspaces.");
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to load workspaces.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  // A workspace id that arrived without its stored state (a bookmarked link) — open what
+  // is stored rather than autosaving the link over it
+  useEffect(() => {
+    if (workspaceId === null || saved?.id === workspaceId) return;
+    let cancelled = false;
+    fetch(`/api/workspaces?id=${workspaceId}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (cancelled) return;
+        if (!res.ok) {
+          setError(data.error ?? "Failed to open workspace.");
+          onWorkspaceIdChange(null);
+          return;
+        }
+        setSaved({ id: workspaceId, key: encodeWorkspace(data.workspace.state) });
+        onOpen(workspaceId, data.workspace.state);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to open workspace.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workspaceId, saved?.id, onOpen, onWorkspaceIdChange]);
+
+  /** Write the page to the open workspace */
+  const saveCurrent = useCallback(async () => {
+    if (workspaceId === null) return true;
+    setSaving(true);
+    const result = await send("/api/workspaces", "PATCH", { id: workspaceId, state });
+    setSaving(false);
+    if (typeof result === "string") {
+      setError(result);
+      return false;
+    }
+    setError(null);
+    setSaved({ id: workspaceId, key });
+    // Refresh the list's pin counts and update times
+    setVersion((v) => v + 1);
+    return true;
+  }, [workspaceId, state, key]);
+
+  // Autosave a moment after the last change
+  useEffect(() => {
+    if (!autosave || !dirty) return;
+    const timer = setTimeout(saveCurrent, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autosave, dirty, saveCurrent]);
+
+  const open = async (id: number | null) => {
+    setNaming(null);
+    if (id === null) {
+      onWorkspaceIdChange(null);
+      return;
+    }
+    if (dirty && !(await saveCurrent())) return;
+    try {
+      const res = await fetch(`/api/workspaces?id=${id}`);
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error ?? "Failed to open workspace.");
+        return;
+      }
+      setError(null);
+      setSaved({ id, key: encodeWorkspace(data.workspace.state) });
+      onOpen(id, data.workspace.state);
+    } catch {
+      setError("Failed to open workspace.");
+    }
+  };
+
+  const submitName = async () => {
+    if (!naming) return;
+    const name = naming.name.trim();
+    if (!name) {
+      setNaming(null);
+      return;
+    }
+    let result: { id?: number } | string;
+    if (naming.mode === "rename") {
+      result = await send("/api/workspaces", "PATCH", { id: workspaceId, name });
+    } else if (naming.mode === "duplicate") {
+      // The copy should include anything not autosaved yet
+      if (dirty && !(await saveCurrent())) return;
+      result = await send("/api/workspaces", "POST", { name, duplicateOf: workspaceId });
+    } else {
+      result = await send("/api/workspaces", "POST", { name, state });
+    }
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+    if (result.id !== undefined) {
+      setSaved({ id: result.id, key });
+      onWorkspaceIdChange(result.id);
+    }
+    setError(null);
+    setNaming(null);
+    setVersion((v) => v + 1);
+  };
+
+  const remove = async () => {
+    if (!current || !window.confirm(`Delete the workspace "${current.name}"? Pins on the map stay put.`)) return;
+    const result = await send(`/api/workspaces?id=${current.id}`, "DELETE");
+    if (typeof result === "string") {
+      setError(result);
+      return;
+    }
+    onWorkspaceIdChange(null);
+    setVersion((v) => v + 1);
+  };
+
+  const startNaming = (mode: NameMode) => {
+    setError(null);
+    setNaming({
+      mode,
+      name: mode === "rename" ? (current?.name ?? "") : mode === "duplicate" ? `${current?.name ?? "Workspace"} copy` : "",
+    });
+  };
+
+  return (
+    <Flex direction="column" gap="1">
+      <Flex align="center" gap="1">
+        <select
+          value={workspaceId ?? ""}
+          onChange={(e) => open(e.target.value ? Number(e.target.value) : null)}
+          style={selectStyle}
+          aria-label="Workspace"
+        >
+          <option value="">Unsaved workspace</option>
+          {list.map((w) => (
+            <option key={w.id} value={w.id}>
+              {w.name} · {w.pinCount} pin{w.pinCount === 1 ? "" : "s"}
+            </option>
+          ))}
+        </select>
+        <Tooltip content="Save as a new workspace">
+          <IconButton size="1" variant="ghost" color="gray" onClick={() => startNaming("save")}>
+            <PlusIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip content="Rename">
+          <IconButton size="1" variant="ghost" color="gray" disabled={!current} onClick={() => startNaming("rename")}>
+            <Pencil1Icon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip content="Duplicate">
+          <IconButton size="1" variant="ghost" color="gray" disabled={!current} onClick={() => startNaming("duplicate")}>
+            <CopyIcon />
+          </IconButton>
+        </Tooltip>
+        <Tooltip content="Delete">
+          <IconButton size="1" variant="ghost" color="red" disabled={!current} onClick={remove}>
+            <TrashIcon />
+          </IconButton>
+        </Tooltip>
+      </Flex>
+
+      {naming && (
+        <TextField.Root
+          size="1"
+          autoFocus
+          placeholder={NAME_PLACEHOLDER[naming.mode]}
+          value={naming.name}
+          onChange={(e) => setNaming({ ...naming, name: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitName();
+            if (e.key === "Escape") setNaming(null);
+          }}
+        />
+      )}
+
+      {workspaceId !== null && (
+        <Flex align="center" justify="between">
+          <Text as="label" size="1" color="gray">
+            <Flex gap="1" align="center">
+              <Switch size="1" color="amber" checked={autosave} onCheckedChange={setAutosave} />
+              Autosave
+            </Flex>
+          </Text>
+          {saving ? (
+            <Text size="1" color="gray">Saving…</Text>
+          ) : dirty ? (
+            <Text size="1" color="amber" asChild>
+              <button onClick={saveCurrent}>Save changes</button>
+            </Text>
+          ) : (
+            <Text size="1" color="gray">All changes saved</Text>
+          )}
+        </Flex>
+      )}
+
+      {error && (
+        <Text size="1" color="red" as="p">
+          {error}
+        </Text>
+      )}
+    </Flex>
+  );
+}
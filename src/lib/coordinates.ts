@@ -0,0 +1,291 @@
+/* ------------------------------------------------------------------ */
+/*  Raw coordinate parsing – turns pasted coordinates into lat/lng     */
+/*  without a geocoder round-trip. Shared by /api/geocode and the UI.  */
+/* ------------------------------------------------------------------ */
+
+export type CoordinateFormat = "decimal" | "dms" | "ddm" | "utm" | "mgrs" | "olc";
+
+/** Human-readable badge text for each recognised format */
+export const COORDINATE_FORMAT_LABELS: Record<CoordinateFormat, string> = {
+  decimal: "Decimal degrees",
+  dms: "DMS",
+  ddm: "Degrees + decimal minutes",
+  utm: "UTM",
+  mgrs: "MGRS",
+  olc: "Plus Code",
+};
+
+export interface ParsedCoordinate {
+  lat: number;
+  lng: number;
+  format: CoordinateFormat;
+}
+
+/**
+ * Recognise a raw coordinate string. Supported inputs:
+ *
+ *   40.7128, -74.0060            decimal pair (lat, lng); whole degrees need a
+ *                                sign or a spaced separator ("40 -74", "40, 74")
+ *   40.7128 N 74.0060 W          decimal with hemispheres
+ *   40°42'46"N 74°00'21"W        degrees / minutes / seconds
+ *   N 40° 42.767' W 74° 0.35'    degrees + decimal minutes
+ *   18T 583960 4507523           UTM (zone + latitude band)
+ *   18TWL8396007523              MGRS (spaces optional)
+ *   87G7PXRH+W8                  full Open Location Code
+ *
+ * Returns `null` when the input isn't a coordinate (so it can go to a geocoder).
+ */
+export function parseCoordinateInput(input: string): ParsedCoordinate | null {
+  const text = input.trim();
+  if (!text) return null;
+  return parseOpenLocationCode(text) ?? parseMgrs(text) ?? parseUtm(text) ?? parseAngularPair(text);
+}
+
+// ── Decimal / DMS / DDM ──────────────────────────────────────────────
+
+// One angle: optional leading hemisphere, degrees, optional minutes / seconds, optional trailing hemisphere
+const ANGLE = String.raw`([NSEW])?\s*([+-]?\d+(?:\.\d+)?)\s*(?:[°º˚]|deg)?\s*(?:(\d+(?:\.\d+)?)\s*['′’])?\s*(?:(\d+(?:\.\d+)?)\s*(?:["″”]|''))?\s*([NSEW])?`;
+const SEPARATOR = String.raw`(\s*[,;/]\s*|\s+|(?<=[NSEW°º˚'′’"″”]))`;
+const ANGLE_PAIR_RE = new RegExp(`^${ANGLE}${SEPARATOR}${ANGLE}$`, "i");
+
+interface AngleParts {
+  hemisphere?: string;
+  degrees: string;
+  minutes?: string;
+  seconds?: string;
+}
+
+function parseAngularPair(text: string): ParsedCoordinate | null {
+  const m = ANGLE_PAIR_RE.exec(text);
+  if (!m) return null;
+
+  const [, h1a, d1, m1, s1, h1b, sep, h2a, d2, m2, s2, h2b] = m;
+  let first: AngleParts = { hemisphere: h1a ?? h1b, degrees: d1, minutes: m1, seconds: s1 };
+  let second: AngleParts = { hemisphere: h2a ?? h2b, degrees: d2, minutes: m2, seconds: s2 };
+
+  // "N 40° 42' W 74° 0'" — the regex may hand the second leading hemisphere to the first angle
+  if (h1a && h1b && !h2a && !h2b) {
+    first = { ...first, hemisphere: h1a };
+    second = { ...second, hemisphere: h1b };
+  }
+
+  const hasSymbols = /[°º˚'′’"″”]|deg/i.test(text);
+  const hasHemispheres = !!(first.hemisphere || second.hemisphere);
+  // Bare number pairs need a decimal point, a sign, a ";" / "/" or a comma with a space
+  // ("40, -74", "40 -74"), so a house number ("5 10") or a decimal comma ("12,5") goes
+  // to the geocoder instead
+  if (!hasSymbols && !hasHemispheres) {
+    const hasDecimals = /\./.test(d1 + d2);
+    const hasSign = /^[+-]/.test(d1) || /^[+-]/.test(d2);
+    const hasSeparator = /[;/]/.test(sep) || (sep.includes(",") && /\s/.test(sep));
+    if (!hasDecimals && !hasSign && !hasSeparator) return null;
+  }
+
+  // Hemisphere letters decide which angle is latitude; otherwise assume "lat, lng"
+  const isLng = (h?: string) => !!h && /[EW]/i.test(h);
+  const isLat = (h?: string) => !!h && /[NS]/i.test(h);
+  if ((isLng(first.hemisphere) && !isLng(second.hemisphere)) || (isLat(second.hemisphere) && !isLat(first.hemisphere))) {
+    [first, second] = [second, first];
+  }
+  if (isLng(first.hemisphere) || isLat(second.hemisphere)) return null;
+
+  const lat = angleToDecimal(first);
+  const lng = angleToDecimal(second);
+  if (lat == null || lng == null || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  const format: CoordinateFormat =
+    first.seconds || second.seconds ? "dms" : first.minutes || second.minutes ? "ddm" : "decimal";
+  return { lat, lng, format };
+}
+
+function angleToDecimal({ hemisphere, degrees, minutes, seconds }: AngleParts): number | null {
+  const deg = parseFloat(degrees);
+  const min = minutes ? parseFloat(minutes) : 0;
+  const sec = seconds ? parseFloat(seconds) : 0;
+  if (min >= 60 || sec >= 60) return null;
+  // Fractional degrees only make sense without minutes / seconds
+  if ((minutes || seconds) && !Number.isInteger(deg)) return null;
+  // A sign and a hemisphere letter together are ambiguous
+  if (hemisphere && /^[+-]/.test(degrees)) return null;
+
+  const magnitude = Math.abs(deg) + min / 60 + sec / 3600;
+  const negative = deg < 0 || Object.is(deg, -0) || (!!hemisphere && /[SW]/i.test(hemisphere));
+  return negative ? -magnitude : magnitude;
+}
+
+// ── UTM ──────────────────────────────────────────────────────────────
+
+const LAT_BANDS = "CDEFGHJKLMNPQRSTUVWX"; // 8° bands from 80°S
+const UTM_RE = /^(\d{1,2})\s*([C-HJ-NP-X])\s+(\d+(?:\.\d+)?)\s*(?:m?E)?\s*[, ]\s*(\d+(?:\.\d+)?)\s*(?:m?N)?$/i;
+
+function parseUtm(text: string): ParsedCoordinate | null {
+  const m = UTM_RE.exec(text);
+  if (!m) return null;
+  const zone = parseInt(m[1], 10);
+  const band = m[2].toUpperCase();
+  const easting = parseFloat(m[3]);
+  const northing = parseFloat(m[4]);
+  if (zone < 1 || zone > 60 || easting < 100_000 || easting > 900_000 || northing > 10_000_000) return null;
+
+  const { lat, lng } = utmToLatLng(zone, band >= "N", easting, northing);
+  return isValidLatLng(lat, lng) ? { lat, lng, format: "utm" } : null;
+}
+
+// ── MGRS ─────────────────────────────────────────────────────────────
+
+const MGRS_COLUMN_SETS = ["STUVWXYZ", "ABCDEFGH", "JKLMNPQR"]; // indexed by zone % 3
+const MGRS_ROWS = "ABCDEFGHJKLMNPQRSTUV";
+const MGRS_RE = /^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d{1,5})\s*(\d{1,5})?$/i;
+
+function parseMgrs(text: string): ParsedCoordinate | null {
+  const m = MGRS_RE.exec(text);
+  if (!m) return null;
+  const zone = parseInt(m[1], 10);
+  const band = m[2].toUpperCase();
+  const col = m[3].toUpperCase();
+  const row = m[4].toUpperCase();
+  if (zone < 1 || zone > 60) return null;
+
+  // Digits come either as one run ("8396007523") or two equal groups ("83960 07523")
+  let eDigits: string;
+  let nDigits: string;
+  if (m[6] != null) {
+    [eDigits, nDigits] = [m[5], m[6]];
+  } else {
+    if (m[5].length % 2 !== 0) return null;
+    eDigits = m[5].slice(0, m[5].length / 2);
+    nDigits = m[5].slice(m[5].length / 2);
+  }
+  if (eDigits.length !== nDigits.length) return null;
+  const scale = 10 ** (5 - eDigits.length);
+
+  const colIndex = MGRS_COLUMN_SETS[zone % 3].indexOf(col);
+  if (colIndex < 0) return null;
+  const e100k = (colIndex + 1) * 100_000;
+
+  // Row letters repeat every 2 000 km; even zones start five letters later
+  const rowIndex = (MGRS_ROWS.indexOf(row) - (zone % 2 === 0 ? 5 : 0) + 20) % 20;
+  const n100k = rowIndex * 100_000;
+
+  const easting = e100k + parseInt(eDigits, 10) * scale;
+  let northing = n100k + parseInt(nDigits, 10) * scale;
+
+  // Lift the northing into the 2 000 km cycle that contains the latitude band
+  const north = band >= "N";
+  const bandLat = -80 + LAT_BANDS.indexOf(band) * 8;
+  const bandNorthing = Math.floor(
+    (K0 * meridionalArc(bandLat * DEG) + (north ? 0 : 10_000_000)) / 100_000,
+  ) * 100_000;
+  while (northing < bandNorthing) northing += 2_000_000;
+
+  const { lat, lng } = utmToLatLng(zone, north, easting, northing);
+  return isValidLatLng(lat, lng) ? { lat, lng, format: "mgrs" } : null;
+}
+
+// ── Open Location Code (Plus Code) ───────────────────────────────────
+
+const OLC_ALPHABET = "23456789CFGHJMPQRVWX";
+const OLC_RE = /^[23456789CFGHJMPQRVWX]{2,8}0*\+[23456789CFGHJMPQRVWX]*$/i;
+
+/** Full (global) codes only — short codes like "PXRH+W8 New York" need a reference point. */
+function parseOpenLocationCode(text: string): ParsedCoordinate | null {
+  const code = text.toUpperCase();
+  if (!OLC_RE.test(code) || code.indexOf("+") !== 8) return null;
+
+  const digits = code.replace("+", "").replace(/0+$/, "");
+  if (digits.length < 2 || (digits.length % 2 !== 0 && digits.length < 10)) return null;
+  if (OLC_ALPHABET.indexOf(digits[0]) > 8 || OLC_ALPHABET.indexOf(digits[1]) > 17) return null;
+
+  let lat = -90;
+  let lng = -180;
+  let latSize = 20;
+  let lngSize = 20;
+
+  // Pairs: 20°, 1°, 0.05°, 0.0025°, 0.000125°
+  const pairDigits = Math.min(digits.length, 10);
+  for (let i = 0; i < pairDigits; i += 2) {
+    lat += OLC_ALPHABET.indexOf(digits[i]) * latSize;
+    lng += OLC_ALPHABET.indexOf(digits[i + 1]) * lngSize;
+    if (i + 2 < pairDigits) {
+      latSize /= 20;
+      lngSize /= 20;
+    }
+  }
+
+  // Grid refinement: each further digit picks a cell in a 5-row × 4-column grid
+  for (let i = 10; i < digits.length; i++) {
+    latSize /= 5;
+    lngSize /= 4;
+    const index = OLC_ALPHABET.indexOf(digits[i]);
+    lat += Math.floor(index / 4) * latSize;
+    lng += (index % 4) * lngSize;
+  }
+
+  // Centre of the decoded area
+  return { lat: lat + latSize / 2, lng: lng + lngSize / 2, format: "olc" };
+}
+
+// ── Transverse Mercator (WGS84) ──────────────────────────────────────
+
+const DEG = Math.PI / 180;
+const A = 6378137; // semi-major axis (m)
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+const EP2 = E2 / (1 - E2);
+const K0 = 0.9996;
+
+/** Distance along the meridian from the equator to latitude `phi` (radians) */
+function meridionalArc(phi: number): number {
+  const e4 = E2 * E2;
+  const e6 = e4 * E2;
+  return A * (
+    (1 - E2 / 4 - (3 * e4) / 64 - (5 * e6) / 256) * phi -
+    ((3 * E2) / 8 + (3 * e4) / 32 + (45 * e6) / 1024) * Math.sin(2 * phi) +
+    ((15 * e4) / 256 + (45 * e6) / 1024) * Math.sin(4 * phi) -
+    ((35 * e6) / 3072) * Math.sin(6 * phi)
+  );
+}
+
+/** Inverse UTM projection (Snyder, "Map Projections – A Working Manual", §8) */
+function utmToLatLng(zone: number, north: boolean, easting: number, northing: number) {
+  const x = easting - 500_000;
+  const y = north ? northing : northing - 10_000_000;
+  const lng0 = ((zone - 1) * 6 - 180 + 3) * DEG;
+
+  const mu = y / K0 / (A * (1 - E2 / 4 - (3 * E2 * E2) / 64 - (5 * E2 ** 3) / 256));
+  const e1 = (1 - Math.sqrt(1 - E2)) / (1 + Math.sqrt(1 - E2));
+  const phi1 =
+    mu +
+    ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+    ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+    ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+    ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+
+  const sin1 = Math.sin(phi1);
+  const cos1 = Math.cos(phi1);
+  const tan1 = Math.tan(phi1);
+  const n1 = A / Math.sqrt(1 - E2 * sin1 * sin1);
+  const t1 = tan1 * tan1;
+  const c1 = EP2 * cos1 * cos1;
+  const r1 = (A * (1 - E2)) / Math.pow(1 - E2 * sin1 * sin1, 1.5);
+  const d = x / (n1 * K0);
+
+  const lat =
+    phi1 -
+    ((n1 * tan1) / r1) *
+      ((d * d) / 2 -
+        ((5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * EP2) * d ** 4) / 24 +
+        ((61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * EP2 - 3 * c1 * c1) * d ** 6) / 720);
+  const lng =
+    lng0 +
+    (d -
+      ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+      ((5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * EP2 + 24 * t1 * t1) * d ** 5) / 120) /
+      cos1;
+
+  return { lat: lat / DEG, lng: lng / DEG };
+}
+
+function isValidLatLng(lat: number, lng: number) {
+  return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
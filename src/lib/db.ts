@@ -1,6 +1,9 @@
 import Database from "better-sqlite3";
 import path from "path";
 import fs from "fs";
+import type { GeocodingProviderId } from "@/lib/geocoding";
+import type { RouteSchedule } from "@/lib/routing";
+import type { SavedPoint, WorkspaceState } from "@/lib/types";
 
 /* ------------------------------------------------------------------ */
 /*  SQLite database – stores API responses for caching / dev reuse    */
@@ -39,7 +42,7 @@ function migrate(db: Database.Database) {
     CREATE TABLE IF NOT EXISTS geocode_results (
       id          INTEGER PRIMARY KEY AUTOINCREMENT,
       query       TEXT    NOT NULL,
-      provider    TEXT    NOT NULL,              -- 'google' | 'mapquest'
+      provider    TEXT    NOT NULL,              -- 'google' | 'mapquest' | 'nominatim' | 'geonames'
       results     TEXT    NOT NULL DEFAULT '[]', -- JSON array of result objects
       raw         TEXT,                          -- full raw API response JSON
       created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
@@ -48,6 +51,19 @@ function migrate(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_geocode_query
       ON geocode_results(query);
 
+    CREATE TABLE IF NOT EXISTS reverse_geocode_results (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      lat         REAL    NOT NULL,
+      lng         REAL    NOT NULL,
+      provider    TEXT    NOT NULL,              -- 'google' | 'mapquest' | 'nominatim' | 'geonames'
+      results     TEXT    NOT NULL DEFAULT '[]', -- JSON array of result objects
+      raw         TEXT,                          -- full raw API response JSON
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_reverse_geocode_coords
+      ON reverse_geocode_results(lat, lng);
+
     CREATE TABLE IF NOT EXISTS places (
       id          INTEGER PRIMARY KEY AUTOINCREMENT,
       lat         REAL    NOT NULL,
@@ -93,6 +109,40 @@ function migrate(db: Database.Database) {
     CREATE INDEX IF NOT EXISTS idx_directions_coords
       ON directions(origin_lat, origin_lng, dest_lat, dest_lng, profile);
 
+    CREATE TABLE IF NOT EXISTS isochrones (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      lat         REAL    NOT NULL,
+      lng         REAL    NOT NULL,
+      profile     TEXT    NOT NULL,
+      minutes     TEXT    NOT NULL,               -- contour list, e.g. "10,20,30"
+      response    TEXT    NOT NULL,               -- Mapbox Isochrone GeoJSON
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_isochrones_coords
+      ON isochrones(lat, lng, profile);
+
+    CREATE TABLE IF NOT EXISTS matrices (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      profile     TEXT    NOT NULL,
+      coordinates TEXT    NOT NULL,               -- "lng,lat;…" (4 dp), in request order
+      response    TEXT    NOT NULL,               -- Mapbox Matrix JSON (durations + distances)
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_matrices_key
+      ON matrices(profile, coordinates);
+
+    CREATE TABLE IF NOT EXISTS terrain_tiles (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      z           INTEGER NOT NULL,
+      x           INTEGER NOT NULL,
+      y           INTEGER NOT NULL,
+      data        BLOB    NOT NULL,               -- Mapbox terrain-RGB PNG (pngraw)
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      UNIQUE (z, x, y)
+    );
+
     CREATE TABLE IF NOT EXISTS saved_points (
       id          INTEGER PRIMARY KEY AUTOINCREMENT,
       label       TEXT    NOT NULL,
@@ -105,43 +155,245 @@ function migrate(db: Database.Database) {
 
     CREATE INDEX IF NOT EXISTS idx_saved_points_coords
       ON saved_points(lat, lng);
+
+    CREATE TABLE IF NOT EXISTS collections (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      name        TEXT    NOT NULL UNIQUE COLLATE NOCASE,
+      color       TEXT    DEFAULT '#ffcc00',
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      updated_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS collection_points (
+      collection_id  INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+      point_id       INTEGER NOT NULL REFERENCES saved_points(id) ON DELETE CASCADE,
+      added_at       TEXT    NOT NULL DEFAULT (datetime('now')),
+      PRIMARY KEY (collection_id, point_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_collection_points_point
+      ON collection_points(point_id);
+
+    CREATE TABLE IF NOT EXISTS workspaces (
+      id          INTEGER PRIMARY KEY AUTOINCREMENT,
+      name        TEXT    NOT NULL UNIQUE COLLATE NOCASE,
+      state       TEXT    NOT NULL,              -- JSON WorkspaceState
+      created_at  TEXT    NOT NULL DEFAULT (datetime('now')),
+      updated_at  TEXT    NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS gazetteer (
+      id           INTEGER PRIMARY KEY,
+      name         TEXT    NOT NULL,
+      alt_names    TEXT    NOT NULL DEFAULT '',   -- comma-separated alternate names
+      lat          REAL    NOT NULL,
+      lng          REAL    NOT NULL,
+      country      TEXT    NOT NULL,              -- ISO 3166-1 alpha-2
+      admin1       TEXT    NOT NULL DEFAULT '',   -- state / province name
+      admin1_code  TEXT    NOT NULL DEFAULT '',   -- GeoNames admin1 code (US: postal abbreviation)
+      population   INTEGER NOT NULL DEFAULT 0
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_gazetteer_coords
+      ON gazetteer(lat, lng);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS gazetteer_fts USING fts5(
+      name, alt_names,
+      content='gazetteer', content_rowid='id',
+      tokenize='unicode61 remove_diacritics 2'
+    );
+
+    CREATE TABLE IF NOT EXISTS gazetteer_meta (
+      key    TEXT PRIMARY KEY,
+      value  TEXT NOT NULL
+    );
+  `);
+
+  // geocode_results.query_key — normalised lookup key (added after v1 schema)
+  if (!hasColumn(db, "geocode_results", "query_key")) {
+    db.exec(`ALTER TABLE geocode_results ADD COLUMN query_key TEXT`);
+  }
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_geocode_query_key
+      ON geocode_results(query_key);
   `);
+  backfillGeocodeQueryKeys(db);
+
+  // directions.via — intermediate stops of multi-stop routes (added after v1 schema)
+  if (!hasColumn(db, "directions", "via")) {
+    db.exec(`ALTER TABLE directions ADD COLUMN via TEXT`);
+  }
+
+  // directions.depart_at / arrive_by — scheduled (non-"now") traffic routes
+  if (!hasColumn(db, "directions", "depart_at")) {
+    db.exec(`ALTER TABLE directions ADD COLUMN depart_at TEXT`);
+  }
+  if (!hasColumn(db, "directions", "arrive_by")) {
+    db.exec(`ALTER TABLE directions ADD COLUMN arrive_by TEXT`);
+  }
+
+  // directions.labels — stop names shown in the route history
+  if (!hasColumn(db, "directions", "labels")) {
+    db.exec(`ALTER TABLE directions ADD COLUMN labels TEXT`);
+  }
+
+  // directions.distance / duration — the primary route's totals, so the history needn't parse responses
+  if (!hasColumn(db, "directions", "distance")) {
+    db.transaction(() => {
+      db.exec(`
+        ALTER TABLE directions ADD COLUMN distance REAL;
+        ALTER TABLE directions ADD COLUMN duration REAL;
+        UPDATE directions SET distance = json_extract(response, '$.routes[0].distance'),
+                              duration = json_extract(response, '$.routes[0].duration');
+      `);
+    })();
+  }
+
+  // saved_points.notes / tags / attributes — user-editable metadata
+  if (!hasColumn(db, "saved_points", "notes")) {
+    db.exec(`ALTER TABLE saved_points ADD COLUMN notes TEXT`);
+  }
+  if (!hasColumn(db, "saved_points", "tags")) {
+    db.exec(`ALTER TABLE saved_points ADD COLUMN tags TEXT`);
+  }
+  if (!hasColumn(db, "saved_points", "attributes")) {
+    db.exec(`ALTER TABLE saved_points ADD COLUMN attributes TEXT`);
+  }
+}
+
+function hasColumn(db: Database.Database, table: string, column: string): boolean {
+  const cols = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  return cols.some((c) => c.name === column);
+}
+
+/** Rows written before `query_key` existed get their key computed in JS (SQLite can't strip diacritics). */
+function backfillGeocodeQueryKeys(db: Database.Database) {
+  const rows = db
+    .prepare(`SELECT id, query FROM geocode_results WHERE query_key IS NULL`)
+    .all() as { id: number; query: string }[];
+  if (!rows.length) return;
+
+  const update = db.prepare(`UPDATE geocode_results SET query_key = ? WHERE id = ?`);
+  db.transaction(() => {
+    for (const r of rows) update.run(normalizeGeocodeQuery(r.query), r.id);
+  })();
 }
 
 /* ================================================================== */
 /*  Repository helpers                                                 */
 /* ================================================================== */
 
+// ── Timestamps ───────────────────────────────────────────────────────
+
+/** A `datetime('now')` column → ISO string (SQLite stores UTC without a zone suffix) */
+export function sqliteUtc(value: string): string {
+  return new Date(`${value.replace(" ", "T")}Z`).toISOString();
+}
+
+/** The `cache` object API routes attach to a response */
+export interface CacheInfo {
+  status: "HIT" | "MISS";
+  cachedAt: string; // ISO
+  ageSeconds: number;
+}
+
+/** A hit on a row created at `createdAt`, or a miss (fetched just now) without one */
+export function cacheInfo(createdAt?: string): CacheInfo {
+  if (createdAt === undefined) return { status: "MISS", cachedAt: new Date().toISOString(), ageSeconds: 0 };
+  const cachedAt = sqliteUtc(createdAt);
+  const ageSeconds = Math.max(0, Math.round((Date.now() - Date.parse(cachedAt)) / 1000));
+  return { status: "HIT", cachedAt, ageSeconds };
+}
+
 // ── Geocode ──────────────────────────────────────────────────────────
 
 export interface GeocodeCacheRow {
   id: number;
   query: string;
+  query_key: string | null;
   provider: string;
   results: string; // JSON
   raw: string | null;
   created_at: string;
 }
 
+/**
+ * Cache key for a geocode query: lower-cased, diacritics stripped and
+ * whitespace collapsed, so "  São  Paulo" and "sao paulo" share a row.
+ */
+export function normalizeGeocodeQuery(query: string): string {
+  return query
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
 export function saveGeocodeResult(
   query: string,
-  provider: "google" | "mapquest",
+  provider: GeocodingProviderId,
   results: unknown[],
   raw?: unknown,
 ) {
   const db = getDb();
   const stmt = db.prepare(`
-    INSERT INTO geocode_results (query, provider, results, raw)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO geocode_results (query, query_key, provider, results, raw)
+    VALUES (?, ?, ?, ?, ?)
   `);
-  stmt.run(query, provider, JSON.stringify(results), raw ? JSON.stringify(raw) : null);
+  stmt.run(
+    query,
+    normalizeGeocodeQuery(query),
+    provider,
+    JSON.stringify(results),
+    raw ? JSON.stringify(raw) : null,
+  );
 }
 
-export function findGeocodeResult(query: string): GeocodeCacheRow | undefined {
+/**
+ * Most recent cached result for a query (matched on its normalised key).
+ * When `maxAgeSeconds` is given, rows older than that are ignored.
+ */
+export function findGeocodeResult(
+  query: string,
+  maxAgeSeconds?: number,
+): GeocodeCacheRow | undefined {
   const db = getDb();
+  const key = normalizeGeocodeQuery(query);
+  if (maxAgeSeconds != null) {
+    return db
+      .prepare(
+        `SELECT * FROM geocode_results
+         WHERE query_key = ? AND created_at >= datetime('now', ?)
+         ORDER BY created_at DESC LIMIT 1`,
+      )
+      .get(key, `-${Math.floor(maxAgeSeconds)} seconds`) as GeocodeCacheRow | undefined;
+  }
   return db
-    .prepare(`SELECT * FROM geocode_results WHERE query = ? ORDER BY created_at DESC LIMIT 1`)
-    .get(query) as GeocodeCacheRow | undefined;
+    .prepare(`SELECT * FROM geocode_results WHERE query_key = ? ORDER BY created_at DESC LIMIT 1`)
+    .get(key) as GeocodeCacheRow | undefined;
+}
+
+/**
+ * Recent cached rows whose normalised query starts with `prefix` (autocomplete).
+ * When `maxAgeSeconds` is given, rows older than that are ignored.
+ */
+export function findGeocodeResultsByPrefix(prefix: string, limit = 10, maxAgeSeconds?: number): GeocodeCacheRow[] {
+  const db = getDb();
+  const key = normalizeGeocodeQuery(prefix).replace(/[\\%_]/g, (c) => `\\${c}`);
+  return db
+    .prepare(
+      `SELECT * FROM geocode_results
+       WHERE query_key LIKE ? ESCAPE '\\'
+         AND (? IS NULL OR created_at >= datetime('now', ?))
+       ORDER BY created_at DESC LIMIT ?`,
+    )
+    .all(
+      `${key}%`,
+      maxAgeSeconds ?? null,
+      `-${Math.floor(maxAgeSeconds ?? 0)} seconds`,
+      limit,
+    ) as GeocodeCacheRow[];
 }
 
 export function getAllGeocodeResults(): GeocodeCacheRow[] {
@@ -151,6 +403,148 @@ export function getAllGeocodeResults(): GeocodeCacheRow[] {
     .all() as GeocodeCacheRow[];
 }
 
+// ── Reverse Geocode ──────────────────────────────────────────────────
+
+export interface ReverseGeocodeCacheRow {
+  id: number;
+  lat: number;
+  lng: number;
+  provider: string;
+  results: string; // JSON
+  raw: string | null;
+  created_at: string;
+}
+
+export function saveReverseGeocodeResult(
+  lat: number,
+  lng: number,
+  provider: GeocodingProviderId,
+  results: unknown[],
+  raw?: unknown,
+) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT INTO reverse_geocode_results (lat, lng, provider, results, raw)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  stmt.run(lat, lng, provider, JSON.stringify(results), raw ? JSON.stringify(raw) : null);
+}
+
+export function findReverseGeocodeResult(
+  lat: number,
+  lng: number,
+): ReverseGeocodeCacheRow | undefined {
+  const db = getDb();
+  // Match within ~11 m precision (≈0.0001°)
+  return db
+    .prepare(
+      `SELECT * FROM reverse_geocode_results
+       WHERE abs(lat - ?) < 0.0001 AND abs(lng - ?) < 0.0001
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .get(lat, lng) as ReverseGeocodeCacheRow | undefined;
+}
+
+// ── Gazetteer (offline cities) ───────────────────────────────────────
+
+export interface GazetteerRow {
+  id: number;
+  name: string;
+  alt_names: string;
+  lat: number;
+  lng: number;
+  country: string;
+  admin1: string;
+  admin1_code: string;
+  population: number;
+}
+
+export interface GazetteerPlace {
+  name: string;
+  alt?: string[];
+  lat: number;
+  lng: number;
+  country: string;
+  admin1?: string;
+  admin1Code?: string;
+  population?: number;
+}
+
+/** Signature of the dataset currently imported (file size + mtime), if any */
+export function getGazetteerSource(): string | undefined {
+  const db = getDb();
+  const row = db
+    .prepare(`SELECT value FROM gazetteer_meta WHERE key = 'source'`)
+    .get() as { value: string } | undefined;
+  return row?.value;
+}
+
+/** Replace the whole gazetteer with `places` and rebuild the full-text index. */
+export function replaceGazetteer(places: GazetteerPlace[], source: string) {
+  const db = getDb();
+  const insert = db.prepare(
+    `INSERT INTO gazetteer (name, alt_names, lat, lng, country, admin1, admin1_code, population)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+  );
+  db.transaction(() => {
+    db.prepare(`DELETE FROM gazetteer`).run();
+    for (const p of places) {
+      insert.run(
+        p.name,
+        (p.alt ?? []).join(","),
+        p.lat,
+        p.lng,
+        p.country,
+        p.admin1 ?? "",
+        p.admin1Code ?? "",
+        p.population ?? 0,
+      );
+    }
+    db.prepare(`INSERT INTO gazetteer_fts(gazetteer_fts) VALUES ('rebuild')`).run();
+    db.prepare(
+      `INSERT INTO gazetteer_meta (key, value) VALUES ('source', ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+    ).run(source);
+  })();
+}
+
+/** Full-text search over names and alternate names (`match` is an FTS5 query). */
+export function searchGazetteer(match: string, limit = 200): GazetteerRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT g.* FROM gazetteer_fts f
+       JOIN gazetteer g ON g.id = f.rowid
+       WHERE gazetteer_fts MATCH ?
+       ORDER BY g.population DESC
+       LIMIT ?`,
+    )
+    .all(match, limit) as GazetteerRow[];
+}
+
+export function getAllGazetteerPlaces(): GazetteerRow[] {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM gazetteer ORDER BY population DESC`)
+    .all() as GazetteerRow[];
+}
+
+/** Places inside a lat/lng bounding box — callers rank by true distance. */
+export function findGazetteerInBox(
+  minLat: number,
+  maxLat: number,
+  minLng: number,
+  maxLng: number,
+): GazetteerRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM gazetteer
+       WHERE lat BETWEEN ? AND ? AND lng BETWEEN ? AND ?`,
+    )
+    .all(minLat, maxLat, minLng, maxLng) as GazetteerRow[];
+}
+
 // ── Places ───────────────────────────────────────────────────────────
 
 export interface PlaceCacheRow {
@@ -259,10 +653,21 @@ export interface DirectionsCacheRow {
   dest_lat: number;
   dest_lng: number;
   profile: string;
+  via: string | null; // intermediate stops "lng,lat;…" (4 dp), NULL for direct A → B routes
+  depart_at: string | null; // requested departure time as sent to Mapbox, NULL = "now"
+  arrive_by: string | null; // requested arrival time, NULL unless planning backwards
+  labels: string | null; // JSON array of stop labels, in visiting order
+  distance: number | null; // metres, primary route; NULL if Mapbox returned no route
+  duration: number | null; // seconds
   response: string; // JSON
   created_at: string;
 }
 
+/** Cache key for the stops between origin and destination */
+export function directionsViaKey(stops: { lat: number; lng: number }[]): string {
+  return stops.map((p) => `${p.lng.toFixed(4)},${p.lat.toFixed(4)}`).join(";");
+}
+
 export function saveDirectionsResult(
   originLat: number,
   originLng: number,
@@ -270,21 +675,47 @@ export function saveDirectionsResult(
   destLng: number,
   profile: string,
   response: unknown,
+  via = "",
+  schedule: RouteSchedule = {},
+  labels?: string[],
 ) {
   const db = getDb();
+  const primary = (response as { routes?: { distance?: number; duration?: number }[] }).routes?.[0];
   const stmt = db.prepare(`
-    INSERT INTO directions (origin_lat, origin_lng, dest_lat, dest_lng, profile, response)
-    VALUES (?, ?, ?, ?, ?, ?)
+    INSERT INTO directions
+      (origin_lat, origin_lng, dest_lat, dest_lng, profile, via, depart_at, arrive_by, labels, distance, duration, response)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
-  stmt.run(originLat, originLng, destLat, destLng, profile, JSON.stringify(response));
+  stmt.run(
+    originLat,
+    originLng,
+    destLat,
+    destLng,
+    profile,
+    via || null,
+    schedule.departAt || null,
+    schedule.arriveBy || null,
+    labels?.length ? JSON.stringify(labels) : null,
+    primary?.distance ?? null,
+    primary?.duration ?? null,
+    JSON.stringify(response),
+  );
 }
 
+/**
+ * Most recent cached route for the same endpoints (~0.0001°), intermediate
+ * stops (`via`, see `directionsViaKey`), profile and departure / arrival time.
+ * When `maxAgeSeconds` is given, rows older than that are ignored.
+ */
 export function findDirectionsResult(
   originLat: number,
   originLng: number,
   destLat: number,
   destLng: number,
   profile: string,
+  maxAgeSeconds?: number,
+  via = "",
+  schedule: RouteSchedule = {},
 ): DirectionsCacheRow | undefined {
   const db = getDb();
   return db
@@ -295,9 +726,112 @@ export function findDirectionsResult(
          AND abs(dest_lat - ?)   < 0.0001
          AND abs(dest_lng - ?)   < 0.0001
          AND profile = ?
+         AND coalesce(via, '') = ?
+         AND coalesce(depart_at, '') = ?
+         AND coalesce(arrive_by, '') = ?
+         AND (? IS NULL OR created_at >= datetime('now', ?))
        ORDER BY created_at DESC LIMIT 1`,
     )
-    .get(originLat, originLng, destLat, destLng, profile) as DirectionsCacheRow | undefined;
+    .get(
+      originLat,
+      originLng,
+      destLat,
+      destLng,
+      profile,
+      via,
+      schedule.departAt ?? "",
+      schedule.arriveBy ?? "",
+      maxAgeSeconds ?? null,
+      `-${Math.floor(maxAgeSeconds ?? 0)} seconds`,
+    ) as DirectionsCacheRow | undefined;
+}
+
+/**
+ * Every scheduled (`depart_at` / `arrive_by`) result stored for one route,
+ * newest first — for comparing the same trip at different times of day.
+ */
+export function findScheduledDirections(
+  originLat: number,
+  originLng: number,
+  destLat: number,
+  destLng: number,
+  profile: string,
+  via = "",
+): DirectionsCacheRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM directions
+       WHERE abs(origin_lat - ?) < 0.0001
+         AND abs(origin_lng - ?) < 0.0001
+         AND abs(dest_lat - ?)   < 0.0001
+         AND abs(dest_lng - ?)   < 0.0001
+         AND profile = ?
+         AND coalesce(via, '') = ?
+         AND (depart_at IS NOT NULL OR arrive_by IS NOT NULL)
+       ORDER BY created_at DESC`,
+    )
+    .all(originLat, originLng, destLat, destLng, profile, via) as DirectionsCacheRow[];
+}
+
+export function getDirectionsById(id: number): DirectionsCacheRow | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT * FROM directions WHERE id = ?`).get(id) as DirectionsCacheRow | undefined;
+}
+
+/** A `directions` row with a route, without the response body */
+export interface DirectionsHistoryRow extends Omit<DirectionsCacheRow, "response" | "distance" | "duration"> {
+  distance: number; // metres
+  duration: number; // seconds
+  waypoints: string | null; // JSON `waypoints` array from the Mapbox response (snapped names)
+}
+
+export interface DirectionsHistoryFilter {
+  profile?: string;
+  from?: string; // YYYY-MM-DD, inclusive (UTC)
+  to?: string; // YYYY-MM-DD, inclusive (UTC)
+  limit: number;
+  offset: number;
+}
+
+/**
+ * One page of stored routes, newest first, plus the total matching `filter`.
+ * Filters and totals use plain columns; only the page's rows have their
+ * snapped waypoint names read out of the response.
+ */
+export function getDirectionsHistory(filter: DirectionsHistoryFilter): { rows: DirectionsHistoryRow[]; total: number } {
+  const db = getDb();
+  const where = `
+    WHERE distance IS NOT NULL
+      AND (? IS NULL OR profile = ?)
+      AND (? IS NULL OR created_at >= ?)
+      AND (? IS NULL OR created_at < date(?, '+1 day'))`;
+  const params = [
+    filter.profile ?? null,
+    filter.profile ?? null,
+    filter.from ?? null,
+    filter.from ?? null,
+    filter.to ?? null,
+    filter.to ?? null,
+  ];
+
+  const rows = db
+    .prepare(
+      `SELECT page.*, (SELECT json_extract(response, '$.waypoints') FROM directions WHERE id = page.id) AS waypoints
+       FROM (
+         SELECT id, origin_lat, origin_lng, dest_lat, dest_lng, profile, via, depart_at, arrive_by, labels,
+                distance, duration, created_at
+         FROM directions ${where}
+         ORDER BY created_at DESC, id DESC
+         LIMIT ? OFFSET ?
+       ) AS page
+       ORDER BY page.created_at DESC, page.id DESC`,
+    )
+    .all(...params, filter.limit, filter.offset) as DirectionsHistoryRow[];
+  const { total } = db.prepare(`SELECT count(*) AS total FROM directions ${where}`).get(...params) as {
+    total: number;
+  };
+  return { rows, total };
 }
 
 export function getAllDirections(): DirectionsCacheRow[] {
@@ -307,6 +841,122 @@ export function getAllDirections(): DirectionsCacheRow[] {
     .all() as DirectionsCacheRow[];
 }
 
+// ── Travel Matrices ──────────────────────────────────────────────────
+
+export interface MatrixCacheRow {
+  id: number;
+  profile: string;
+  coordinates: string; // see `directionsViaKey`
+  response: string; // JSON
+  created_at: string;
+}
+
+export function saveMatrixResult(profile: string, coordinates: string, response: unknown) {
+  const db = getDb();
+  db.prepare(`INSERT INTO matrices (profile, coordinates, response) VALUES (?, ?, ?)`).run(
+    profile,
+    coordinates,
+    JSON.stringify(response),
+  );
+}
+
+/**
+ * Most recent cached matrix for exactly these points (same order, 4 dp) and
+ * profile. When `maxAgeSeconds` is given, rows older than that are ignored.
+ */
+export function findMatrixResult(
+  profile: string,
+  coordinates: string,
+  maxAgeSeconds?: number,
+): MatrixCacheRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM matrices
+       WHERE profile = ?
+         AND coordinates = ?
+         AND (? IS NULL OR created_at >= datetime('now', ?))
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .get(profile, coordinates, maxAgeSeconds ?? null, `-${Math.floor(maxAgeSeconds ?? 0)} seconds`) as
+    | MatrixCacheRow
+    | undefined;
+}
+
+// ── Terrain Tiles ────────────────────────────────────────────────────
+
+export interface TerrainTileRow {
+  id: number;
+  z: number;
+  x: number;
+  y: number;
+  data: Buffer;
+  created_at: string;
+}
+
+export function saveTerrainTile(z: number, x: number, y: number, data: Buffer) {
+  const db = getDb();
+  db.prepare(`INSERT OR IGNORE INTO terrain_tiles (z, x, y, data) VALUES (?, ?, ?, ?)`).run(z, x, y, data);
+}
+
+export function findTerrainTile(z: number, x: number, y: number): TerrainTileRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT * FROM terrain_tiles WHERE z = ? AND x = ? AND y = ?`)
+    .get(z, x, y) as TerrainTileRow | undefined;
+}
+
+// ── Isochrones ───────────────────────────────────────────────────────
+
+export interface IsochroneCacheRow {
+  id: number;
+  lat: number;
+  lng: number;
+  profile: string;
+  minutes: string;
+  response: string; // JSON
+  created_at: string;
+}
+
+export function saveIsochroneResult(lat: number, lng: number, profile: string, minutes: string, response: unknown) {
+  const db = getDb();
+  db.prepare(
+    `INSERT INTO isochrones (lat, lng, profile, minutes, response) VALUES (?, ?, ?, ?, ?)`,
+  ).run(lat, lng, profile, minutes, JSON.stringify(response));
+}
+
+/**
+ * Most recent cached isochrone for the same point (~0.0001°), profile and
+ * contour list. When `maxAgeSeconds` is given, rows older than that are ignored.
+ */
+export function findIsochroneResult(
+  lat: number,
+  lng: number,
+  profile: string,
+  minutes: string,
+  maxAgeSeconds?: number,
+): IsochroneCacheRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT * FROM isochrones
+       WHERE abs(lat - ?) < 0.0001
+         AND abs(lng - ?) < 0.0001
+         AND profile = ?
+         AND minutes = ?
+         AND (? IS NULL OR created_at >= datetime('now', ?))
+       ORDER BY created_at DESC LIMIT 1`,
+    )
+    .get(
+      lat,
+      lng,
+      profile,
+      minutes,
+      maxAgeSeconds ?? null,
+      `-${Math.floor(maxAgeSeconds ?? 0)} seconds`,
+    ) as IsochroneCacheRow | undefined;
+}
+
 // ── Saved Points (Presets) ───────────────────────────────────────────
 
 export interface SavedPointRow {
@@ -315,10 +965,36 @@ export interface SavedPointRow {
   lat: number;
   lng: number;
   color: string | null;
+  notes: string | null;
+  tags: string | null; // JSON array of strings
+  attributes: string | null; // JSON object of string → string
   created_at: string;
   updated_at: string;
 }
 
+/** Filters for `getAllSavedPoints` — every given condition must match */
+export interface SavedPointFilter {
+  tags?: string[]; // point has all of these tags (case-insensitive)
+  attributes?: { key: string; value?: string }[]; // key present, and equal to `value` when given
+  q?: string; // substring of the label, notes, a tag or an attribute value
+}
+
+/** Row → API shape, with the JSON columns parsed */
+export function savedPointFromRow(row: SavedPointRow): SavedPoint {
+  return {
+    id: row.id,
+    label: row.label,
+    lat: row.lat,
+    lng: row.lng,
+    color: row.color,
+    notes: row.notes,
+    tags: row.tags ? (JSON.parse(row.tags) as string[]) : [],
+    attributes: row.attributes ? (JSON.parse(row.attributes) as Record<string, string>) : {},
+    createdAt: sqliteUtc(row.created_at),
+    updatedAt: sqliteUtc(row.updated_at),
+  };
+}
+
 /**
  * Upsert a saved point. If a point with the same coords (~0.0001°) exists,
  * update it; otherwise insert a new row. Returns the row id.
@@ -350,11 +1026,131 @@ export function saveSavedPoint(
   return Number(result.lastInsertRowid);
 }
 
-export function getAllSavedPoints(): SavedPointRow[] {
+/** Upsert many saved points in a single transaction (batch imports). Returns the row ids. */
+export function saveSavedPoints(
+  points: { label: string; lat: number; lng: number; color?: string }[],
+): number[] {
   const db = getDb();
+  return db.transaction(() => points.map((p) => saveSavedPoint(p.label, p.lat, p.lng, p.color)))();
+}
+
+export function getAllSavedPoints(filter: SavedPointFilter = {}): SavedPointRow[] {
+  const db = getDb();
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  for (const tag of filter.tags ?? []) {
+    where.push(`EXISTS (SELECT 1 FROM json_each(saved_points.tags) WHERE value = ? COLLATE NOCASE)`);
+    params.push(tag);
+  }
+  for (const { key, value } of filter.attributes ?? []) {
+    where.push(
+      `EXISTS (SELECT 1 FROM json_each(saved_points.attributes) WHERE key = ? AND (? IS NULL OR value = ? COLLATE NOCASE))`,
+    );
+    params.push(key, value ?? null, value ?? null);
+  }
+  if (filter.q) {
+    const like = `%${filter.q.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+    where.push(
+      `(label LIKE ? ESCAPE '\\' OR notes LIKE ? ESCAPE '\\'
+        OR EXISTS (SELECT 1 FROM json_each(saved_points.tags) WHERE value LIKE ? ESCAPE '\\')
+        OR EXISTS (SELECT 1 FROM json_each(saved_points.attributes) WHERE value LIKE ? ESCAPE '\\'))`,
+    );
+    params.push(like, like, like, like);
+  }
+
   return db
-    .prepare(`SELECT * FROM saved_points ORDER BY created_at DESC`)
-    .all() as SavedPointRow[];
+    .prepare(
+      `SELECT * FROM saved_points
+       ${where.length ? `WHERE ${where.join(" AND ")}` : ""}
+       ORDER BY created_at DESC`,
+    )
+    .all(...params) as SavedPointRow[];
+}
+
+/**
+ * Replace a saved point's notes, tags and/or attributes — omitted fields are
+ * left as they are. Returns false if no point has that id.
+ */
+export function updateSavedPointDetails(
+  id: number,
+  details: { notes?: string | null; tags?: string[]; attributes?: Record<string, string> },
+): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `UPDATE saved_points
+       SET notes      = CASE WHEN ? THEN ? ELSE notes END,
+           tags       = coalesce(?, tags),
+           attributes = coalesce(?, attributes),
+           updated_at = datetime('now')
+       WHERE id = ?`,
+    )
+    .run(
+      details.notes !== undefined ? 1 : 0,
+      details.notes || null,
+      details.tags ? JSON.stringify(details.tags) : null,
+      details.attributes ? JSON.stringify(details.attributes) : null,
+      id,
+    );
+  return result.changes > 0;
+}
+
+export type SavedPointImportOutcome = "added" | "updated" | "skipped";
+
+/**
+ * Write imported points in one transaction, keeping their timestamps (ISO
+ * strings) when given. A point within ~0.0001° of an existing one — including
+ * an earlier point of the same import — is a duplicate: `skip` leaves the saved
+ * row alone, `update` overwrites its label, colour and details.
+ */
+export function importSavedPoints(
+  points: {
+    label: string;
+    lat: number;
+    lng: number;
+    color?: string | null;
+    notes?: string | null;
+    tags?: string[];
+    attributes?: Record<string, string>;
+    createdAt?: string;
+    updatedAt?: string;
+  }[],
+  duplicates: "skip" | "update",
+): SavedPointImportOutcome[] {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO saved_points (label, lat, lng, color, notes, tags, attributes, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, coalesce(?, datetime('now')), coalesce(?, ?, datetime('now')))
+  `);
+  const update = db.prepare(`
+    UPDATE saved_points
+    SET label = ?, color = ?, notes = ?, tags = ?, attributes = ?, updated_at = coalesce(?, datetime('now'))
+    WHERE id = ?
+  `);
+  const toSqlite = (iso?: string) => (iso ? new Date(iso).toISOString().replace("T", " ").slice(0, 19) : null);
+
+  return db.transaction(() =>
+    points.map((p): SavedPointImportOutcome => {
+      const fields = [
+        p.label,
+        p.color ?? "#ffcc00",
+        p.notes || null,
+        p.tags?.length ? JSON.stringify(p.tags) : null,
+        p.attributes && Object.keys(p.attributes).length ? JSON.stringify(p.attributes) : null,
+      ];
+      const existing = findSavedPointByCoords(p.lat, p.lng);
+      if (existing) {
+        if (duplicates === "skip") return "skipped";
+        update.run(...fields, toSqlite(p.updatedAt), existing.id);
+        return "updated";
+      }
+      const [label, color, notes, tags, attributes] = fields;
+      const createdAt = toSqlite(p.createdAt);
+      insert.run(label, p.lat, p.lng, color, notes, tags, attributes, createdAt, toSqlite(p.updatedAt), createdAt);
+      return "added";
+    }),
+  )();
 }
 
 export function updatePointLabelByCoords(
@@ -369,6 +1165,15 @@ export function updatePointLabelByCoords(
   ).run(label, lat, lng);
 }
 
+/** Move a saved point (e.g. its pin was dragged on the globe or map) */
+export function moveSavedPoint(id: number, lat: number, lng: number): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(`UPDATE saved_points SET lat = ?, lng = ?, updated_at = datetime('now') WHERE id = ?`)
+    .run(lat, lng, id);
+  return result.changes > 0;
+}
+
 export function deleteSavedPoint(id: number) {
   const db = getDb();
   db.prepare(`DELETE FROM saved_points WHERE id = ?`).run(id);
@@ -387,3 +1192,157 @@ export function findSavedPointByCoords(
     )
     .get(lat, lng) as SavedPointRow | undefined;
 }
+
+// ── Collections ──────────────────────────────────────────────────────
+
+export interface CollectionRow {
+  id: number;
+  name: string;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+  point_ids: string | null; // comma-separated saved_points ids
+}
+
+export function getAllCollections(): CollectionRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT c.*, group_concat(cp.point_id) AS point_ids
+       FROM collections c
+       LEFT JOIN collection_points cp ON cp.collection_id = c.id
+       GROUP BY c.id
+       ORDER BY c.name COLLATE NOCASE`,
+    )
+    .all() as CollectionRow[];
+}
+
+export function findCollectionByName(name: string): { id: number } | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT id FROM collections WHERE name = ?`).get(name) as { id: number } | undefined;
+}
+
+/** Create a collection, optionally with initial members. Returns the row id. */
+export function createCollection(name: string, color?: string, pointIds: number[] = []): number {
+  const db = getDb();
+  return db.transaction(() => {
+    const result = db
+      .prepare(`INSERT INTO collections (name, color) VALUES (?, ?)`)
+      .run(name, color ?? "#ffcc00");
+    const id = Number(result.lastInsertRowid);
+    addPointsToCollection(id, pointIds);
+    return id;
+  })();
+}
+
+/** Rename / recolour; returns false if the collection doesn't exist */
+export function updateCollection(id: number, changes: { name?: string; color?: string }): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `UPDATE collections
+       SET name = coalesce(?, name), color = coalesce(?, color), updated_at = datetime('now')
+       WHERE id = ?`,
+    )
+    .run(changes.name ?? null, changes.color ?? null, id);
+  return result.changes > 0;
+}
+
+export function deleteCollection(id: number) {
+  const db = getDb();
+  db.prepare(`DELETE FROM collections WHERE id = ?`).run(id);
+}
+
+/** Ids that aren't saved points are skipped; existing members are left as they are */
+export function addPointsToCollection(collectionId: number, pointIds: number[]) {
+  const db = getDb();
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO collection_points (collection_id, point_id)
+    SELECT ?, id FROM saved_points WHERE id = ?
+  `);
+  db.transaction(() => {
+    for (const pointId of pointIds) stmt.run(collectionId, pointId);
+  })();
+}
+
+export function removePointsFromCollection(collectionId: number, pointIds: number[]) {
+  const db = getDb();
+  const stmt = db.prepare(`DELETE FROM collection_points WHERE collection_id = ? AND point_id = ?`);
+  db.transaction(() => {
+    for (const pointId of pointIds) stmt.run(collectionId, pointId);
+  })();
+}
+
+// ── Workspaces ───────────────────────────────────────────────────────
+
+export interface WorkspaceSummaryRow {
+  id: number;
+  name: string;
+  pin_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceRow extends WorkspaceSummaryRow {
+  state: string; // JSON WorkspaceState
+}
+
+/** Every workspace without its state, most recently saved first */
+export function getAllWorkspaces(): WorkspaceSummaryRow[] {
+  const db = getDb();
+  return db
+    .prepare(
+      `SELECT id, name, json_array_length(state, '$.pins') AS pin_count, created_at, updated_at
+       FROM workspaces
+       ORDER BY updated_at DESC, id DESC`,
+    )
+    .all() as WorkspaceSummaryRow[];
+}
+
+export function getWorkspace(id: number): WorkspaceRow | undefined {
+  const db = getDb();
+  return db
+    .prepare(`SELECT *, json_array_length(state, '$.pins') AS pin_count FROM workspaces WHERE id = ?`)
+    .get(id) as WorkspaceRow | undefined;
+}
+
+export function findWorkspaceByName(name: string): { id: number } | undefined {
+  const db = getDb();
+  return db.prepare(`SELECT id FROM workspaces WHERE name = ?`).get(name) as { id: number } | undefined;
+}
+
+/** Returns the new row id */
+export function createWorkspace(name: string, state: WorkspaceState): number {
+  const db = getDb();
+  const result = db
+    .prepare(`INSERT INTO workspaces (name, state) VALUES (?, ?)`)
+    .run(name, JSON.stringify(state));
+  return Number(result.lastInsertRowid);
+}
+
+/** Rename and / or overwrite the state; returns false if the workspace doesn't exist */
+export function updateWorkspace(id: number, changes: { name?: string; state?: WorkspaceState }): boolean {
+  const db = getDb();
+  const result = db
+    .prepare(
+      `UPDATE workspaces
+       SET name = coalesce(?, name), state = coalesce(?, state), updated_at = datetime('now')
+       WHERE id = ?`,
+    )
+    .run(changes.name ?? null, changes.state ? JSON.stringify(changes.state) : null, id);
+  return result.changes > 0;
+}
+
+/** Copy a workspace's state under a new name; returns the new id, or null if the source doesn't exist */
+export function duplicateWorkspace(id: number, name: string): number | null {
+  const db = getDb();
+  const result = db
+    .prepare(`INSERT INTO workspaces (name, state) SELECT ?, state FROM workspaces WHERE id = ?`)
+    .run(name, id);
+  return result.changes > 0 ? Number(result.lastInsertRowid) : null;
+}
+
+export function deleteWorkspace(id: number) {
+  const db = getDb();
+  db.prepare(`DELETE FROM workspaces WHERE id = ?`).run(id);
+}
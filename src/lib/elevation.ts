@@ -0,0 +1,134 @@
+import { haversineMeters } from "@/lib/routing";
+
+/* ------------------------------------------------------------------ */
+/*  Elevation profiles – route sampling, terrain-RGB tiles, stats      */
+/* ------------------------------------------------------------------ */
+
+export interface ElevationSample {
+  distance: number; // metres from the start of the route
+  elevation: number; // metres above sea level
+  lng: number;
+  lat: number;
+}
+
+export interface ElevationProfile {
+  samples: ElevationSample[];
+  ascent: number; // metres climbed
+  descent: number; // metres descended
+  maxGrade: number; // steepest stretch, percent (signed: negative = downhill)
+  minElevation: number;
+  maxElevation: number;
+}
+
+/** Points sampled along a route — enough for a smooth chart, few enough to stay on a handful of tiles */
+export const MAX_ELEVATION_SAMPLES = 256;
+
+/** Mapbox terrain-RGB: z14 is ~10 m/pixel at the equator. Long routes drop zoom to stay under the tile budget. */
+export const MAX_TERRAIN_ZOOM = 14;
+export const MIN_TERRAIN_ZOOM = 8;
+export const MAX_TERRAIN_TILES = 48;
+
+const TILE_SIZE = 256;
+
+/** No point sampling a DEM more finely than its pixels */
+const MIN_SAMPLE_SPACING = 20;
+
+/** Grades are measured over at least this distance — shorter spans amplify DEM noise */
+const MIN_GRADE_SPAN = 100;
+
+/** `[lng, lat]` points spaced evenly along the line, including both ends */
+export function sampleLine(coords: [number, number][], maxSamples = MAX_ELEVATION_SAMPLES): ElevationSample[] {
+  if (coords.length === 0) return [];
+
+  const cumulative = [0];
+  for (let i = 1; i < coords.length; i++) {
+    const [lng0, lat0] = coords[i - 1];
+    const [lng1, lat1] = coords[i];
+    cumulative.push(cumulative[i - 1] + haversineMeters({ lat: lat0, lng: lng0 }, { lat: lat1, lng: lng1 }));
+  }
+  const total = cumulative[cumulative.length - 1];
+  const count = total > 0 ? Math.max(2, Math.min(maxSamples, Math.floor(total / MIN_SAMPLE_SPACING) + 1)) : 1;
+
+  const samples: ElevationSample[] = [];
+  let seg = 0;
+  for (let s = 0; s < count; s++) {
+    const distance = count === 1 ? 0 : (total * s) / (count - 1);
+    while (seg < coords.length - 2 && cumulative[seg + 1] < distance) seg++;
+    const span = cumulative[seg + 1] - cumulative[seg];
+    const t = span > 0 ? (distance - cumulative[seg]) / span : 0;
+    const [lng0, lat0] = coords[seg];
+    const [lng1, lat1] = coords[Math.min(seg + 1, coords.length - 1)];
+    samples.push({ distance, elevation: 0, lng: lng0 + (lng1 - lng0) * t, lat: lat0 + (lat1 - lat0) * t });
+  }
+  return samples;
+}
+
+/** Web-Mercator tile `x`/`y` at `zoom` containing the point, plus the pixel within that tile */
+export function terrainTileFor(lng: number, lat: number, zoom: number): { x: number; y: number; px: number; py: number } {
+  const n = 2 ** zoom;
+  const latRad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  const fx = ((lng + 180) / 360) * n;
+  const fy = ((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n;
+  const x = Math.min(n - 1, Math.floor(fx));
+  const y = Math.min(n - 1, Math.floor(fy));
+  return {
+    x,
+    y,
+    px: Math.min(TILE_SIZE - 1, Math.floor((fx - x) * TILE_SIZE)),
+    py: Math.min(TILE_SIZE - 1, Math.floor((fy - y) * TILE_SIZE)),
+  };
+}
+
+/** Highest zoom at which the samples span no more than `MAX_TERRAIN_TILES` tiles */
+export function terrainZoomFor(samples: { lng: number; lat: number }[]): number {
+  for (let z = MAX_TERRAIN_ZOOM; z > MIN_TERRAIN_ZOOM; z--) {
+    const tiles = new Set(samples.map((s) => {
+      const t = terrainTileFor(s.lng, s.lat, z);
+      return `${t.x}/${t.y}`;
+    }));
+    if (tiles.size <= MAX_TERRAIN_TILES) return z;
+  }
+  return MIN_TERRAIN_ZOOM;
+}
+
+/** Mapbox terrain-RGB encoding: height = -10000 + (R·65536 + G·256 + B) × 0.1 */
+export function terrainRgbToMeters(r: number, g: number, b: number): number {
+  return -10000 + (r * 65536 + g * 256 + b) * 0.1;
+}
+
+/** Ascent / descent / max grade over samples with elevations filled in */
+export function elevationProfile(samples: ElevationSample[]): ElevationProfile {
+  // Light 3-point smoothing so DEM pixel noise doesn't inflate the climb totals
+  const smoothed = samples.map((s, i) => {
+    const window = samples.slice(Math.max(0, i - 1), i + 2);
+    return window.reduce((sum, w) => sum + w.elevation, 0) / window.length;
+  });
+
+  let ascent = 0;
+  let descent = 0;
+  for (let i = 1; i < smoothed.length; i++) {
+    const delta = smoothed[i] - smoothed[i - 1];
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+  }
+
+  let maxGrade = 0;
+  let j = 0;
+  for (let i = 0; i < samples.length; i++) {
+    while (j < samples.length - 1 && samples[j].distance - samples[i].distance < MIN_GRADE_SPAN) j++;
+    const span = samples[j].distance - samples[i].distance;
+    if (span < MIN_GRADE_SPAN) break;
+    const grade = ((smoothed[j] - smoothed[i]) / span) * 100;
+    if (Math.abs(grade) > Math.abs(maxGrade)) maxGrade = grade;
+  }
+
+  const elevations = samples.map((s) => s.elevation);
+  return {
+    samples,
+    ascent: Math.round(ascent),
+    descent: Math.round(descent),
+    maxGrade: Math.round(maxGrade * 10) / 10,
+    minElevation: elevations.length ? Math.min(...elevations) : 0,
+    maxElevation: elevations.length ? Math.max(...elevations) : 0,
+  };
+}
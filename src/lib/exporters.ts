@@ -0,0 +1,392 @@
+/* ------------------------------------------------------------------ */
+/*  Route & saved-point exporters – GPX 1.1, KML 2.2, GeoJSON, CSV     */
+/* ------------------------------------------------------------------ */
+
+import type { SavedPoint } from "@/lib/types";
+
+/** Namespace of the `<qterra:tag>` / `<qterra:field>` GPX waypoint extensions */
+export const GPX_EXTENSION_NS = "urn:qterra:gpx:1";
+
+export type RouteExportFormat = "gpx" | "kml" | "geojson";
+
+export const ROUTE_EXPORT_FORMATS: { id: RouteExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "gpx", label: "GPX 1.1", extension: "gpx", mimeType: "application/gpx+xml" },
+  { id: "kml", label: "KML 2.2", extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  { id: "geojson", label: "GeoJSON", extension: "geojson", mimeType: "application/geo+json" },
+];
+
+/** A stop, with the notes / tags / fields of the saved point it matches (if any) */
+export interface ExportableWaypoint {
+  label: string;
+  lat: number;
+  lng: number;
+  notes?: string | null;
+  tags?: string[];
+  attributes?: Record<string, string>;
+}
+
+export type PointExportFormat = RouteExportFormat | "csv";
+
+export const POINT_EXPORT_FORMATS: { id: PointExportFormat; label: string; extension: string; mimeType: string }[] = [
+  ...ROUTE_EXPORT_FORMATS,
+  { id: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+];
+
+/** Fixed CSV columns of a points export; each custom field gets a column of its own after these */
+export const POINT_CSV_COLUMNS = ["label", "lat", "lng", "color", "notes", "tags", "created_at", "updated_at"];
+
+/** Everything an exported route file contains, independent of where the route came from */
+export interface ExportableRoute {
+  name: string;
+  profile?: string;
+  distance: number; // metres
+  duration: number; // seconds
+  waypoints: ExportableWaypoint[];
+  geometry: [number, number][]; // [lng, lat]
+  steps: { instruction: string; distance: number; duration: number; location: [number, number] }[];
+}
+
+/** The parts of a raw Mapbox Directions response the exporter reads */
+interface MapboxDirectionsResponse {
+  routes?: {
+    distance: number;
+    duration: number;
+    geometry: { coordinates: [number, number][] };
+    legs?: {
+      steps?: {
+        distance: number;
+        duration: number;
+        maneuver: { instruction: string; location: [number, number] };
+      }[];
+    }[];
+  }[];
+  waypoints?: { name?: string; location: [number, number] }[];
+}
+
+/**
+ * Build an `ExportableRoute` from a stored Mapbox Directions response (e.g. a
+ * `directions` cache row). Stop labels come from `labels` when given, else from
+ * the road names Mapbox snapped each waypoint to. `null` if the route is missing.
+ */
+export function routeFromMapboxResponse(
+  response: MapboxDirectionsResponse,
+  options: { routeIndex?: number; profile?: string; labels?: string[]; name?: string } = {},
+): ExportableRoute | null {
+  const route = response.routes?.[options.routeIndex ?? 0];
+  if (!route) return null;
+
+  const waypoints = (response.waypoints ?? []).map((w, i) => ({
+    label: options.labels?.[i] || w.name || `Stop ${i + 1}`,
+    lat: w.location[1],
+    lng: w.location[0],
+  }));
+
+  return {
+    name: options.name ?? (waypoints.map((w) => w.label).join(" → ") || "Route"),
+    profile: options.profile,
+    distance: route.distance,
+    duration: route.duration,
+    waypoints,
+    geometry: route.geometry.coordinates,
+    steps: (route.legs ?? []).flatMap((leg) =>
+      (leg.steps ?? []).map((st) => ({
+        instruction: st.maneuver.instruction,
+        distance: st.distance,
+        duration: st.duration,
+        location: st.maneuver.location,
+      })),
+    ),
+  };
+}
+
+/** Copy a saved point's notes, tags and fields onto the stop it was matched to */
+export function withPointDetails(waypoint: ExportableWaypoint, point: SavedPoint | null | undefined): ExportableWaypoint {
+  if (!point) return waypoint;
+  return { ...waypoint, notes: point.notes, tags: point.tags, attributes: point.attributes };
+}
+
+/** Serialise a route; returns the file body plus the MIME type and a file name */
+export function exportRoute(
+  route: ExportableRoute,
+  format: RouteExportFormat,
+): { content: string; mimeType: string; filename: string } {
+  const meta = ROUTE_EXPORT_FORMATS.find((f) => f.id === format)!;
+  const content = format === "gpx" ? toGpx(route) : format === "kml" ? toKml(route) : toGeoJson(route);
+  const slug =
+    route.name
+      .normalize("NFKD")
+      .replace(/[^\w\s-]/g, "")
+      .trim()
+      .replace(/\s+/g, "-")
+      .toLowerCase()
+      .slice(0, 60) || "route";
+  return { content, mimeType: meta.mimeType, filename: `${slug}.${meta.extension}` };
+}
+
+/**
+ * Serialise saved points with everything needed to restore them elsewhere
+ * (label, colour, notes, tags, fields and timestamps) — `importers.ts` reads
+ * all four formats back.
+ */
+export function exportPoints(
+  points: SavedPoint[],
+  format: PointExportFormat,
+): { content: string; mimeType: string; filename: string } {
+  const meta = POINT_EXPORT_FORMATS.find((f) => f.id === format)!;
+  const content =
+    format === "gpx"
+      ? pointsToGpx(points)
+      : format === "kml"
+        ? pointsToKml(points)
+        : format === "csv"
+          ? pointsToCsv(points)
+          : pointsToGeoJson(points);
+  return { content, mimeType: meta.mimeType, filename: `qterra-points.${meta.extension}` };
+}
+
+/* ---- formats ---- */
+
+function toGpx(route: ExportableRoute): string {
+  const wpts = route.waypoints
+    .map((w) => {
+      const desc = w.notes ? `<desc>${xml(w.notes)}</desc>` : "";
+      // Tags and fields have no GPX element of their own — keep them in a namespaced extension
+      const ext = [
+        ...(w.tags ?? []).map((t) => `<qterra:tag>${xml(t)}</qterra:tag>`),
+        ...Object.entries(w.attributes ?? {}).map(
+          ([k, v]) => `<qterra:field name="${xml(k)}">${xml(v)}</qterra:field>`,
+        ),
+      ].join("");
+      return `  <wpt lat="${w.lat}" lon="${w.lng}"><name>${xml(w.label)}</name>${desc}${ext ? `<extensions>${ext}</extensions>` : ""}</wpt>`;
+    })
+    .join("\n");
+  const rtepts = route.steps
+    .map(
+      (s, i) =>
+        `    <rtept lat="${s.location[1]}" lon="${s.location[0]}"><name>${i + 1}</name><desc>${xml(s.instruction)}</desc></rtept>`,
+    )
+    .join("\n");
+  const trkpts = route.geometry.map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"/>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Qterra" xmlns="http://www.topografix.com/GPX/1/1" xmlns:qterra="${GPX_EXTENSION_NS}">
+  <metadata>
+    <name>${xml(route.name)}</name>
+    <desc>${xml(describe(route))}</desc>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${wpts}
+  <rte>
+    <name>${xml(route.name)}</name>
+${rtepts}
+  </rte>
+  <trk>
+    <name>${xml(route.name)}</name>
+    <trkseg>
+${trkpts}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+function toKml(route: ExportableRoute): string {
+  const stops = route.waypoints
+    .map((w) => {
+      const description = w.notes ? `<description>${xml(w.notes)}</description>` : "";
+      const data = [
+        ...(w.tags?.length ? [`<Data name="qterra:tags"><value>${xml(w.tags.join(", "))}</value></Data>`] : []),
+        ...Object.entries(w.attributes ?? {}).map(([k, v]) => `<Data name="${xml(k)}"><value>${xml(v)}</value></Data>`),
+      ].join("");
+      return `      <Placemark><name>${xml(w.label)}</name>${description}<styleUrl>#stop</styleUrl>${data ? `<ExtendedData>${data}</ExtendedData>` : ""}<Point><coordinates>${w.lng},${w.lat}</coordinates></Point></Placemark>`;
+    })
+    .join("\n");
+  const steps = route.steps
+    .map(
+      (s, i) =>
+        `      <Placemark><name>${i + 1}. ${xml(s.instruction)}</name><styleUrl>#step</styleUrl><Point><coordinates>${s.location[0]},${s.location[1]}</coordinates></Point></Placemark>`,
+    )
+    .join("\n");
+  const line = route.geometry.map(([lng, lat]) => `${lng},${lat}`).join(" ");
+
+  // KML colours are aabbggrr
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${xml(route.name)}</name>
+    <description>${xml(describe(route))}</description>
+    <Style id="route"><LineStyle><color>fff5a542</color><width>4</width></LineStyle></Style>
+    <Style id="stop"><IconStyle><scale>1.1</scale></IconStyle></Style>
+    <Style id="step"><IconStyle><scale>0.6</scale></IconStyle></Style>
+    <Placemark>
+      <name>${xml(route.name)}</name>
+      <styleUrl>#route</styleUrl>
+      <LineString><tessellate>1</tessellate><coordinates>${line}</coordinates></LineString>
+    </Placemark>
+    <Folder>
+      <name>Stops</name>
+${stops}
+    </Folder>
+    <Folder>
+      <name>Directions</name>
+${steps}
+    </Folder>
+  </Document>
+</kml>
+`;
+}
+
+function toGeoJson(route: ExportableRoute): string {
+  const collection: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        properties: {
+          kind: "route",
+          name: route.name,
+          profile: route.profile ?? null,
+          distance: route.distance,
+          duration: route.duration,
+        },
+        geometry: { type: "LineString", coordinates: route.geometry },
+      },
+      ...route.waypoints.map(
+        (w, i): GeoJSON.Feature => ({
+          type: "Feature",
+          properties: {
+            kind: "waypoint",
+            index: i,
+            label: w.label,
+            ...(w.notes && { notes: w.notes }),
+            ...(w.tags?.length && { tags: w.tags }),
+            ...(w.attributes && Object.keys(w.attributes).length > 0 && { attributes: w.attributes }),
+          },
+          geometry: { type: "Point", coordinates: [w.lng, w.lat] },
+        }),
+      ),
+      ...route.steps.map(
+        (s, i): GeoJSON.Feature => ({
+          type: "Feature",
+          properties: { kind: "step", index: i, instruction: s.instruction, distance: s.distance, duration: s.duration },
+          geometry: { type: "Point", coordinates: s.location },
+        }),
+      ),
+    ],
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+function pointsToGpx(points: SavedPoint[]): string {
+  const wpts = points
+    .map((p) => {
+      const ext = [
+        p.color ? `<qterra:color>${xml(p.color)}</qterra:color>` : "",
+        ...p.tags.map((t) => `<qterra:tag>${xml(t)}</qterra:tag>`),
+        ...Object.entries(p.attributes).map(([k, v]) => `<qterra:field name="${xml(k)}">${xml(v)}</qterra:field>`),
+        `<qterra:updated>${p.updatedAt}</qterra:updated>`,
+      ].join("");
+      return `  <wpt lat="${p.lat}" lon="${p.lng}"><time>${p.createdAt}</time><name>${xml(p.label)}</name>${
+        p.notes ? `<desc>${xml(p.notes)}</desc>` : ""
+      }<extensions>${ext}</extensions></wpt>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Qterra" xmlns="http://www.topografix.com/GPX/1/1" xmlns:qterra="${GPX_EXTENSION_NS}">
+  <metadata>
+    <name>Qterra saved points</name>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${wpts}
+</gpx>
+`;
+}
+
+function pointsToKml(points: SavedPoint[]): string {
+  const placemarks = points
+    .map((p) => {
+      // `qterra:`-prefixed names keep our own values apart from custom fields of the same name
+      const data = [
+        ...(p.tags.length ? [["qterra:tags", p.tags.join(", ")]] : []),
+        ...Object.entries(p.attributes),
+        ...(p.color ? [["qterra:color", p.color]] : []),
+        ["qterra:created_at", p.createdAt],
+        ["qterra:updated_at", p.updatedAt],
+      ]
+        .map(([k, v]) => `<Data name="${xml(k)}"><value>${xml(v)}</value></Data>`)
+        .join("");
+      return `    <Placemark><name>${xml(p.label)}</name>${
+        p.notes ? `<description>${xml(p.notes)}</description>` : ""
+      }<ExtendedData>${data}</ExtendedData><Point><coordinates>${p.lng},${p.lat}</coordinates></Point></Placemark>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Qterra saved points</name>
+${placemarks}
+  </Document>
+</kml>
+`;
+}
+
+function pointsToGeoJson(points: SavedPoint[]): string {
+  const collection: GeoJSON.FeatureCollection = {
+    type: "FeatureCollection",
+    features: points.map(
+      (p): GeoJSON.Feature => ({
+        type: "Feature",
+        properties: {
+          label: p.label,
+          color: p.color,
+          notes: p.notes,
+          tags: p.tags,
+          attributes: p.attributes,
+          createdAt: p.createdAt,
+          updatedAt: p.updatedAt,
+        },
+        geometry: { type: "Point", coordinates: [p.lng, p.lat] },
+      }),
+    ),
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+function pointsToCsv(points: SavedPoint[]): string {
+  const fields = [...new Set(points.flatMap((p) => Object.keys(p.attributes)))];
+  const rows = points.map((p) => [
+    p.label,
+    String(p.lat),
+    String(p.lng),
+    p.color ?? "",
+    p.notes ?? "",
+    p.tags.join("; "),
+    p.createdAt,
+    p.updatedAt,
+    ...fields.map((f) => p.attributes[f] ?? ""),
+  ]);
+  return [[...POINT_CSV_COLUMNS, ...fields], ...rows].map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+/* ---- helpers ---- */
+
+function describe(route: ExportableRoute): string {
+  const km = (route.distance / 1000).toFixed(1);
+  const min = Math.round(route.duration / 60);
+  return `${km} km, ${min} min${route.profile ? ` (${route.profile})` : ""}`;
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
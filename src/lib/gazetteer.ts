@@ -0,0 +1,199 @@
+import path from "path";
+import fs from "fs";
+import {
+  normalizeGeocodeQuery,
+  getGazetteerSource,
+  replaceGazetteer,
+  searchGazetteer,
+  getAllGazetteerPlaces,
+  findGazetteerInBox,
+  type GazetteerPlace,
+  type GazetteerRow,
+} from "@/lib/db";
+import { haversineMeters } from "@/lib/routing";
+import type { GeocodeResult } from "@/lib/types";
+
+/* ------------------------------------------------------------------ */
+/*  Offline gazetteer – bundled GeoNames cities, searched via SQLite   */
+/* ------------------------------------------------------------------ */
+
+const DATA_PATH = path.join(process.cwd(), "public", "data", "cities.json");
+
+/** Reverse lookups further than this from any known place return nothing */
+const MAX_REVERSE_KM = 100;
+
+// Common country shorthands typed after a comma ("Paris, USA")
+const COUNTRY_ALIASES: Record<string, string> = {
+  usa: "US",
+  "united states of america": "US",
+  america: "US",
+  uk: "GB",
+  britain: "GB",
+  "great britain": "GB",
+  uae: "AE",
+  holland: "NL",
+  "south korea": "KR",
+  "north korea": "KP",
+  russia: "RU",
+  "czech republic": "CZ",
+};
+
+const countryNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+let checked = false;
+let fuzzyIndex: { row: GazetteerRow; keys: string[] }[] | null = null;
+
+/**
+ * Import `public/data/cities.json` into SQLite on first use, and again
+ * whenever the file changes (e.g. after `scripts/build-gazetteer.mjs`).
+ */
+function ensureLoaded() {
+  if (checked) return;
+  const stat = fs.statSync(DATA_PATH);
+  const source = `${stat.size}:${Math.round(stat.mtimeMs)}`;
+  if (getGazetteerSource() !== source) {
+    const places = JSON.parse(fs.readFileSync(DATA_PATH, "utf8")) as GazetteerPlace[];
+    replaceGazetteer(places, source);
+  }
+  fuzzyIndex = null;
+  checked = true;
+}
+
+/**
+ * Forward search: `"Springfield, IL"` → places named Springfield filtered by
+ * the trailing qualifiers (country, state or their codes). Exact name matches
+ * rank first, then prefix matches, then by population. Street-level input
+ * (`"1 Main St, Springfield, IL"`) degrades to its city part, and edit-distance
+ * matching catches typos ("Pariss") when full-text search finds nothing.
+ */
+export function searchPlaces(query: string, limit = 10): GazetteerRow[] {
+  ensureLoaded();
+  const parts = query.split(",").map((part) => normalizeGeocodeQuery(part)).filter(Boolean);
+  if (!parts.length) return [];
+
+  for (let i = 0; i < parts.length; i++) {
+    const place = parts[i];
+    const qualifiers = parts.slice(i + 1);
+    const tokens = place.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (!tokens.length) continue;
+
+    const match = tokens.map((t) => `"${t}"*`).join(" ");
+    const candidates = searchGazetteer(match).filter((row) => matchesQualifiers(row, qualifiers));
+    if (candidates.length) {
+      return candidates
+        .map((row) => ({ row, score: nameScore(row, place) }))
+        .sort((a, b) => a.score - b.score || b.row.population - a.row.population)
+        .slice(0, limit)
+        .map((c) => c.row);
+    }
+  }
+
+  return fuzzySearch(parts[0], parts.slice(1), limit);
+}
+
+/** Nearest bundled place to a coordinate, within `MAX_REVERSE_KM`. */
+export function nearestPlace(lat: number, lng: number): GazetteerRow | null {
+  ensureLoaded();
+  const dLat = MAX_REVERSE_KM / 111;
+  const dLng = dLat / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+  const [south, north, west, east] = [lat - dLat, lat + dLat, lng - dLng, lng + dLng];
+  // A box that crosses ±180° is searched as its two halves
+  const rows =
+    west < -180
+      ? [...findGazetteerInBox(south, north, west + 360, 180), ...findGazetteerInBox(south, north, -180, east)]
+      : east > 180
+        ? [...findGazetteerInBox(south, north, west, 180), ...findGazetteerInBox(south, north, -180, east - 360)]
+        : findGazetteerInBox(south, north, west, east);
+
+  let best: GazetteerRow | null = null;
+  let bestKm = MAX_REVERSE_KM;
+  for (const row of rows) {
+    const km = haversineMeters({ lat, lng }, row) / 1000;
+    if (km <= bestKm) {
+      best = row;
+      bestKm = km;
+    }
+  }
+  return best;
+}
+
+/** `{ name: "Springfield", fullAddress: "Springfield, Illinois, United States" }` */
+export function toGeocodeResult(row: GazetteerRow): GeocodeResult {
+  const parts = [row.name];
+  if (row.admin1 && normalizeGeocodeQuery(row.admin1) !== normalizeGeocodeQuery(row.name)) parts.push(row.admin1);
+  parts.push(countryName(row.country));
+  return { lat: row.lat, lng: row.lng, name: row.name, fullAddress: parts.join(", ") };
+}
+
+/* ---- helpers ---- */
+
+function matchesQualifiers(row: GazetteerRow, qualifiers: string[]): boolean {
+  return qualifiers.every((q) => {
+    const code = COUNTRY_ALIASES[q] ?? q.toUpperCase();
+    return (
+      row.country === code ||
+      normalizeGeocodeQuery(countryName(row.country)) === q ||
+      normalizeGeocodeQuery(row.admin1) === q ||
+      (row.admin1_code !== "" && row.admin1_code.toLowerCase() === q)
+    );
+  });
+}
+
+/** 0 = exact (name or alternate), 1 = name starts with the query, 2 = other token match */
+function nameScore(row: GazetteerRow, place: string): number {
+  const names = [row.name, ...row.alt_names.split(",")].map(normalizeGeocodeQuery);
+  if (names.includes(place)) return 0;
+  if (names.some((n) => n.startsWith(place))) return 1;
+  return 2;
+}
+
+function fuzzySearch(place: string, qualifiers: string[], limit: number): GazetteerRow[] {
+  if (!fuzzyIndex) {
+    fuzzyIndex = getAllGazetteerPlaces().map((row) => ({
+      row,
+      keys: [row.name, ...row.alt_names.split(",")].filter(Boolean).map(normalizeGeocodeQuery),
+    }));
+  }
+
+  // One typo per ~4 characters, at most 2
+  const maxDistance = Math.min(2, Math.max(1, Math.floor(place.length / 4)));
+  const hits: { row: GazetteerRow; distance: number }[] = [];
+  for (const { row, keys } of fuzzyIndex) {
+    if (!matchesQualifiers(row, qualifiers)) continue;
+    let distance = Infinity;
+    for (const key of keys) {
+      if (Math.abs(key.length - place.length) > maxDistance) continue;
+      distance = Math.min(distance, levenshtein(place, key, maxDistance));
+    }
+    if (distance <= maxDistance) hits.push({ row, distance });
+  }
+
+  return hits
+    .sort((a, b) => a.distance - b.distance || b.row.population - a.row.population)
+    .slice(0, limit)
+    .map((h) => h.row);
+}
+
+/** Edit distance, bailing out early once every path exceeds `max` */
+function levenshtein(a: string, b: string, max: number): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return Infinity;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function countryName(code: string): string {
+  try {
+    return countryNames.of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
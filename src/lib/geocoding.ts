@@ -0,0 +1,353 @@
+import type { GeocodeResult } from "@/lib/types";
+import { saveGeocodeResult, findGeocodeResult, findGeocodeResultsByPrefix } from "@/lib/db";
+import { searchPlaces, nearestPlace, toGeocodeResult } from "@/lib/gazetteer";
+
+/* ------------------------------------------------------------------ */
+/*  Geocoding providers – pluggable forward / reverse geocoder chain   */
+/* ------------------------------------------------------------------ */
+
+export type GeocodingProviderId = "google" | "mapquest" | "nominatim" | "geonames";
+
+export interface GeocodingResponse {
+  results: GeocodeResult[];
+  raw: unknown; // full upstream response, persisted alongside the results
+}
+
+export interface GeocodingProvider {
+  id: GeocodingProviderId;
+  /** `false` when the provider's key / base URL isn't configured — it's skipped */
+  isConfigured(): boolean;
+  geocode(query: string): Promise<GeocodingResponse>;
+  reverse(lat: number, lng: number): Promise<GeocodingResponse>;
+}
+
+// ── Google Maps Geocoding ────────────────────────────────────────────
+
+interface GoogleGeocodeResult {
+  formatted_address?: string;
+  geometry: { location: { lat: number; lng: number } };
+}
+
+interface GoogleGeocodeResponse {
+  status?: string; // "OK" | "ZERO_RESULTS" | "OVER_QUERY_LIMIT" | "REQUEST_DENIED" | …
+  error_message?: string;
+  results?: GoogleGeocodeResult[];
+}
+
+const google: GeocodingProvider = {
+  id: "google",
+  isConfigured: () => !!process.env.GOOGLE_MAPS_API_KEY,
+
+  async geocode(query) {
+    const url = `${googleBase()}/json?address=${encodeURIComponent(query)}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
+    const data = googleChecked(await fetchJson<GoogleGeocodeResponse>(url));
+    return { results: mapGoogle(data.results, query), raw: data };
+  },
+
+  async reverse(lat, lng) {
+    const url = `${googleBase()}/json?latlng=${lat},${lng}&key=${process.env.GOOGLE_MAPS_API_KEY}`;
+    const data = googleChecked(await fetchJson<GoogleGeocodeResponse>(url));
+    return { results: mapGoogle(data.results, formatLatLng(lat, lng)), raw: data };
+  },
+};
+
+/** `GOOGLE_GEOCODE_URL` points the provider at a proxy or mock; defaults to Google's endpoint */
+function googleBase() {
+  return (process.env.GOOGLE_GEOCODE_URL || "https://maps.googleapis.com/maps/api/geocode").replace(/\/+$/, "");
+}
+
+/**
+ * Google reports quota, key and request errors as HTTP 200 with no results —
+ * throw on them so the chain treats them as failures, not as "not found".
+ */
+function googleChecked(data: GoogleGeocodeResponse): GoogleGeocodeResponse {
+  if (data.status && data.status !== "OK" && data.status !== "ZERO_RESULTS") {
+    throw new Error(`Google ${data.status}${data.error_message ? `: ${data.error_message}` : ""}`);
+  }
+  return data;
+}
+
+function mapGoogle(results: GoogleGeocodeResult[] | undefined, fallbackName: string): GeocodeResult[] {
+  return (results ?? []).map((r) => ({
+    lat: r.geometry.location.lat,
+    lng: r.geometry.location.lng,
+    name: r.formatted_address?.split(",")[0] ?? fallbackName,
+    fullAddress: r.formatted_address ?? "",
+  }));
+}
+
+// ── MapQuest ─────────────────────────────────────────────────────────
+
+interface MapQuestLocation {
+  street?: string;
+  adminArea5?: string; // city
+  adminArea3?: string; // state
+  adminArea1?: string; // country
+  latLng: { lat: number; lng: number };
+}
+
+interface MapQuestResponse {
+  results?: { locations?: MapQuestLocation[] }[];
+}
+
+const mapquest: GeocodingProvider = {
+  id: "mapquest",
+  isConfigured: () => !!process.env.MAPQUEST_API_KEY,
+
+  async geocode(query) {
+    const url = `${mapquestBase()}/address?key=${process.env.MAPQUEST_API_KEY}&location=${encodeURIComponent(query)}`;
+    const data = await fetchJson<MapQuestResponse>(url);
+    const locations = data.results?.[0]?.locations ?? [];
+    const results = locations.map((loc) => ({
+      lat: loc.latLng.lat,
+      lng: loc.latLng.lng,
+      name: loc.adminArea5 || loc.adminArea3 || query,
+      fullAddress: [loc.adminArea5, loc.adminArea3, loc.adminArea1].filter(Boolean).join(", "),
+    }));
+    return { results, raw: data };
+  },
+
+  async reverse(lat, lng) {
+    const url = `${mapquestBase()}/reverse?key=${process.env.MAPQUEST_API_KEY}&location=${lat},${lng}`;
+    const data = await fetchJson<MapQuestResponse>(url);
+    const locations = data.results?.[0]?.locations ?? [];
+    const results = locations.map((loc) => ({
+      lat: loc.latLng.lat,
+      lng: loc.latLng.lng,
+      name: loc.street || loc.adminArea5 || loc.adminArea3 || formatLatLng(lat, lng),
+      fullAddress: [loc.street, loc.adminArea5, loc.adminArea3, loc.adminArea1].filter(Boolean).join(", "),
+    }));
+    return { results, raw: data };
+  },
+};
+
+/** `MAPQUEST_GEOCODE_URL` points the provider at a proxy or mock; defaults to MapQuest's endpoint */
+function mapquestBase() {
+  return (process.env.MAPQUEST_GEOCODE_URL || "https://www.mapquestapi.com/geocoding/v1").replace(/\/+$/, "");
+}
+
+// ── Nominatim (OpenStreetMap, self-hostable) ─────────────────────────
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  name?: string;
+  display_name?: string;
+}
+
+const nominatim: GeocodingProvider = {
+  id: "nominatim",
+  isConfigured: () => !!process.env.NOMINATIM_URL,
+
+  async geocode(query) {
+    const url = `${nominatimBase()}/search?q=${encodeURIComponent(query)}&format=jsonv2&limit=10`;
+    const data = await fetchJson<NominatimPlace[]>(url, NOMINATIM_HEADERS);
+    return { results: data.map((p) => mapNominatim(p, query)), raw: data };
+  },
+
+  async reverse(lat, lng) {
+    const url = `${nominatimBase()}/reverse?lat=${lat}&lon=${lng}&format=jsonv2`;
+    const data = await fetchJson<NominatimPlace & { error?: string }>(url, NOMINATIM_HEADERS);
+    const results = data.error ? [] : [mapNominatim(data, formatLatLng(lat, lng))];
+    return { results, raw: data };
+  },
+};
+
+// The public OSM instance requires an identifying User-Agent
+const NOMINATIM_HEADERS = { "User-Agent": "Qterra (https://github.com/carlosjovi/qterra)" };
+
+function nominatimBase() {
+  return (process.env.NOMINATIM_URL ?? "").replace(/\/+$/, "");
+}
+
+function mapNominatim(p: NominatimPlace, fallbackName: string): GeocodeResult {
+  return {
+    lat: parseFloat(p.lat),
+    lng: parseFloat(p.lon),
+    name: p.name || p.display_name?.split(",")[0] || fallbackName,
+    fullAddress: p.display_name ?? "",
+  };
+}
+
+// ── GeoNames gazetteer (bundled, offline) ────────────────────────────
+
+const geonames: GeocodingProvider = {
+  id: "geonames",
+  isConfigured: () => true, // ships with the app — see src/lib/gazetteer.ts
+
+  async geocode(query) {
+    const places = searchPlaces(query);
+    return { results: places.map(toGeocodeResult), raw: places };
+  },
+
+  async reverse(lat, lng) {
+    const place = nearestPlace(lat, lng);
+    return { results: place ? [toGeocodeResult(place)] : [], raw: place };
+  },
+};
+
+// ── Provider chain ───────────────────────────────────────────────────
+
+const PROVIDERS: Record<GeocodingProviderId, GeocodingProvider> = { google, mapquest, nominatim, geonames };
+
+const DEFAULT_ORDER = "google,mapquest,nominatim,geonames";
+
+/** Providers answering from bundled data, as opposed to an upstream service */
+export function isLocalProvider(id: GeocodingProviderId): boolean {
+  return id === "geonames";
+}
+
+/**
+ * Local providers answer instantly from bundled data — caching their
+ * city-level hits would only shadow better upstream results once a key is set.
+ */
+export function isCacheableProvider(id: GeocodingProviderId): boolean {
+  return !isLocalProvider(id);
+}
+
+/**
+ * Providers in the order given by `GEOCODING_PROVIDERS` (comma-separated ids),
+ * skipping unknown ids and providers without configuration.
+ */
+export function getGeocodingProviders(): GeocodingProvider[] {
+  const order = (process.env.GEOCODING_PROVIDERS || DEFAULT_ORDER)
+    .split(",")
+    .map((id) => id.trim().toLowerCase())
+    .filter((id): id is GeocodingProviderId => id in PROVIDERS);
+  return [...new Set(order)].map((id) => PROVIDERS[id]).filter((p) => p.isConfigured());
+}
+
+export interface ChainResult extends GeocodingResponse {
+  provider: GeocodingProviderId;
+  /** Upstream providers that failed before `provider` answered */
+  failed: GeocodingProviderId[];
+}
+
+/**
+ * Forward-geocode through the chain; the first provider with results wins.
+ * `null` means no provider found a match. If every upstream provider failed
+ * (network, quota, bad key) and no local one matched, it throws instead, so an
+ * outage isn't mistaken for "not found"; a local match after such failures
+ * lists them in `failed`.
+ */
+export async function geocodeWithProviders(query: string): Promise<ChainResult | null> {
+  return runChain("geocoding", (p) => p.geocode(query));
+}
+
+/** Reverse-geocode through the chain, as `geocodeWithProviders`. */
+export async function reverseGeocodeWithProviders(lat: number, lng: number): Promise<ChainResult | null> {
+  return runChain("reverse geocoding", (p) => p.reverse(lat, lng));
+}
+
+/**
+ * How long a cached geocode result stays valid, in days.
+ * `GEOCODE_CACHE_TTL_DAYS=0` keeps cached results forever.
+ */
+const CACHE_TTL_DAYS = parseFloat(process.env.GEOCODE_CACHE_TTL_DAYS ?? "30");
+const CACHE_MAX_AGE_S =
+  Number.isFinite(CACHE_TTL_DAYS) && CACHE_TTL_DAYS > 0 ? CACHE_TTL_DAYS * 86_400 : undefined;
+
+export interface CachedGeocode {
+  results: GeocodeResult[];
+  cache: "HIT" | "MISS";
+  /** Upstream providers that failed when only a local provider answered */
+  fallbackAfter?: GeocodingProviderId[];
+}
+
+/**
+ * Forward-geocode through the `geocode_results` cache first, falling back to
+ * the provider chain and persisting whatever it returns. Throws when the cache
+ * misses, every upstream provider failed and no local provider matched.
+ */
+export async function geocodeCached(query: string): Promise<CachedGeocode> {
+  // --- 1. Check the local cache (normalised query key) ---
+  try {
+    const cached = findGeocodeResult(query, CACHE_MAX_AGE_S);
+    if (cached) {
+      return { results: JSON.parse(cached.results), cache: "HIT" };
+    }
+  } catch (e) {
+    console.error("[db] geocode lookup error:", e);
+  }
+
+  // --- 2. Configured providers, in GEOCODING_PROVIDERS order ---
+  const hit = await geocodeWithProviders(query);
+  if (hit) {
+    // Persist to local DB
+    if (isCacheableProvider(hit.provider)) {
+      try { saveGeocodeResult(query, hit.provider, hit.results, hit.raw); } catch (e) { console.error("[db] geocode save error:", e); }
+    }
+    const fallback = isLocalProvider(hit.provider) && hit.failed.length > 0;
+    return { results: hit.results, cache: "MISS", ...(fallback && { fallbackAfter: hit.failed }) };
+  }
+
+  return { results: [], cache: "MISS" };
+}
+
+/**
+ * Search-as-you-type suggestions from local data only: cached queries that
+ * start with `prefix` (within the cache TTL), then bundled gazetteer places.
+ * No provider is called and nothing is cached, so partial prefixes neither
+ * cost a paid request nor pile up as `geocode_results` rows.
+ */
+export function suggestGeocodes(prefix: string, limit: number): GeocodeResult[] {
+  let cached: GeocodeResult[] = [];
+  try {
+    cached = findGeocodeResultsByPrefix(prefix, 10, CACHE_MAX_AGE_S).flatMap(
+      (row) => JSON.parse(row.results) as GeocodeResult[],
+    );
+  } catch (e) {
+    console.error("[db] geocode prefix lookup error:", e);
+  }
+
+  // De-duplicate by ~11 m position
+  const seen = new Set<string>();
+  const merged: GeocodeResult[] = [];
+  for (const r of [...cached, ...searchPlaces(prefix, limit).map(toGeocodeResult)]) {
+    const key = `${r.lat.toFixed(4)},${r.lng.toFixed(4)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(r);
+    if (merged.length >= limit) break;
+  }
+  return merged;
+}
+
+async function runChain(
+  label: string,
+  call: (p: GeocodingProvider) => Promise<GeocodingResponse>,
+): Promise<ChainResult | null> {
+  const providers = getGeocodingProviders();
+  const failed: GeocodingProviderId[] = [];
+  for (const provider of providers) {
+    try {
+      const res = await call(provider);
+      if (res.results.length) {
+        return { ...res, provider: provider.id, failed: failed.filter((id) => !isLocalProvider(id)) };
+      }
+    } catch (err) {
+      failed.push(provider.id);
+      console.error(`[geocoding] ${provider.id} ${label} failed, trying next provider:`, err);
+    }
+  }
+  // Local providers always answer, so they'd hide an upstream outage — judge by the upstream ones
+  const upstream = providers.filter((p) => !isLocalProvider(p.id));
+  const relevant = upstream.length ? upstream : providers;
+  if (relevant.length && relevant.every((p) => failed.includes(p.id))) {
+    throw new Error(`All geocoding providers failed (${relevant.map((p) => p.id).join(", ")})`);
+  }
+  return null;
+}
+
+/* ---- helpers ---- */
+
+/** GET `url` as JSON, typed as the provider's response shape (not validated) */
+async function fetchJson<T>(url: string, headers?: Record<string, string>): Promise<T> {
+  const res = await fetch(url, { headers });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return (await res.json()) as T;
+}
+
+function formatLatLng(lat: number, lng: number) {
+  return `${lat.toFixed(4)}, ${lng.toFixed(4)}`;
+}
@@ -0,0 +1,135 @@
+import { useCallback, useRef, useState } from "react";
+
+/* ------------------------------------------------------------------ */
+/*  Undo / redo – a state value plus a stack of labelled commands      */
+/* ------------------------------------------------------------------ */
+
+/** Side effects of a command that live outside the tracked state (e.g. database writes) */
+export interface CommandEffects {
+  undo: () => void | Promise<void>;
+  redo: () => void | Promise<void>;
+}
+
+/**
+ * One undoable step. `before` / `after` are the tracked state on either side
+ * (absent for commands that only have effects). Because every change to the
+ * state goes through the stack, restoring `before` on undo is exact.
+ */
+interface Command<T> {
+  label: string;
+  before?: T;
+  after?: T;
+  effects?: CommandEffects;
+}
+
+interface HistoryState<T> {
+  present: T;
+  past: Command<T>[];
+  future: Command<T>[]; // next redo first
+}
+
+type HistoryAction<T> =
+  | { type: "edit"; label: string; update: (state: T) => T; effects?: CommandEffects }
+  | { type: "record"; label: string; effects: CommandEffects }
+  | { type: "travel"; steps: number }
+  | { type: "reset"; present: T };
+
+/** Oldest commands are dropped beyond this */
+export const MAX_HISTORY = 100;
+
+function reducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "edit": {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      const command = { label: action.label, before: state.present, after: next, effects: action.effects };
+      return { present: next, past: [...state.past, command].slice(-MAX_HISTORY), future: [] };
+    }
+    case "record": {
+      const command = { label: action.label, effects: action.effects };
+      return { ...state, past: [...state.past, command].slice(-MAX_HISTORY), future: [] };
+    }
+    case "travel": {
+      let { present, past, future } = state;
+      for (let i = 0; i < -action.steps && past.length; i++) {
+        const command = past[past.length - 1];
+        past = past.slice(0, -1);
+        future = [command, ...future];
+        if (command.before !== undefined) present = command.before;
+      }
+      for (let i = 0; i < action.steps && future.length; i++) {
+        const [command, ...rest] = future;
+        future = rest;
+        past = [...past, command];
+        if (command.after !== undefined) present = command.after;
+      }
+      return { present, past, future };
+    }
+    case "reset":
+      return { present: action.present, past: [], future: [] };
+  }
+}
+
+/**
+ * `useState` with undo / redo. `edit` changes the state as one labelled,
+ * undoable step (with optional side effects to replay); `record` adds a step
+ * that is only side effects; `travel(-n)` / `travel(n)` undo / redo n steps
+ * (resolving once their side effects, queued behind earlier ones, have run);
+ * `reset` replaces the state and forgets the history.
+ */
+export function useUndoableState<T>(initial: T) {
+  const [history, setHistory] = useState<HistoryState<T>>(() => ({ present: initial, past: [], future: [] }));
+  // The latest history, updated synchronously — two undos before a re-render must step
+  // back over (and run the effects of) two different commands
+  const historyRef = useRef(history);
+  // Effects run one command at a time, in the order the steps were taken
+  const effectsRef = useRef<Promise<void>>(Promise.resolve());
+
+  const dispatch = useCallback((action: HistoryAction<T>) => {
+    historyRef.current = reducer(historyRef.current, action);
+    setHistory(historyRef.current);
+  }, []);
+
+  const edit = useCallback(
+    (label: string, update: (state: T) => T, effects?: CommandEffects) => dispatch({ type: "edit", label, update, effects }),
+    [dispatch],
+  );
+  const record = useCallback(
+    (label: string, effects: CommandEffects) => dispatch({ type: "record", label, effects }),
+    [dispatch],
+  );
+  const reset = useCallback((present: T) => dispatch({ type: "reset", present }), [dispatch]);
+
+  const travel = useCallback(
+    (steps: number) => {
+      // The commands being stepped over, in the order their effects must run
+      const { past, future } = historyRef.current;
+      const commands = steps < 0 ? past.slice(steps).reverse() : future.slice(0, steps);
+      if (!commands.length) return effectsRef.current;
+      dispatch({ type: "travel", steps });
+      effectsRef.current = effectsRef.current.then(async () => {
+        for (const command of commands) {
+          try {
+            await (steps < 0 ? command.effects?.undo() : command.effects?.redo());
+          } catch (err) {
+            console.error(`[history] ${steps < 0 ? "undo" : "redo"} of "${command.label}" failed:`, err);
+          }
+        }
+      });
+      return effectsRef.current;
+    },
+    [dispatch],
+  );
+
+  return {
+    state: history.present,
+    /** Labels of the undoable steps, oldest first */
+    past: history.past.map((c) => c.label),
+    /** Labels of the redoable steps, next first */
+    future: history.future.map((c) => c.label),
+    edit,
+    record,
+    reset,
+    travel,
+  };
+}
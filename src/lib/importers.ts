@@ -0,0 +1,274 @@
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import { decodeXml } from "@/lib/xml";
+
+/* ------------------------------------------------------------------ */
+/*  Saved-point importers – GeoJSON, KML, GPX and CSV / XLSX           */
+/* ------------------------------------------------------------------ */
+
+export type PointImportFormat = "geojson" | "kml" | "gpx" | "csv";
+
+/** A point read from a file, ready for `importSavedPoints` */
+export interface ImportedPoint {
+  label: string;
+  lat: number;
+  lng: number;
+  color?: string | null;
+  notes?: string | null;
+  tags: string[];
+  attributes: Record<string, string>;
+  createdAt?: string; // ISO
+  updatedAt?: string;
+}
+
+/** One record of the file — a usable point, or why it isn't one */
+export type ImportedRecord = { point: ImportedPoint } | { label: string; error: string };
+
+/**
+ * Guess the format from the file name, falling back to the content: JSON is
+ * GeoJSON, `<gpx` / `<kml` root elements, anything else a spreadsheet.
+ */
+export function detectPointFormat(data: Buffer, filename = ""): PointImportFormat {
+  const ext = filename.toLowerCase().split(".").pop();
+  if (ext === "geojson" || ext === "json") return "geojson";
+  if (ext === "kml" || ext === "gpx") return ext;
+  if (ext === "csv" || ext === "tsv" || ext === "txt" || ext === "xlsx") return "csv";
+
+  const head = data.subarray(0, 2048).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  if (head.startsWith("{")) return "geojson";
+  if (/<gpx[\s>]/.test(head)) return "gpx";
+  if (/<kml[\s>]/.test(head)) return "kml";
+  return "csv";
+}
+
+/** Read every record of a points file. Throws if the file as a whole can't be parsed. */
+export function readPointsFile(data: Buffer, format: PointImportFormat): ImportedRecord[] {
+  switch (format) {
+    case "geojson":
+      return readGeoJson(data.toString("utf8"));
+    case "kml":
+      return readKml(data.toString("utf8"));
+    case "gpx":
+      return readGpx(data.toString("utf8"));
+    case "csv":
+      return readCsv(data);
+  }
+}
+
+/* ---- formats ---- */
+
+/** Properties read into named point fields (or route-export bookkeeping) rather than custom fields */
+const GEOJSON_PROPS = new Set(
+  "label name title color marker-color notes description tags attributes createdAt updatedAt kind index".split(" "),
+);
+
+function readGeoJson(text: string): ImportedRecord[] {
+  let json: { type?: string; features?: unknown[] };
+  try {
+    json = JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error("Not valid JSON");
+  }
+  const features = (json.type === "FeatureCollection" ? json.features : json.type === "Feature" ? [json] : null) as
+    | { geometry?: { type?: string; coordinates?: unknown[] }; properties?: Record<string, unknown> | null }[]
+    | null;
+  if (!Array.isArray(features)) throw new Error("Expected a GeoJSON Feature or FeatureCollection");
+
+  return features
+    .filter((f) => f?.properties?.kind !== "step" && f?.properties?.kind !== "route") // route exports
+    .map((f) => {
+      const props = f.properties ?? {};
+      const label = str(props.label ?? props.name ?? props.title) ?? "";
+      if (f.geometry?.type !== "Point") return { label, error: `${f.geometry?.type ?? "Missing"} geometry, not a Point` };
+      const [lng, lat] = (f.geometry.coordinates ?? []) as number[];
+
+      // Our own exports nest fields under `attributes`; elsewhere, spare scalar properties become fields
+      const attributes =
+        props.attributes && typeof props.attributes === "object"
+          ? stringRecord(props.attributes as Record<string, unknown>)
+          : stringRecord(Object.fromEntries(Object.entries(props).filter(([k]) => !GEOJSON_PROPS.has(k))));
+
+      return toRecord({
+        label,
+        lat,
+        lng,
+        color: str(props.color ?? props["marker-color"]),
+        notes: str(props.notes ?? props.description),
+        tags: Array.isArray(props.tags) ? props.tags.map(String) : splitTags(str(props.tags)),
+        attributes,
+        createdAt: str(props.createdAt),
+        updatedAt: str(props.updatedAt),
+      });
+    });
+}
+
+function readKml(text: string): ImportedRecord[] {
+  if (!/<kml[\s>]/.test(text)) throw new Error("Not a KML document");
+
+  return xmlElements(text, "Placemark").map(({ body }) => {
+    const label = xmlText(body, "name") ?? "";
+    const point = xmlElements(body, "Point")[0];
+    if (!point) return { label, error: "Not a point placemark" };
+    const [lng, lat] = (xmlText(point.body, "coordinates") ?? "").split(",").map(Number);
+
+    const data: Record<string, string> = {};
+    for (const d of xmlElements(body, "Data")) {
+      const name = xmlAttr(d.attrs, "name");
+      if (name) data[name] = xmlText(d.body, "value") ?? "";
+    }
+    for (const d of xmlElements(body, "SimpleData")) {
+      const name = xmlAttr(d.attrs, "name");
+      if (name) data[name] = decodeXml(d.body).trim();
+    }
+    const {
+      "qterra:tags": ownTags,
+      "qterra:color": color,
+      "qterra:created_at": createdAt,
+      "qterra:updated_at": updatedAt,
+      ...attributes
+    } = data;
+    // Files from elsewhere may carry tags in a plain `tags` field
+    const tags = ownTags ?? attributes.tags;
+    if (ownTags === undefined) delete attributes.tags;
+
+    return toRecord({
+      label,
+      lat,
+      lng,
+      color,
+      notes: xmlText(body, "description"),
+      tags: splitTags(tags),
+      attributes,
+      createdAt: createdAt ?? xmlText(body, "when"),
+      updatedAt,
+    });
+  });
+}
+
+function readGpx(text: string): ImportedRecord[] {
+  if (!/<gpx[\s>]/.test(text)) throw new Error("Not a GPX document");
+
+  return xmlElements(text, "wpt").map(({ attrs, body }) => {
+    const attributes: Record<string, string> = {};
+    for (const f of xmlElements(body, "qterra:field")) {
+      const name = xmlAttr(f.attrs, "name");
+      if (name) attributes[name] = decodeXml(f.body).trim();
+    }
+    return toRecord({
+      label: xmlText(body, "name") ?? "",
+      lat: Number(xmlAttr(attrs, "lat")),
+      lng: Number(xmlAttr(attrs, "lon")),
+      color: xmlText(body, "qterra:color"),
+      notes: xmlText(body, "desc") ?? xmlText(body, "cmt"),
+      tags: xmlElements(body, "qterra:tag").map((t) => decodeXml(t.body).trim()),
+      attributes,
+      createdAt: xmlText(body, "time"),
+      updatedAt: xmlText(body, "qterra:updated"),
+    });
+  });
+}
+
+const CSV_COLUMNS: Record<string, RegExp> = {
+  label: /^(label|name|title)$/,
+  lat: /^(lat|latitude)$/,
+  lng: /^(lng|lon|long|longitude)$/,
+  color: /^colou?r$/,
+  notes: /^(notes?|description)$/,
+  tags: /^tags?$/,
+  createdAt: /^created(_?at)?$/,
+  updatedAt: /^updated(_?at)?$/,
+};
+
+function readCsv(data: Buffer): ImportedRecord[] {
+  const [header, ...rows] = readSpreadsheet(data);
+  if (!header) throw new Error("Spreadsheet is empty");
+
+  const headers = header.map((h) => h.trim());
+  const column = (field: string) => headers.findIndex((h) => CSV_COLUMNS[field].test(h.toLowerCase()));
+  const idx = Object.fromEntries(Object.keys(CSV_COLUMNS).map((f) => [f, column(f)]));
+  if (idx.lat === -1 || idx.lng === -1) throw new Error("Spreadsheet needs lat and lng columns");
+
+  // Every other column is a custom field
+  const mapped = new Set(Object.values(idx));
+  const fieldColumns = headers.map((h, i) => [h, i] as const).filter(([h, i]) => h && !mapped.has(i));
+
+  return rows.map((cells) => {
+    const cell = (field: string) => (idx[field] === -1 ? undefined : cells[idx[field]]?.trim() || undefined);
+    return toRecord({
+      label: cell("label") ?? "",
+      lat: parseFloat(cell("lat") ?? ""),
+      lng: parseFloat(cell("lng") ?? ""),
+      color: cell("color"),
+      notes: cell("notes"),
+      tags: splitTags(cell("tags")),
+      attributes: Object.fromEntries(
+        fieldColumns.map(([h, i]) => [h, cells[i]?.trim() ?? ""]).filter(([, v]) => v !== ""),
+      ),
+      createdAt: cell("createdAt"),
+      updatedAt: cell("updatedAt"),
+    });
+  });
+}
+
+/* ---- helpers ---- */
+
+/** Validate coordinates, default the label and drop unparseable timestamps */
+function toRecord(p: Omit<ImportedPoint, "color" | "notes" | "createdAt" | "updatedAt"> & {
+  color?: string;
+  notes?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}): ImportedRecord {
+  if (!Number.isFinite(p.lat) || !Number.isFinite(p.lng) || Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180) {
+    return { label: p.label, error: "Missing or out-of-range coordinates" };
+  }
+  return {
+    point: {
+      ...p,
+      label: p.label.trim() || `${p.lat.toFixed(4)}, ${p.lng.toFixed(4)}`,
+      color: p.color && /^#[0-9a-f]{3,8}$/i.test(p.color) ? p.color : undefined,
+      notes: p.notes?.trim() || undefined,
+      tags: [...new Set(p.tags.map((t) => t.trim()).filter(Boolean))],
+      createdAt: isoTime(p.createdAt),
+      updatedAt: isoTime(p.updatedAt),
+    },
+  };
+}
+
+function isoTime(value?: string): string | undefined {
+  if (!value) return undefined;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? undefined : d.toISOString();
+}
+
+function str(value: unknown): string | undefined {
+  return value === null || value === undefined || value === "" ? undefined : String(value);
+}
+
+function splitTags(value?: string): string[] {
+  return value ? value.split(/[;,]/).map((t) => t.trim()).filter(Boolean) : [];
+}
+
+function stringRecord(obj: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(obj)
+      .filter(([, v]) => v !== null && v !== undefined && typeof v !== "object")
+      .map(([k, v]) => [k, String(v)]),
+  );
+}
+
+/* ---- minimal XML reading (enough for GPX / KML point data) ---- */
+
+function xmlElements(src: string, tag: string): { attrs: string; body: string }[] {
+  const re = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g");
+  return [...src.matchAll(re)].map((m) => ({ attrs: m[1], body: m[2] ?? "" }));
+}
+
+function xmlText(src: string, tag: string): string | undefined {
+  const el = xmlElements(src, tag)[0];
+  return el ? decodeXml(el.body).trim() || undefined : undefined;
+}
+
+function xmlAttr(attrs: string, name: string): string | undefined {
+  const m = attrs.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return m ? decodeXml(m[2] ?? m[3]) : undefined;
+}
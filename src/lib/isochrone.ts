@@ -0,0 +1,98 @@
+import type mapboxgl from "mapbox-gl";
+import type { Isochrone } from "@/lib/types";
+
+/* ------------------------------------------------------------------ */
+/*  Isochrones – shared limits + drawing for both Mapbox maps          */
+/* ------------------------------------------------------------------ */
+
+export const ISOCHRONE_PROFILES = [
+  { id: "driving", label: "🚗 Car" },
+  { id: "cycling", label: "🚲 Bike" },
+  { id: "walking", label: "🚶 Foot" },
+] as const;
+
+/** Mapbox Isochrone limits: up to 4 contours of at most 60 minutes each */
+export const MAX_CONTOURS = 4;
+export const MAX_CONTOUR_MINUTES = 60;
+
+export const DEFAULT_CONTOUR_MINUTES = [10, 20, 30];
+
+/** Offered in the point detail pane */
+export const CONTOUR_CHOICES = [5, 10, 15, 20, 30, 45, 60];
+
+/** Nearest contour first — green is quickest to reach */
+const CONTOUR_COLORS = ["#4CAF50", "#FFEB3B", "#FF9800", "#F44336"];
+
+export function contourColor(minutes: number, all: number[]): string {
+  const rank = [...all].sort((a, b) => a - b).indexOf(minutes);
+  return CONTOUR_COLORS[Math.max(0, rank)] ?? CONTOUR_COLORS[CONTOUR_COLORS.length - 1];
+}
+
+const SOURCE_ID = "isochrone";
+
+/**
+ * Show `iso` on `map` (or clear it with `null`). Largest contour is drawn
+ * first so the nearer ones stay visible on top. Layers go below `beforeId`
+ * when that layer exists, keeping routes and markers above the fill.
+ */
+export function renderIsochrone(map: mapboxgl.Map, iso: Isochrone | null, beforeId?: string) {
+  const features = iso
+    ? [...iso.polygons.features]
+        .sort((a, b) => Number(b.properties?.contour) - Number(a.properties?.contour))
+        .map((f) => ({
+          ...f,
+          properties: { ...f.properties, color: contourColor(Number(f.properties?.contour), iso.minutes) },
+        }))
+    : [];
+  const data: GeoJSON.FeatureCollection = { type: "FeatureCollection", features };
+
+  const source = map.getSource(SOURCE_ID) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+
+  const before = beforeId && map.getLayer(beforeId) ? beforeId : undefined;
+  map.addSource(SOURCE_ID, { type: "geojson", data });
+  map.addLayer(
+    {
+      id: "isochrone-fill",
+      type: "fill",
+      source: SOURCE_ID,
+      paint: { "fill-color": ["get", "color"], "fill-opacity": 0.2 },
+    },
+    before,
+  );
+  map.addLayer(
+    {
+      id: "isochrone-outline",
+      type: "line",
+      source: SOURCE_ID,
+      paint: { "line-color": ["get", "color"], "line-width": 1.5, "line-opacity": 0.8 },
+    },
+    before,
+  );
+}
+
+/** `[[west, south], [east, north]]` around every contour */
+export function isochroneBounds(iso: Isochrone): [[number, number], [number, number]] | null {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+  const visit = (c: unknown) => {
+    if (typeof (c as number[])[0] === "number") {
+      const [lng, lat] = c as number[];
+      west = Math.min(west, lng);
+      east = Math.max(east, lng);
+      south = Math.min(south, lat);
+      north = Math.max(north, lat);
+    } else {
+      (c as unknown[]).forEach(visit);
+    }
+  };
+  for (const f of iso.polygons.features) {
+    if (f.geometry.type === "Polygon" || f.geometry.type === "MultiPolygon") visit(f.geometry.coordinates);
+  }
+  return Number.isFinite(west) ? [[west, south], [east, north]] : null;
+}
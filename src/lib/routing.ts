@@ -0,0 +1,178 @@
+/* ------------------------------------------------------------------ */
+/*  Routing helpers – waypoint limits and encoding shared by UI + API  */
+/* ------------------------------------------------------------------ */
+
+export type RouteProfile = "driving-traffic" | "driving" | "walking" | "cycling";
+
+/** Mapbox Directions accepts at most 25 coordinates per request… */
+export const MAX_WAYPOINTS = 25;
+
+/** …except the traffic-aware profile, which is limited to 3. */
+export const MAX_TRAFFIC_WAYPOINTS = 3;
+
+export function maxWaypointsFor(profile: string): number {
+  return profile === "driving-traffic" ? MAX_TRAFFIC_WAYPOINTS : MAX_WAYPOINTS;
+}
+
+/** `[{lat, lng}, …]` → `"lng,lat;lng,lat"` (the Mapbox coordinate-list format) */
+export function encodeWaypoints(points: { lat: number; lng: number }[]): string {
+  return points.map((p) => `${p.lng},${p.lat}`).join(";");
+}
+
+/** Inverse of `encodeWaypoints`; returns `null` if any pair is malformed or out of range. */
+export function decodeWaypoints(value: string): { lat: number; lng: number }[] | null {
+  const points = value.split(";").map((pair) => {
+    const [lng, lat] = pair.split(",").map(Number);
+    return { lat, lng };
+  });
+  const valid = points.every(
+    (p) => Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180,
+  );
+  return valid ? points : null;
+}
+
+/** Stop letters A, B, C … (25 waypoints never run past Y) */
+export function waypointLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// ── Departure / arrival scheduling ───────────────────────────────────
+
+/** A planned departure or arrival time; both unset = leave now */
+export interface RouteSchedule {
+  departAt?: string; // "YYYY-MM-DDThh:mm", local time at the origin
+  arriveBy?: string;
+}
+
+/** Mapbox forecasts traffic for `depart_at` on both driving profiles… */
+export function supportsDepartAt(profile: string): boolean {
+  return profile === "driving" || profile === "driving-traffic";
+}
+
+/** …but only plans backwards from `arrive_by` on plain driving. */
+export function supportsArriveBy(profile: string): boolean {
+  return profile === "driving";
+}
+
+/**
+ * Mapbox date-time formats: `YYYY-MM-DDThh:mm` (origin local time),
+ * `YYYY-MM-DDThh:mm:ssZ` or `YYYY-MM-DDThh:mm:ss±hh:mm`.
+ */
+export function isScheduleTime(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(Z|[+-]\d{2}:\d{2}))?$/.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+// ── Visit-order optimisation ─────────────────────────────────────────
+
+/** Mapbox Optimization API accepts at most 12 coordinates per trip */
+export const MAX_OPTIMIZE_MAPBOX = 12;
+
+/** Upper bound for the local solver (2-opt is O(n²) per pass) */
+export const MAX_OPTIMIZE_POINTS = 100;
+
+/** Great-circle distance in metres */
+export function haversineMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6_371_000 * 2 * Math.asin(Math.sqrt(h));
+}
+
+/** Pairwise great-circle distances, `matrix[i][j]` in metres */
+export function distanceMatrix(points: { lat: number; lng: number }[]): number[][] {
+  return points.map((a) => points.map((b) => haversineMeters(a, b)));
+}
+
+/** Total cost of visiting `order` (indices into `matrix`), back to the start when `roundtrip` */
+export function tourLength(matrix: number[][], order: number[], roundtrip: boolean): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) total += matrix[order[i - 1]][order[i]];
+  if (roundtrip && order.length > 1) total += matrix[order[order.length - 1]][order[0]];
+  return total;
+}
+
+/**
+ * Nearest-neighbour tour improved with 2-opt until no swap helps. The first
+ * point always stays first; open paths (`roundtrip` false) also keep the last
+ * point last. Returns point indices in visiting order.
+ */
+export function solveTour(matrix: number[][], roundtrip: boolean): number[] {
+  const n = matrix.length;
+  if (n <= 3) return Array.from({ length: n }, (_, i) => i);
+
+  // Nearest neighbour from point 0 (holding back the fixed end of an open path)
+  const last = roundtrip ? -1 : n - 1;
+  const visited = new Set([0, last]);
+  const order = [0];
+  while (order.length < (roundtrip ? n : n - 1)) {
+    const from = order[order.length - 1];
+    let best = -1;
+    for (let j = 0; j < n; j++) {
+      if (!visited.has(j) && (best < 0 || matrix[from][j] < matrix[from][best])) best = j;
+    }
+    order.push(best);
+    visited.add(best);
+  }
+  if (!roundtrip) order.push(last);
+
+  // 2-opt: reverse path[i..j] whenever that shortens the two edges around it
+  const path = roundtrip ? [...order, 0] : order;
+  for (let improved = true, pass = 0; improved && pass < 50; pass++) {
+    improved = false;
+    for (let i = 1; i < path.length - 2; i++) {
+      for (let j = i + 1; j < path.length - 1; j++) {
+        const delta =
+          matrix[path[i - 1]][path[j]] + matrix[path[i]][path[j + 1]] -
+          matrix[path[i - 1]][path[i]] - matrix[path[j]][path[j + 1]];
+        if (delta < -1e-6) {
+          path.splice(i, j - i + 1, ...path.slice(i, j + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+  }
+  return roundtrip ? path.slice(0, -1) : path;
+}
+
+// ── Travel matrix ────────────────────────────────────────────────────
+
+/** Mapbox Matrix API: 25 coordinates per request, 10 on the traffic profile */
+export const MAX_MATRIX_MAPBOX = 25;
+export const MAX_MATRIX_TRAFFIC = 10;
+
+/** Upper bound for the straight-line fallback (the grid itself becomes unreadable well before this) */
+export const MAX_MATRIX_POINTS = 100;
+
+export function maxMatrixMapboxFor(profile: string): number {
+  return profile === "driving-traffic" ? MAX_MATRIX_TRAFFIC : MAX_MATRIX_MAPBOX;
+}
+
+/** Average speeds (m/s) used to estimate durations when only straight-line distances are known */
+const NOMINAL_SPEEDS: Record<string, number> = {
+  "driving-traffic": 50 / 3.6,
+  driving: 60 / 3.6,
+  cycling: 16 / 3.6,
+  walking: 5 / 3.6,
+};
+
+export function estimateDurationSeconds(meters: number, profile: string): number {
+  return Math.round(meters / (NOMINAL_SPEEDS[profile] ?? NOMINAL_SPEEDS.driving));
+}
+
+// ── Route cache lifetimes (server side) ──────────────────────────────
+
+/**
+ * Max age in seconds of a cached route or matrix for a profile — `undefined` =
+ * no limit, `0` = don't read the cache. Traffic-aware results go stale quickly
+ * (`DIRECTIONS_TRAFFIC_TTL_MINUTES`, default 10, `0` never reuses them); other
+ * profiles rarely change (`DIRECTIONS_CACHE_TTL_DAYS`, default 30, `0` keeps them forever).
+ */
+export function routeCacheMaxAge(profile: string): number | undefined {
+  if (profile === "driving-traffic") {
+    const minutes = parseFloat(process.env.DIRECTIONS_TRAFFIC_TTL_MINUTES ?? "10");
+    return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 : 0;
+  }
+  const days = parseFloat(process.env.DIRECTIONS_CACHE_TTL_DAYS ?? "30");
+  return Number.isFinite(days) && days > 0 ? days * 86_400 : undefined;
+}
@@ -0,0 +1,206 @@
+import { inflateRawSync } from "zlib";
+import { decodeXml } from "@/lib/xml";
+
+/* ------------------------------------------------------------------ */
+/*  Spreadsheet readers – CSV and XLSX into a plain string grid        */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Read an uploaded spreadsheet into rows of cell strings. `.xlsx` files are
+ * detected by their zip signature; anything else is treated as delimited text.
+ */
+export function readSpreadsheet(data: Buffer): string[][] {
+  const isZip = data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+  const rows = isZip ? readXlsx(data) : parseCsv(data.toString("utf8"));
+  // Drop fully blank rows (trailing newlines, spacer rows in Excel)
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+// ── CSV ──────────────────────────────────────────────────────────────
+
+/**
+ * RFC 4180 parser: quoted fields, escaped quotes (`""`) and embedded
+ * newlines. The delimiter (comma, semicolon or tab) is sniffed from the
+ * header line so exports from European-locale Excel work as-is.
+ */
+export function parseCsv(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const delimiter = sniffDelimiter(src.slice(0, src.search(/\r?\n|$/)));
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function sniffDelimiter(headerLine: string): string {
+  let best = ",";
+  let bestCount = 0;
+  for (const d of [",", ";", "\t"]) {
+    const count = headerLine.split(d).length - 1;
+    if (count > bestCount) {
+      best = d;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// ── XLSX ─────────────────────────────────────────────────────────────
+
+/**
+ * Minimal Office Open XML reader — first worksheet only, cell values as
+ * displayed text (shared strings, inline strings, numbers, booleans).
+ * Formulas yield their cached value; styles and dates are not interpreted.
+ */
+export function readXlsx(data: Buffer): string[][] {
+  const files = unzip(data);
+  const text = (name: string) => files.get(name)?.toString("utf8");
+
+  const sharedStrings = [...(text("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)].map(
+    (m) => xmlText(m[1]),
+  );
+
+  const sheetXml = text(firstSheetPath(text)) ?? text("xl/worksheets/sheet1.xml");
+  if (!sheetXml) throw new Error("Workbook has no worksheets");
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheetXml.matchAll(/<row\b[^>]*>([\s\S]*?)<\/row>/g)) {
+    const row: string[] = [];
+    let nextCol = 0;
+    for (const cell of rowMatch[1].matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] ?? "";
+      const ref = /\br="([A-Z]+)\d+"/.exec(attrs)?.[1];
+      const col = ref ? columnIndex(ref) : nextCol;
+      const type = /\bt="(\w+)"/.exec(attrs)?.[1];
+      const v = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+
+      let value = "";
+      if (type === "s" && v != null) value = sharedStrings[parseInt(v, 10)] ?? "";
+      else if (type === "inlineStr") value = xmlText(body);
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (v != null) value = decodeXml(v);
+
+      while (row.length < col) row.push("");
+      row[col] = value;
+      nextCol = col + 1;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/** Resolve the first `<sheet>` in workbook.xml to its part path via the relationships file */
+function firstSheetPath(text: (name: string) => string | undefined): string {
+  const relId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(text("xl/workbook.xml") ?? "")?.[1];
+  const rels = text("xl/_rels/workbook.xml.rels") ?? "";
+  for (const m of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+    if (m[0].includes(`Id="${relId}"`)) {
+      const target = /\bTarget="([^"]+)"/.exec(m[0])?.[1] ?? "";
+      return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+/** Concatenate every `<t>` run (rich text splits a string into several) */
+function xmlText(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((m) => decodeXml(m[1])).join("");
+}
+
+/* ---- zip container ---- */
+
+/** Uncompressed size allowed for a whole archive — guards against zip bombs */
+const MAX_UNZIPPED_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Extract every entry of a zip archive (stored or deflated) via its central
+ * directory. Throws once the entries add up to more than `MAX_UNZIPPED_BYTES`.
+ */
+function unzip(data: Buffer): Map<string, Buffer> {
+  // End-of-central-directory record: last 22 bytes + up to 64 KB of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .xlsx file");
+
+  const entries = data.readUInt16LE(eocd + 10);
+  let ptr = data.readUInt32LE(eocd + 16);
+  const files = new Map<string, Buffer>();
+  let budget = MAX_UNZIPPED_BYTES;
+
+  for (let i = 0; i < entries; i++) {
+    if (data.readUInt32LE(ptr) !== 0x02014b50) throw new Error("Corrupt .xlsx central directory");
+    const method = data.readUInt16LE(ptr + 10);
+    const compressedSize = data.readUInt32LE(ptr + 20);
+    const nameLen = data.readUInt16LE(ptr + 28);
+    const extraLen = data.readUInt16LE(ptr + 30);
+    const commentLen = data.readUInt16LE(ptr + 32);
+    const localOffset = data.readUInt32LE(ptr + 42);
+    const name = data.toString("utf8", ptr + 46, ptr + 46 + nameLen);
+
+    // Local header has its own (possibly different) extra-field length
+    const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    const raw = data.subarray(start, start + compressedSize);
+    let file: Buffer | null = null;
+    if (method === 0) file = raw;
+    else if (method === 8) {
+      try {
+        // One byte over the budget is enough to tell it was exceeded
+        file = inflateRawSync(raw, { maxOutputLength: budget + 1 });
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "ERR_BUFFER_TOO_LARGE") throw err;
+        budget = -1;
+      }
+    }
+    if (file) budget -= file.length;
+    if (budget < 0) throw new Error(`.xlsx file expands to more than ${MAX_UNZIPPED_BYTES / 1024 / 1024} MB`);
+    if (file) files.set(name, file);
+
+    ptr += 46 + nameLen + extraLen + commentLen;
+  }
+  return files;
+}
@@ -1,3 +1,5 @@
+import type { RouteProfile } from "@/lib/routing";
+
 export interface Coordinate {
   id: string;
   lat: number;
@@ -6,6 +8,138 @@ export interface Coordinate {
   color?: string;
 }
 
+/** A normalised geocoder hit, as returned by `/api/geocode` */
+export interface GeocodeResult {
+  lat: number;
+  lng: number;
+  name: string;
+  fullAddress: string;
+}
+
+export type BatchGeocodeStatus = "ok" | "not_found" | "error" | "skipped";
+
+/** One spreadsheet row's outcome from `/api/geocode/batch` */
+export interface BatchGeocodeRow {
+  row: number; // 1-based data row (header excluded)
+  query: string;
+  label: string;
+  status: BatchGeocodeStatus;
+  result?: GeocodeResult; // best match when status === "ok"
+  matches: number; // total candidates — > 1 means the address was ambiguous
+  cache?: "HIT" | "MISS";
+  error?: string;
+  warning?: string; // e.g. only the offline gazetteer answered because the upstream providers failed
+}
+
+/** Reachability polygons around a point, as shown on the Mapbox maps */
+export interface Isochrone {
+  pointId: string;
+  label: string;
+  lat: number;
+  lng: number;
+  profile: string; // driving | driving-traffic | walking | cycling
+  minutes: number[]; // contour times, ascending
+  polygons: GeoJSON.FeatureCollection; // one Polygon feature per contour (`properties.contour` = minutes)
+}
+
+/** A stored route, as listed by `/api/directions/history` */
+export interface RouteHistoryEntry {
+  id: number; // `directions` row id — replay with `/api/directions?id=…`
+  profile: string;
+  createdAt: string; // ISO timestamp of the Mapbox fetch
+  departAt: string | null;
+  arriveBy: string | null;
+  stops: { label: string; lat: number; lng: number }[]; // visiting order
+  distance: number; // metres
+  duration: number; // seconds
+}
+
+/** A preset from `saved_points`, as returned by `/api/points` */
+export interface SavedPoint {
+  id: number;
+  label: string;
+  lat: number;
+  lng: number;
+  color: string | null;
+  notes: string | null;
+  tags: string[];
+  attributes: Record<string, string>; // free-form fields, e.g. { "Site ID": "NY-042", owner: "Dana" }
+  createdAt: string; // ISO timestamps
+  updatedAt: string;
+}
+
+export type PointImportStatus = "new" | "duplicate" | "invalid";
+
+/** One record's outcome in a `/api/points/import` preview */
+export interface PointImportRow {
+  row: number; // 1-based position in the file (data rows / features / placemarks / waypoints)
+  label: string;
+  lat?: number;
+  lng?: number;
+  status: PointImportStatus;
+  duplicateOf?: string; // label of the saved point (or earlier row) at the same spot
+  error?: string; // why an invalid record couldn't be read
+}
+
+/** A named folder of saved points, as listed by `/api/points/collections` */
+export interface PointCollection {
+  id: number;
+  name: string;
+  color: string | null;
+  pointIds: number[]; // `saved_points` ids — a point can sit in several collections
+}
+
+/** N×N travel times / distances between points, `durations[from][to]` */
+export interface TravelMatrix {
+  profile: string; // driving | driving-traffic | walking | cycling
+  source: "mapbox" | "local";
+  metric: "road" | "straight-line"; // local = great-circle distance, duration estimated from a nominal speed
+  durations: (number | null)[][]; // seconds, null = no route
+  distances: (number | null)[][]; // metres
+}
+
+/** Where the globe or map is looking; `zoom` is Mapbox-style (the globe converts it to a camera distance) */
+export interface CameraView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+/** The flight list's text and origin-country filters */
+export interface FlightFilter {
+  query: string;
+  country: string | null;
+}
+
+/**
+ * Everything a shareable link or a saved workspace restores. Pins are kept
+ * in order without ids; the route refers to them by index.
+ */
+export interface WorkspaceState {
+  viewMode: "globe" | "map";
+  pins: Omit<Coordinate, "id">[];
+  route: { stops: number[]; open: boolean; profile: RouteProfile };
+  flights: boolean;
+  flightFilter: FlightFilter;
+  satellites: boolean;
+  webcams: boolean;
+  satelliteCategory: SatelliteCategory;
+  camera: CameraView | null;
+}
+
+/** A named, saved workspace as listed by `/api/workspaces` */
+export interface WorkspaceSummary {
+  id: number;
+  name: string;
+  pinCount: number;
+  createdAt: string; // ISO
+  updatedAt: string;
+}
+
+export interface Workspace extends WorkspaceSummary {
+  state: WorkspaceState;
+}
+
 export interface GlobeConfig {
   autoRotate: boolean;
   rotationSpeed: number;
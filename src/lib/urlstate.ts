@@ -0,0 +1,194 @@
+import type { CameraView, SatelliteCategory, WorkspaceState } from "@/lib/types";
+import type { RouteProfile } from "@/lib/routing";
+
+/* ------------------------------------------------------------------ */
+/*  Shareable workspace links – the page state in a versioned hash     */
+/* ------------------------------------------------------------------ */
+
+/** A decoded link — the workspace, plus the saved workspace it belongs to (if any) */
+export type LinkState = WorkspaceState & { workspaceId: number | null };
+
+export const URL_STATE_VERSION = 1;
+
+export const DEFAULT_WORKSPACE: WorkspaceState = {
+  viewMode: "globe",
+  pins: [],
+  route: { stops: [], open: false, profile: "driving-traffic" },
+  flights: false,
+  flightFilter: { query: "", country: null },
+  satellites: false,
+  webcams: false,
+  satelliteCategory: 0,
+  camera: null,
+};
+
+const PROFILES: RouteProfile[] = ["driving-traffic", "driving", "walking", "cycling"];
+const DEFAULT_PIN_COLOR = "#f59f0a";
+
+/**
+ * State → URL hash (without the `#`), e.g.
+ *
+ *   v=1&m=map&c=48.8566,2.3522,11.5&p=48.8566,2.3522,,Paris&p=51.5072,-0.1276,3b82f6,London&r=0.1&ro=1&rp=walking&l=sw&sc=2
+ *
+ * `p` repeats once per pin as `lat,lng,color,label` (the label last, so it
+ * may contain commas; an empty color is the default amber). `r` lists route
+ * stops as pin indices, `l` the live layers (f = flights, s = satellites,
+ * w = webcams), `ff` / `fc` the flight list's text and country filters and
+ * `w` the id of the saved workspace being edited. Defaults are left out, so
+ * an untouched workspace is `v=1`.
+ */
+export function encodeWorkspace(state: WorkspaceState, workspaceId: number | null = null): string {
+  const params = new URLSearchParams({ v: String(URL_STATE_VERSION) });
+  if (state.viewMode !== "globe") params.set("m", state.viewMode);
+  if (state.camera) {
+    const { lat, lng, zoom } = state.camera;
+    params.set("c", `${round(lat, 4)},${round(lng, 4)},${round(zoom, 2)}`);
+  }
+  for (const pin of state.pins) {
+    const color = pin.color && pin.color.toLowerCase() !== DEFAULT_PIN_COLOR ? pin.color.replace(/^#/, "") : "";
+    params.append("p", `${round(pin.lat, 5)},${round(pin.lng, 5)},${color},${pin.label}`);
+  }
+  if (state.route.stops.length) params.set("r", state.route.stops.join("."));
+  if (state.route.open) params.set("ro", "1");
+  if (state.route.profile !== DEFAULT_WORKSPACE.route.profile) params.set("rp", state.route.profile);
+  const layers = (state.flights ? "f" : "") + (state.satellites ? "s" : "") + (state.webcams ? "w" : "");
+  if (layers) params.set("l", layers);
+  if (state.flightFilter.query) params.set("ff", state.flightFilter.query);
+  if (state.flightFilter.country) params.set("fc", state.flightFilter.country);
+  if (state.satelliteCategory !== 0) params.set("sc", String(state.satelliteCategory));
+  if (workspaceId !== null) params.set("w", String(workspaceId));
+  // Commas are safe in a fragment — leaving them unescaped keeps pins readable
+  return params.toString().replace(/%2C/g, ",");
+}
+
+/**
+ * URL hash → state. Returns `null` for an empty hash or one written by an
+ * unknown version; malformed parts fall back to their defaults rather than
+ * rejecting the whole link.
+ */
+export function decodeWorkspace(hash: string): LinkState | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  if (params.get("v") !== String(URL_STATE_VERSION)) return null;
+
+  const workspaceId = Number(params.get("w") ?? NaN);
+  return {
+    ...readWorkspace(params),
+    workspaceId: Number.isInteger(workspaceId) && workspaceId > 0 ? workspaceId : null,
+  };
+}
+
+/**
+ * Validate a state from an untrusted source (e.g. a request body) at full
+ * precision; `null` if it isn't shaped like a workspace at all. Like a link,
+ * invalid pins are dropped and other malformed parts fall back to defaults.
+ */
+export function sanitizeWorkspace(value: unknown): WorkspaceState | null {
+  if (!isRecord(value) || !Array.isArray(value.pins)) return null;
+
+  // Original index → index among the valid pins, so stops still point at the same pins
+  const kept = new Map<number, number>();
+  const pins = value.pins.flatMap((p, i) => {
+    if (!isRecord(p) || typeof p.lat !== "number" || typeof p.lng !== "number") return [];
+    const pin = { lat: p.lat, lng: p.lng };
+    if (!validLatLng(pin)) return [];
+    kept.set(i, kept.size);
+    return [{
+      ...pin,
+      label: typeof p.label === "string" && p.label ? p.label : `${pin.lat.toFixed(4)}, ${pin.lng.toFixed(4)}`,
+      color: typeof p.color === "string" && /^#[0-9a-f]{3,8}$/i.test(p.color) ? p.color : DEFAULT_PIN_COLOR,
+    }];
+  });
+
+  const route = isRecord(value.route) ? value.route : {};
+  const stops = Array.isArray(route.stops)
+    ? route.stops.flatMap((i) => (typeof i === "number" && kept.has(i) ? [kept.get(i)!] : []))
+    : [];
+  const filter = isRecord(value.flightFilter) ? value.flightFilter : {};
+  const camera = isRecord(value.camera) ? value.camera : null;
+
+  return {
+    viewMode: value.viewMode === "map" ? "map" : "globe",
+    pins,
+    route: { stops, open: route.open === true && stops.length >= 2, profile: toProfile(route.profile) },
+    flights: value.flights === true,
+    flightFilter: {
+      query: typeof filter.query === "string" ? filter.query : "",
+      country: typeof filter.country === "string" && filter.country ? filter.country : null,
+    },
+    satellites: value.satellites === true,
+    webcams: value.webcams === true,
+    satelliteCategory: toSatelliteCategory(value.satelliteCategory ?? 0),
+    camera: camera && toCamera(Number(camera.lat), Number(camera.lng), Number(camera.zoom)),
+  };
+}
+
+/* ---- helpers ---- */
+
+function readWorkspace(params: URLSearchParams): WorkspaceState {
+  const pins = params.getAll("p").flatMap((value) => {
+    const [lat, lng, color, ...label] = value.split(",");
+    const pin = { lat: parseFloat(lat), lng: parseFloat(lng) };
+    if (!validLatLng(pin)) return [];
+    return [{
+      ...pin,
+      label: label.join(",").trim() || `${pin.lat.toFixed(4)}, ${pin.lng.toFixed(4)}`,
+      color: /^[0-9a-f]{3,8}$/i.test(color ?? "") ? `#${color}` : DEFAULT_PIN_COLOR,
+    }];
+  });
+
+  const stops = (params.get("r") ?? "")
+    .split(".")
+    .filter(Boolean)
+    .map(Number)
+    .filter((i) => Number.isInteger(i) && i >= 0 && i < pins.length);
+
+  const layers = params.get("l") ?? "";
+
+  return {
+    viewMode: params.get("m") === "map" ? "map" : "globe",
+    pins,
+    route: {
+      stops,
+      open: params.get("ro") === "1" && stops.length >= 2,
+      profile: toProfile(params.get("rp")),
+    },
+    flights: layers.includes("f"),
+    flightFilter: { query: params.get("ff") ?? "", country: params.get("fc") || null },
+    satellites: layers.includes("s"),
+    webcams: layers.includes("w"),
+    satelliteCategory: toSatelliteCategory(Number(params.get("sc") ?? 0)),
+    camera: decodeCamera(params.get("c")),
+  };
+}
+
+function decodeCamera(value: string | null): CameraView | null {
+  if (!value) return null;
+  const [lat, lng, zoom] = value.split(",").map(parseFloat);
+  return toCamera(lat, lng, zoom);
+}
+
+function toCamera(lat: number, lng: number, zoom: number): CameraView | null {
+  const camera = { lat, lng, zoom };
+  return validLatLng(camera) && Number.isFinite(zoom) && zoom >= 0 && zoom <= 22 ? camera : null;
+}
+
+function toProfile(value: unknown): RouteProfile {
+  return PROFILES.find((p) => p === value) ?? DEFAULT_WORKSPACE.route.profile;
+}
+
+function toSatelliteCategory(value: unknown): SatelliteCategory {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= 52 ? (value as SatelliteCategory) : 0;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validLatLng(p: { lat: number; lng: number }): boolean {
+  return Number.isFinite(p.lat) && Number.isFinite(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180;
+}
+
+function round(n: number, digits: number): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
@@ -0,0 +1,21 @@
+/* ------------------------------------------------------------------ */
+/*  XML text – decoding shared by the GPX / KML and XLSX readers       */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Element text or an attribute value → plain text: resolves the five named
+ * entities and numeric character references, and unwraps a body that is a
+ * single CDATA section.
+ */
+export function decodeXml(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(x?)([0-9a-f]+);/gi, (_, hex, n) => String.fromCodePoint(parseInt(n, hex ? 16 : 10)))
+    // Last, so an escaped reference such as `&amp;lt;` stays `&lt;`
+    .replace(/&amp;/g, "&");
+}